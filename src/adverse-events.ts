@@ -0,0 +1,132 @@
+/**
+ * FAERS 不良事件（/drug/event.json）查询构建与结果整理
+ * MCP 工具与 HTTP 路由共用
+ */
+
+import { and, buildSearch, or, phrase, range, term } from "./query-builder.js";
+import { AdverseEventFilters } from "./schemas.js";
+import { AdverseEventReport, OpenFDACountResult } from "./types.js";
+import { SearchNode } from "./search-syntax.js";
+
+const SERIOUSNESS_FIELDS: Record<NonNullable<AdverseEventFilters["seriousness"]>, string> = {
+  death: "seriousnessdeath",
+  life_threatening: "seriousnesslifethreatening",
+  hospitalization: "seriousnesshospitalization",
+  disabling: "seriousnessdisabling",
+  congenital_anomaly: "seriousnesscongenitalanomali",
+  other: "seriousnessother",
+};
+
+// patient.reaction.reactionoutcome 编码
+const OUTCOME_CODES: Record<NonNullable<AdverseEventFilters["outcome"]>, string> = {
+  recovered: "1",
+  recovering: "2",
+  not_recovered: "3",
+  recovered_with_sequelae: "4",
+  fatal: "5",
+  unknown: "6",
+};
+
+const SEX_CODES: Record<NonNullable<AdverseEventFilters["sex"]>, string> = {
+  unknown: "0",
+  male: "1",
+  female: "2",
+};
+
+const DRUG_CHARACTERIZATION: Record<string, string> = {
+  "1": "suspect",
+  "2": "concomitant",
+  "3": "interacting",
+};
+
+// patient.patientonsetageunit 中 801 表示“年”
+const AGE_UNIT_YEARS = "801";
+
+/**
+ * 在报告的任一药物上按品牌名、通用名、活性成分或上报药名匹配
+ */
+export function eventDrugQuery(drugName: string): SearchNode {
+  return or(
+    phrase("patient.drug.openfda.brand_name", drugName),
+    phrase("patient.drug.openfda.generic_name", drugName),
+    phrase("patient.drug.openfda.substance_name", drugName),
+    phrase("patient.drug.medicinalproduct", drugName)
+  )!;
+}
+
+/**
+ * 将筛选条件转换为 search 参数；没有任何条件时返回 undefined
+ */
+export function buildAdverseEventSearch(filters: AdverseEventFilters): string | undefined {
+  const hasAgeFilter = filters.min_age !== undefined || filters.max_age !== undefined;
+  const hasDateFilter = filters.received_from !== undefined || filters.received_to !== undefined;
+
+  const query = and(
+    filters.drug ? eventDrugQuery(filters.drug) : null,
+    filters.reaction ? phrase("patient.reaction.reactionmeddrapt", filters.reaction) : null,
+    filters.serious !== undefined ? term("serious", filters.serious ? "1" : "2") : null,
+    filters.seriousness ? term(SERIOUSNESS_FIELDS[filters.seriousness], "1") : null,
+    filters.outcome ? term("patient.reaction.reactionoutcome", OUTCOME_CODES[filters.outcome]) : null,
+    filters.sex ? term("patient.patientsex", SEX_CODES[filters.sex]) : null,
+    hasAgeFilter ? range("patient.patientonsetage", filters.min_age ?? "*", filters.max_age ?? "*") : null,
+    hasAgeFilter ? term("patient.patientonsetageunit", AGE_UNIT_YEARS) : null,
+    hasDateFilter ? range("receivedate", filters.received_from ?? "*", filters.received_to ?? "*") : null
+  );
+
+  return query ? buildSearch(query) : undefined;
+}
+
+/**
+ * 整理单条报告：保留报告标识、严重程度、患者信息、涉及药物与不良反应
+ */
+export function summarizeAdverseEvent(report: AdverseEventReport) {
+  const seriousness = Object.entries(SERIOUSNESS_FIELDS)
+    .filter(([, field]) => report[field] === "1")
+    .map(([name]) => name);
+
+  const outcomeNames = Object.fromEntries(
+    Object.entries(OUTCOME_CODES).map(([name, code]) => [code, name])
+  );
+  const sexNames = Object.fromEntries(
+    Object.entries(SEX_CODES).map(([name, code]) => [code, name])
+  );
+
+  const patient = report.patient;
+  const suspectDrug = patient?.drug?.find(drug => drug.drugcharacterization === "1") || patient?.drug?.[0];
+
+  return {
+    safety_report_id: report.safetyreportid,
+    receive_date: report.receivedate,
+    country: report.occurcountry,
+    drug_name: suspectDrug?.openfda?.brand_name?.[0] || suspectDrug?.medicinalproduct || "Unknown",
+    manufacturer: suspectDrug?.openfda?.manufacturer_name?.[0] || "Unknown",
+    serious: report.serious === "1",
+    seriousness,
+    patient: {
+      age: patient?.patientonsetage ? Number(patient.patientonsetage) : undefined,
+      age_unit: patient?.patientonsetageunit === AGE_UNIT_YEARS ? "years" : patient?.patientonsetageunit,
+      sex: patient?.patientsex ? sexNames[patient.patientsex] : undefined,
+    },
+    drugs: (patient?.drug || []).map(drug => ({
+      name: drug.medicinalproduct,
+      generic_name: drug.openfda?.generic_name?.[0],
+      role: drug.drugcharacterization ? DRUG_CHARACTERIZATION[drug.drugcharacterization] : undefined,
+      indication: drug.drugindication,
+    })),
+    adverse_reactions: (patient?.reaction || []).map(reaction => ({
+      reaction: reaction.reactionmeddrapt,
+      outcome: reaction.reactionoutcome ? outcomeNames[reaction.reactionoutcome] : undefined,
+    })),
+  };
+}
+
+/**
+ * count 结果转换为与标签工具 adverse_reactions_data 一致的列表
+ */
+export function summarizeReactionCounts(drugName: string, counts: OpenFDACountResult[]) {
+  return counts.map(item => ({
+    drug_name: drugName,
+    reaction: item.term,
+    report_count: item.count,
+  }));
+}
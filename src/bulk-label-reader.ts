@@ -0,0 +1,176 @@
+/**
+ * 读取 OpenFDA 批量下载文件（drug-label-*.json.zip 或解压后的 .json）
+ * 流式解压并逐条解析 results 数组，避免把整个 JSON 读入内存
+ */
+
+import fs from "fs";
+import zlib from "zlib";
+import { StringDecoder } from "string_decoder";
+import { Readable } from "stream";
+import { DrugLabel, OpenFDAMeta } from "./types.js";
+
+export type BulkFileItem =
+  | { kind: "meta"; meta: OpenFDAMeta }
+  | { kind: "record"; record: DrugLabel };
+
+interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+/**
+ * 依次产出文件中的 meta 与每条标签记录
+ */
+export async function* readBulkLabelFile(filePath: string): AsyncGenerator<BulkFileItem> {
+  if (filePath.toLowerCase().endsWith(".zip")) {
+    for (const entry of listZipEntries(filePath)) {
+      if (!entry.name.toLowerCase().endsWith(".json")) continue;
+      yield* parseBulkJson(openZipEntry(filePath, entry));
+    }
+    return;
+  }
+
+  yield* parseBulkJson(fs.createReadStream(filePath));
+}
+
+function listZipEntries(filePath: string): ZipEntry[] {
+  const fd = fs.openSync(filePath, "r");
+  try {
+    const size = fs.fstatSync(fd).size;
+
+    // End of central directory 位于文件末尾，注释最长 64KB
+    const tailSize = Math.min(size, 22 + 0xffff);
+    const tail = Buffer.alloc(tailSize);
+    fs.readSync(fd, tail, 0, tailSize, size - tailSize);
+    const eocd = tail.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+    if (eocd === -1) {
+      throw new Error(`${filePath} is not a zip archive`);
+    }
+
+    const entryCount = tail.readUInt16LE(eocd + 10);
+    const directorySize = tail.readUInt32LE(eocd + 12);
+    const directoryOffset = tail.readUInt32LE(eocd + 16);
+    if (directoryOffset === 0xffffffff) {
+      throw new Error(`${filePath} uses ZIP64, which is not supported`);
+    }
+
+    const directory = Buffer.alloc(directorySize);
+    fs.readSync(fd, directory, 0, directorySize, directoryOffset);
+
+    const entries: ZipEntry[] = [];
+    let pos = 0;
+    for (let i = 0; i < entryCount; i++) {
+      if (directory.readUInt32LE(pos) !== 0x02014b50) {
+        throw new Error(`${filePath} has a corrupt central directory`);
+      }
+      const method = directory.readUInt16LE(pos + 10);
+      const compressedSize = directory.readUInt32LE(pos + 20);
+      const nameLength = directory.readUInt16LE(pos + 28);
+      const extraLength = directory.readUInt16LE(pos + 30);
+      const commentLength = directory.readUInt16LE(pos + 32);
+      const localHeaderOffset = directory.readUInt32LE(pos + 42);
+      const name = directory.toString("utf8", pos + 46, pos + 46 + nameLength);
+
+      entries.push({ name, method, compressedSize, localHeaderOffset });
+      pos += 46 + nameLength + extraLength + commentLength;
+    }
+    return entries;
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+function openZipEntry(filePath: string, entry: ZipEntry): Readable {
+  const fd = fs.openSync(filePath, "r");
+  const header = Buffer.alloc(30);
+  fs.readSync(fd, header, 0, 30, entry.localHeaderOffset);
+  fs.closeSync(fd);
+
+  const dataStart = entry.localHeaderOffset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28);
+  const raw = fs.createReadStream(filePath, {
+    start: dataStart,
+    end: dataStart + entry.compressedSize - 1,
+  });
+
+  if (entry.method === 0) return raw;
+  if (entry.method === 8) return raw.pipe(zlib.createInflateRaw());
+  throw new Error(`Unsupported zip compression method ${entry.method} for ${entry.name}`);
+}
+
+/**
+ * 按字符扫描 {"meta": {...}, "results": [{...}, ...]}：
+ * 整体解析 meta，results 中的每个对象单独截取后 JSON.parse
+ */
+async function* parseBulkJson(stream: Readable): AsyncGenerator<BulkFileItem> {
+  const decoder = new StringDecoder("utf8");
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let lastKey = "";
+  let keyBuffer = "";
+  let inResults = false;
+  let capturing: "meta" | "record" | null = null;
+  let captureDepth = 0;
+  let captured: string[] = [];
+
+  for await (const chunk of stream) {
+    const text = typeof chunk === "string" ? chunk : decoder.write(chunk);
+    let captureStart = 0;
+    const items: BulkFileItem[] = [];
+
+    for (let i = 0; i < text.length; i++) {
+      const ch = text.charCodeAt(i);
+
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (ch === 0x5c /* \ */) {
+          escaped = true;
+        } else if (ch === 0x22 /* " */) {
+          inString = false;
+          if (depth === 1) lastKey = keyBuffer;
+        } else if (depth === 1) {
+          keyBuffer += text[i];
+        }
+        continue;
+      }
+
+      if (ch === 0x22) {
+        inString = true;
+        keyBuffer = "";
+      } else if (ch === 0x7b /* { */ || ch === 0x5b /* [ */) {
+        depth++;
+        if (!capturing && depth === 2 && ch === 0x7b && lastKey === "meta") {
+          capturing = "meta";
+          captureDepth = 2;
+          captureStart = i;
+        } else if (depth === 2 && ch === 0x5b && lastKey === "results") {
+          inResults = true;
+        } else if (!capturing && inResults && depth === 3 && ch === 0x7b) {
+          capturing = "record";
+          captureDepth = 3;
+          captureStart = i;
+        }
+      } else if (ch === 0x7d /* } */ || ch === 0x5d /* ] */) {
+        if (capturing && depth === captureDepth) {
+          captured.push(text.slice(captureStart, i + 1));
+          const json = JSON.parse(captured.join(""));
+          items.push(capturing === "meta" ? { kind: "meta", meta: json } : { kind: "record", record: json });
+          captured = [];
+          capturing = null;
+        }
+        if (depth === 2 && inResults && ch === 0x5d) {
+          inResults = false;
+        }
+        depth--;
+      }
+    }
+
+    if (capturing) {
+      captured.push(text.slice(captureStart));
+    }
+    yield* items;
+  }
+}
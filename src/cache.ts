@@ -0,0 +1,219 @@
+/**
+ * OpenFDA 响应缓存
+ * 内存 LRU + 可选 JSON 文件持久化，过期时间依据 meta.last_updated 推算
+ */
+
+import fs from "fs";
+import path from "path";
+import { OpenFDAQueryParams } from "./openfda-client.js";
+import { OpenFDAResponse } from "./types.js";
+
+export interface ResponseCacheOptions {
+  /** 内存中最多保留的条目数 */
+  maxEntries: number;
+  /** 持久化文件路径，不设置则仅缓存在内存 */
+  filePath?: string;
+  /** OpenFDA 数据集的刷新周期：条目在 last_updated + refreshIntervalMs 之后过期 */
+  refreshIntervalMs?: number;
+  /** 最短缓存时间，避免 last_updated 较旧时条目立即过期 */
+  minTtlMs?: number;
+  now?: () => number;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  evictions: number;
+  size: number;
+  max_entries: number;
+  persistent: boolean;
+}
+
+interface CacheEntry {
+  key: string;
+  lastUpdated: string;
+  expiresAt: number;
+  value: OpenFDAResponse<unknown>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_CACHE_OPTIONS = {
+  maxEntries: 200,
+  refreshIntervalMs: 7 * DAY_MS,
+  minTtlMs: 60 * 60 * 1000,
+};
+
+/**
+ * 按端点与规范化后的 search/count/skip/limit 生成缓存键
+ */
+export function cacheKey(endpoint: string, params: OpenFDAQueryParams): string {
+  return JSON.stringify([
+    endpoint,
+    (params.search || "").trim().replace(/\s+/g, " "),
+    (params.count || "").trim(),
+    params.skip || 0,
+    params.limit || 0,
+    // 未排序的查询沿用原有缓存键
+    ...(params.sort ? [params.sort] : []),
+  ]);
+}
+
+/**
+ * 缓存键的第一项是端点（见 cacheKey）
+ */
+function endpointOf(key: string): string {
+  try {
+    const parsed = JSON.parse(key);
+    return Array.isArray(parsed) ? String(parsed[0]) : key;
+  } catch {
+    return key;
+  }
+}
+
+export class ResponseCache {
+  private entries = new Map<string, CacheEntry>();
+  private maxEntries: number;
+  private filePath?: string;
+  private refreshIntervalMs: number;
+  private minTtlMs: number;
+  private now: () => number;
+  // 每个端点见过的最新 last_updated；该端点的数据集刷新后其旧条目一律失效，其他端点不受影响
+  private latestLastUpdated = new Map<string, string>();
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+  private counters = { hits: 0, misses: 0, evictions: 0 };
+
+  constructor(options: ResponseCacheOptions) {
+    this.maxEntries = Math.max(1, options.maxEntries);
+    this.filePath = options.filePath;
+    this.refreshIntervalMs = options.refreshIntervalMs ?? DEFAULT_CACHE_OPTIONS.refreshIntervalMs;
+    this.minTtlMs = options.minTtlMs ?? DEFAULT_CACHE_OPTIONS.minTtlMs;
+    this.now = options.now || Date.now;
+    this.load();
+  }
+
+  get<T>(key: string): OpenFDAResponse<T> | undefined {
+    const entry = this.entries.get(key);
+
+    if (!entry || this.isStale(entry)) {
+      if (entry) this.entries.delete(key);
+      this.counters.misses++;
+      return undefined;
+    }
+
+    // 重新插入以维持 LRU 顺序
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.counters.hits++;
+    return entry.value as OpenFDAResponse<T>;
+  }
+
+  set(key: string, value: OpenFDAResponse<unknown>) {
+    const lastUpdated = value.meta?.last_updated || "";
+    this.noteLastUpdated(key, lastUpdated);
+
+    this.entries.delete(key);
+    this.entries.set(key, {
+      key,
+      lastUpdated,
+      expiresAt: this.expiresAt(lastUpdated),
+      value,
+    });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+      this.counters.evictions++;
+    }
+
+    this.scheduleSave();
+  }
+
+  clear() {
+    this.entries.clear();
+    this.scheduleSave();
+  }
+
+  stats(): CacheStats {
+    return {
+      ...this.counters,
+      size: this.entries.size,
+      max_entries: this.maxEntries,
+      persistent: !!this.filePath,
+    };
+  }
+
+  private isStale(entry: CacheEntry): boolean {
+    const latest = this.latestLastUpdated.get(endpointOf(entry.key)) || "";
+    return entry.expiresAt <= this.now() || entry.lastUpdated < latest;
+  }
+
+  private noteLastUpdated(key: string, lastUpdated: string) {
+    const endpoint = endpointOf(key);
+    if (lastUpdated > (this.latestLastUpdated.get(endpoint) || "")) {
+      this.latestLastUpdated.set(endpoint, lastUpdated);
+    }
+  }
+
+  private expiresAt(lastUpdated: string): number {
+    const minimum = this.now() + this.minTtlMs;
+    const updatedAt = Date.parse(lastUpdated);
+    if (Number.isNaN(updatedAt)) {
+      return minimum;
+    }
+    return Math.max(minimum, updatedAt + this.refreshIntervalMs);
+  }
+
+  private load() {
+    if (!this.filePath || !fs.existsSync(this.filePath)) return;
+
+    try {
+      const stored = JSON.parse(fs.readFileSync(this.filePath, "utf8")) as CacheEntry[];
+      for (const entry of stored) {
+        this.noteLastUpdated(entry.key, entry.lastUpdated);
+        this.entries.set(entry.key, entry);
+      }
+      for (const entry of [...this.entries.values()]) {
+        if (this.isStale(entry)) this.entries.delete(entry.key);
+      }
+    } catch (error) {
+      console.error(`[cache] Ignoring unreadable cache file ${this.filePath}:`, error);
+    }
+  }
+
+  private scheduleSave() {
+    if (!this.filePath || this.saveTimer) return;
+
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.save();
+    }, 1000);
+    this.saveTimer.unref?.();
+  }
+
+  /**
+   * 立即写出尚未保存的变更
+   */
+  flush() {
+    if (!this.saveTimer) return;
+    clearTimeout(this.saveTimer);
+    this.saveTimer = null;
+    this.save();
+  }
+
+  /**
+   * 写入临时文件后重命名，避免进程中断留下半个 JSON
+   */
+  save() {
+    if (!this.filePath) return;
+
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      const tmpPath = `${this.filePath}.tmp`;
+      fs.writeFileSync(tmpPath, JSON.stringify([...this.entries.values()]));
+      fs.renameSync(tmpPath, this.filePath);
+    } catch (error) {
+      console.error(`[cache] Failed to write cache file ${this.filePath}:`, error);
+    }
+  }
+}
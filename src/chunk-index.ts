@@ -0,0 +1,336 @@
+/**
+ * ae_pipeline_rag 的持久化标签分块索引
+ * 按 set_id 保存每个标签的分块结果（JSON 文件），标签 version/effective_time 变化时才重新分块；
+ * 已建索引的标签可在不访问网络的情况下检索
+ */
+
+import { createHash } from "crypto";
+import fs from "fs";
+import path from "path";
+import { OpenFDAError } from "./errors.js";
+import { chunkLabel } from "./label-parser.js";
+import { dailyMedUrl, labelDrugName } from "./label-sections.js";
+import { OpenFDAClient, RequestOptions } from "./openfda-client.js";
+import { buildSearch, drugNameQuery } from "./query-builder.js";
+import { TextChunk } from "./rag-utils.js";
+import { BuildChunkIndexParams } from "./schemas.js";
+import { DrugLabel } from "./types.js";
+
+// 分块方式变化时递增，旧索引文件会被忽略并重新建立
+const INDEX_FORMAT_VERSION = 4;
+
+export interface IndexedLabel {
+  set_id: string;
+  id?: string;
+  version?: string;
+  effective_time?: string;
+  drug_name: string;
+  /** 品牌名、通用名、活性成分（小写），用于按药品名称筛选 */
+  names: string[];
+  manufacturer?: string;
+  indexed_at: string;
+  chunks: TextChunk[];
+}
+
+interface ChunkIndexFile {
+  format_version: number;
+  updated_at: string;
+  labels: IndexedLabel[];
+}
+
+export interface UpsertSummary {
+  added: string[];
+  updated: string[];
+  unchanged: string[];
+}
+
+export interface PruneOptions {
+  set_ids?: string[];
+  /** 删除名称匹配的药品 */
+  drug?: string;
+  /** 删除超过该天数未重新索引的标签 */
+  older_than_days?: number;
+  dry_run?: boolean;
+}
+
+export interface ChunkIndexStats {
+  file: string;
+  labels: number;
+  chunks: number;
+  updated_at: string | null;
+  file_size_bytes: number;
+  oldest_indexed_at: string | null;
+  newest_indexed_at: string | null;
+}
+
+/**
+ * 标签的稳定标识：SPL 文档 id，缺失时依次使用 spl_id、set_id，
+ * 都没有时取标签内容的哈希，同一标签重复分块得到相同的文本块 id
+ */
+function labelSourceId(label: DrugLabel): string {
+  return label.id
+    || label.openfda?.spl_id?.[0]
+    || label.set_id
+    || `label_${createHash("sha256").update(JSON.stringify(label)).digest("hex").slice(0, 16)}`;
+}
+
+/**
+ * 标签的分块结果；ae_pipeline_rag 在线检索与索引共用
+ * 每个文本块的元数据带有标签版本信息与 DailyMed 链接，供 extractCitations 生成引用
+ */
+export function chunkDrugLabel(label: DrugLabel): TextChunk[] {
+  const setId = label.set_id || label.openfda?.spl_set_id?.[0];
+
+  // 按章节与编号小节分块，表格单独成块
+  return chunkLabel(
+    label,
+    labelSourceId(label),
+    {
+      drugName: labelDrugName(label),
+      set_id: setId,
+      label_id: label.id,
+      version: label.version,
+      effective_time: label.effective_time,
+      brand_name: label.openfda?.brand_name?.[0],
+      generic_name: label.openfda?.generic_name?.[0],
+      manufacturer: label.openfda?.manufacturer_name?.[0],
+      url: setId ? dailyMedUrl(setId) : undefined,
+      type: 'fda_label',
+      hasWarnings: !!(label.warnings || label.warnings_and_cautions || label.boxed_warning),
+      hasAdverseReactions: !!label.adverse_reactions
+    }
+  );
+}
+
+function labelNames(label: DrugLabel): string[] {
+  const names = [
+    ...(label.openfda?.brand_name || []),
+    ...(label.openfda?.generic_name || []),
+    ...(label.openfda?.substance_name || []),
+  ].map(name => name.toLowerCase());
+  return [...new Set(names)];
+}
+
+function matchesDrug(label: IndexedLabel, drug: string | string[]): boolean {
+  const queries = (Array.isArray(drug) ? drug : [drug]).map(name => name.trim().toLowerCase());
+  return label.names.some(name => queries.some(query => name.includes(query)));
+}
+
+export class ChunkIndex {
+  private labels = new Map<string, IndexedLabel>();
+  private filePath: string;
+  private updatedAt: string | null = null;
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    this.load();
+  }
+
+  /**
+   * 写入标签分块：新标签与 version/effective_time 变化的标签重新分块，其余保持不变
+   * 没有 set_id 的标签无法跟踪版本，不写入索引；索引文件延迟写出，连续写入只保存一次
+   */
+  upsertLabels(labels: DrugLabel[]): UpsertSummary {
+    const summary: UpsertSummary = { added: [], updated: [], unchanged: [] };
+    const now = new Date().toISOString();
+
+    for (const label of labels) {
+      if (!label.set_id) continue;
+
+      const existing = this.labels.get(label.set_id);
+      if (existing && existing.version === label.version && existing.effective_time === label.effective_time) {
+        summary.unchanged.push(label.set_id);
+        continue;
+      }
+
+      this.labels.set(label.set_id, {
+        set_id: label.set_id,
+        id: label.id,
+        version: label.version,
+        effective_time: label.effective_time,
+        drug_name: labelDrugName(label),
+        names: labelNames(label),
+        manufacturer: label.openfda?.manufacturer_name?.[0],
+        indexed_at: now,
+        chunks: chunkDrugLabel(label),
+      });
+      (existing ? summary.updated : summary.added).push(label.set_id);
+    }
+
+    if (summary.added.length > 0 || summary.updated.length > 0) {
+      this.updatedAt = now;
+      this.scheduleSave();
+    }
+    return summary;
+  }
+
+  /**
+   * 已索引标签的分块；未变化的标签直接复用，不重新分块
+   */
+  chunksFor(label: DrugLabel): TextChunk[] | undefined {
+    const indexed = label.set_id ? this.labels.get(label.set_id) : undefined;
+    if (!indexed || indexed.version !== label.version || indexed.effective_time !== label.effective_time) {
+      return undefined;
+    }
+    return indexed.chunks;
+  }
+
+  /**
+   * 按药品名称（任一名称匹配即可）筛选已索引标签，按 effective_time 从新到旧排列
+   */
+  find(options: { drug?: string | string[]; limit?: number } = {}): IndexedLabel[] {
+    const matches = [...this.labels.values()]
+      .filter(label => !options.drug || matchesDrug(label, options.drug))
+      .sort((a, b) => (b.effective_time || "").localeCompare(a.effective_time || ""));
+    return options.limit === undefined ? matches : matches.slice(0, options.limit);
+  }
+
+  prune(options: PruneOptions): string[] {
+    const setIds = new Set(options.set_ids || []);
+    const cutoff = options.older_than_days !== undefined
+      ? Date.now() - options.older_than_days * 24 * 60 * 60 * 1000
+      : undefined;
+
+    const removed = [...this.labels.values()]
+      .filter(label =>
+        setIds.has(label.set_id)
+        || (options.drug !== undefined && matchesDrug(label, options.drug))
+        || (cutoff !== undefined && Date.parse(label.indexed_at) < cutoff)
+      )
+      .map(label => label.set_id);
+
+    if (!options.dry_run && removed.length > 0) {
+      removed.forEach(setId => this.labels.delete(setId));
+      this.updatedAt = new Date().toISOString();
+      this.save();
+    }
+    return removed;
+  }
+
+  stats(): ChunkIndexStats {
+    const indexedAt = [...this.labels.values()].map(label => label.indexed_at).sort();
+    return {
+      file: this.filePath,
+      labels: this.labels.size,
+      chunks: [...this.labels.values()].reduce((sum, label) => sum + label.chunks.length, 0),
+      updated_at: this.updatedAt,
+      file_size_bytes: fs.existsSync(this.filePath) ? fs.statSync(this.filePath).size : 0,
+      oldest_indexed_at: indexedAt[0] ?? null,
+      newest_indexed_at: indexedAt[indexedAt.length - 1] ?? null,
+    };
+  }
+
+  private load() {
+    if (!fs.existsSync(this.filePath)) return;
+
+    try {
+      const stored = JSON.parse(fs.readFileSync(this.filePath, "utf8")) as ChunkIndexFile;
+      if (stored.format_version !== INDEX_FORMAT_VERSION) {
+        console.error(`[chunk-index] Ignoring index file ${this.filePath} with format version ${stored.format_version}`);
+        return;
+      }
+      this.updatedAt = stored.updated_at;
+      for (const label of stored.labels) {
+        this.labels.set(label.set_id, label);
+      }
+    } catch (error) {
+      console.error(`[chunk-index] Ignoring unreadable index file ${this.filePath}:`, error);
+    }
+  }
+
+  private scheduleSave() {
+    if (this.saveTimer) return;
+
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.save();
+    }, 1000);
+    this.saveTimer.unref?.();
+  }
+
+  /**
+   * 立即写出尚未保存的变更
+   */
+  flush() {
+    if (!this.saveTimer) return;
+    clearTimeout(this.saveTimer);
+    this.saveTimer = null;
+    this.save();
+  }
+
+  /**
+   * 写入临时文件后重命名，避免进程中断留下半个 JSON
+   */
+  private save() {
+    // 未保存的延迟写入一并完成
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    const stored: ChunkIndexFile = {
+      format_version: INDEX_FORMAT_VERSION,
+      updated_at: this.updatedAt!,
+      labels: [...this.labels.values()],
+    };
+
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      const tmpPath = `${this.filePath}.tmp`;
+      fs.writeFileSync(tmpPath, JSON.stringify(stored));
+      fs.renameSync(tmpPath, this.filePath);
+    } catch (error) {
+      console.error(`[chunk-index] Failed to write index file ${this.filePath}:`, error);
+    }
+  }
+}
+
+/**
+ * 按配置创建索引；未配置索引文件时返回 null
+ */
+export function createChunkIndex(filePath: string | undefined): ChunkIndex | null {
+  return filePath ? new ChunkIndex(filePath) : null;
+}
+
+/**
+ * 按药品名称或 OpenFDA 查询取回标签并写入索引
+ */
+export async function buildChunkIndex(
+  client: OpenFDAClient,
+  index: ChunkIndex,
+  params: BuildChunkIndexParams,
+  options: RequestOptions = {}
+) {
+  const queries = [
+    ...(params.drug_names || []).map(name => ({ query: name, search: buildSearch(drugNameQuery(name)) })),
+    ...(params.search ? [{ query: params.search, search: params.search }] : []),
+  ];
+
+  const fetched = [];
+  const summary: UpsertSummary = { added: [], updated: [], unchanged: [] };
+  for (const { query, search } of queries) {
+    let labels: DrugLabel[] = [];
+    try {
+      const data = await client.searchLabels({ search, limit: params.limit, skip: 0 }, options);
+      labels = data.results || [];
+    } catch (error) {
+      // 某个查询没有匹配标签时继续处理其余查询
+      if (!(error instanceof OpenFDAError && error.status === 404)) throw error;
+    }
+
+    const result = index.upsertLabels(labels);
+    summary.added.push(...result.added);
+    summary.updated.push(...result.updated);
+    summary.unchanged.push(...result.unchanged);
+    fetched.push({ query, labels_fetched: labels.length });
+  }
+  index.flush();
+
+  return {
+    queries: fetched,
+    added: summary.added.length,
+    updated: summary.updated.length,
+    unchanged: summary.unchanged.length,
+    index: index.stats(),
+  };
+}
@@ -0,0 +1,106 @@
+/**
+ * 运行配置：从环境变量（及 .env 文件）读取
+ */
+
+import dotenv from "dotenv";
+import {
+  OpenFDAClientOptions,
+  DEFAULT_REQUESTS_PER_MINUTE,
+  DEFAULT_RETRY_OPTIONS,
+  DEFAULT_TIMEOUT_MS,
+} from "./openfda-client.js";
+import { DEFAULT_CACHE_OPTIONS } from "./cache.js";
+import {
+  DEFAULT_EMBEDDING_BATCH_SIZE,
+  DEFAULT_EMBEDDING_CACHE_ENTRIES,
+  DEFAULT_EMBEDDING_TIMEOUT_MS,
+  DEFAULT_LOCAL_EMBEDDING_MODEL,
+  EmbeddingConfig,
+} from "./embeddings.js";
+import { DEFAULT_LANGUAGE, Language, isLanguage } from "./messages.js";
+
+dotenv.config();
+
+export interface AppConfig {
+  openfda: OpenFDAClientOptions;
+  /** 语义检索的向量化配置；未设置 EMBEDDING_PROVIDER 时为 undefined */
+  embeddings?: EmbeddingConfig;
+  /** ae_pipeline_rag 标签分块索引文件；未设置时不建立索引 */
+  chunkIndexFile?: string;
+  /** 补充内置医学同义词表的 JSON 文件 */
+  synonymsFile?: string;
+  /** 生成文本（RAG 摘要、提示与错误信息）的默认语言，可被工具参数 language 覆盖 */
+  language: Language;
+}
+
+function readNumber(value: string | undefined, fallback: number): number {
+  if (value === undefined || value.trim() === "") return fallback;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+function readLanguage(value: string | undefined): Language {
+  const language = value?.trim().toLowerCase();
+  if (!language) return DEFAULT_LANGUAGE;
+  if (!isLanguage(language)) {
+    console.error(`[config] Ignoring unknown OUTPUT_LANGUAGE: ${language}`);
+    return DEFAULT_LANGUAGE;
+  }
+  return language;
+}
+
+function readEmbeddingConfig(env: NodeJS.ProcessEnv): EmbeddingConfig | undefined {
+  const provider = env.EMBEDDING_PROVIDER?.trim().toLowerCase();
+  if (provider !== "local" && provider !== "openai") {
+    if (provider) console.error(`[config] Ignoring unknown EMBEDDING_PROVIDER: ${provider}`);
+    return undefined;
+  }
+
+  const cacheMaxEntries = readNumber(env.EMBEDDING_CACHE_MAX_ENTRIES, DEFAULT_EMBEDDING_CACHE_ENTRIES);
+  return {
+    provider,
+    model: env.EMBEDDING_MODEL || (provider === "local" ? DEFAULT_LOCAL_EMBEDDING_MODEL : "text-embedding-3-small"),
+    baseUrl: env.EMBEDDING_BASE_URL || undefined,
+    apiKey: env.EMBEDDING_API_KEY || undefined,
+    timeoutMs: readNumber(env.EMBEDDING_TIMEOUT_MS, DEFAULT_EMBEDDING_TIMEOUT_MS),
+    batchSize: readNumber(env.EMBEDDING_BATCH_SIZE, DEFAULT_EMBEDDING_BATCH_SIZE),
+    // 0 表示关闭缓存
+    cache: cacheMaxEntries > 0
+      ? { maxEntries: cacheMaxEntries, filePath: env.EMBEDDING_CACHE_FILE || undefined }
+      : false,
+  };
+}
+
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): AppConfig {
+  const requestsPerMinute = readNumber(env.OPENFDA_RATE_LIMIT_PER_MINUTE, DEFAULT_REQUESTS_PER_MINUTE);
+  const cacheMaxEntries = readNumber(env.OPENFDA_CACHE_MAX_ENTRIES, DEFAULT_CACHE_OPTIONS.maxEntries);
+
+  return {
+    openfda: {
+      baseUrl: env.OPENFDA_BASE_URL,
+      apiKey: env.OPENFDA_API_KEY,
+      // 0 或负数表示关闭客户端限流
+      rateLimit: requestsPerMinute > 0 ? { requestsPerMinute } : false,
+      timeoutMs: readNumber(env.OPENFDA_TIMEOUT_MS, DEFAULT_TIMEOUT_MS),
+      retry: {
+        maxAttempts: readNumber(env.OPENFDA_MAX_ATTEMPTS, DEFAULT_RETRY_OPTIONS.maxAttempts),
+        baseDelayMs: readNumber(env.OPENFDA_RETRY_BASE_DELAY_MS, DEFAULT_RETRY_OPTIONS.baseDelayMs),
+        maxDelayMs: readNumber(env.OPENFDA_RETRY_MAX_DELAY_MS, DEFAULT_RETRY_OPTIONS.maxDelayMs),
+      },
+      // 0 表示关闭缓存
+      cache: cacheMaxEntries > 0
+        ? {
+            maxEntries: cacheMaxEntries,
+            filePath: env.OPENFDA_CACHE_FILE || undefined,
+            refreshIntervalMs: readNumber(env.OPENFDA_CACHE_REFRESH_HOURS, DEFAULT_CACHE_OPTIONS.refreshIntervalMs / 3_600_000) * 3_600_000,
+            minTtlMs: readNumber(env.OPENFDA_CACHE_MIN_TTL_MINUTES, DEFAULT_CACHE_OPTIONS.minTtlMs / 60_000) * 60_000,
+          }
+        : false,
+      offlineDataDir: env.OPENFDA_OFFLINE_DIR || undefined,
+    },
+    embeddings: readEmbeddingConfig(env),
+    chunkIndexFile: env.CHUNK_INDEX_FILE || undefined,
+    synonymsFile: env.SYNONYMS_FILE || undefined,
+    language: readLanguage(env.OUTPUT_LANGUAGE),
+  };
+}
@@ -0,0 +1,157 @@
+/**
+ * Drugs@FDA 审批记录（/drug/drugsfda.json）查询构建与结果整理
+ * MCP 工具与 HTTP 路由共用
+ */
+
+import { OpenFDAError } from "./errors.js";
+import { OpenFDAClient, RequestOptions } from "./openfda-client.js";
+import { and, buildSearch, or, phrase } from "./query-builder.js";
+import { DrugApprovalParams } from "./schemas.js";
+import { DrugLabel, DrugsFdaApplication } from "./types.js";
+
+const APPLICATION_TYPES = ["NDA", "ANDA", "BLA"];
+
+// 单次交叉引用查询的申请号上限，避免 search 参数过长
+const MAX_CROSS_REFERENCE_APPLICATIONS = 50;
+
+/**
+ * 申请号统一为 OpenFDA 的写法（类型前缀 + 6 位数字）；未给出前缀时返回三种可能
+ */
+export function applicationNumberCandidates(value: string): string[] {
+  const match = value.trim().match(/^(?:(NDA|ANDA|BLA)\s*-?\s*)?(\d{1,6})$/i);
+  if (!match) return [];
+
+  const digits = match[2].padStart(6, "0");
+  const types = match[1] ? [match[1].toUpperCase()] : APPLICATION_TYPES;
+  return types.map(type => `${type}${digits}`);
+}
+
+export function buildApprovalSearch(
+  params: Pick<DrugApprovalParams, "drug_name" | "application_number">,
+  drugNames: string[] = params.drug_name ? [params.drug_name] : []
+): string {
+  const applicationNumbers = params.application_number
+    ? applicationNumberCandidates(params.application_number)
+    : [];
+
+  const query = and(
+    or(...applicationNumbers.map(number => phrase("application_number", number))),
+    // drugNames 为查询扩展后的名称，任一匹配即可
+    or(...drugNames.flatMap(name => [
+      phrase("openfda.brand_name", name),
+      phrase("openfda.generic_name", name),
+      phrase("openfda.substance_name", name),
+      // 较早的申请没有 openfda 字段，只能按产品信息匹配
+      phrase("products.brand_name", name),
+      phrase("products.active_ingredients.name", name)
+    ]))
+  );
+
+  return buildSearch(query!);
+}
+
+function submissionDate(submission: NonNullable<DrugsFdaApplication["submissions"]>[number]): string {
+  return submission.submission_status_date || "";
+}
+
+/**
+ * 原始申请（ORIG）获批日期
+ */
+function originalApprovalDate(application: DrugsFdaApplication): string | undefined {
+  return application.submissions
+    ?.filter(submission => submission.submission_type === "ORIG" && submission.submission_status === "AP")
+    .map(submissionDate)
+    .sort()[0] || undefined;
+}
+
+/**
+ * 整理单个申请：申请人、原始批准日期、按时间排序的提交记录与申请下的产品
+ */
+export function summarizeApplication(application: DrugsFdaApplication) {
+  const submissions = [...(application.submissions || [])]
+    .sort((a, b) => submissionDate(a).localeCompare(submissionDate(b)));
+
+  return {
+    application_number: application.application_number,
+    sponsor: application.sponsor_name,
+    original_approval_date: originalApprovalDate(application),
+    brand_names: application.openfda?.brand_name || [],
+    generic_names: application.openfda?.generic_name || [],
+    products: (application.products || []).map(product => ({
+      product_number: product.product_number,
+      brand_name: product.brand_name,
+      active_ingredients: (product.active_ingredients || []).map(ingredient => ({
+        ingredient: ingredient.name,
+        strength: ingredient.strength,
+      })),
+      dosage_form: product.dosage_form,
+      route: product.route,
+      marketing_status: product.marketing_status,
+      reference_listed_drug: product.reference_drug === "Yes",
+      reference_standard: product.reference_standard === "Yes",
+      te_code: product.te_code,
+    })),
+    submissions: submissions.map(submission => ({
+      type: submission.submission_type,
+      number: submission.submission_number,
+      status: submission.submission_status,
+      date: submission.submission_status_date,
+      class: submission.submission_class_code_description || submission.submission_class_code,
+      review_priority: submission.review_priority,
+      documents: (submission.application_docs || []).map(doc => ({
+        type: doc.type,
+        date: doc.date,
+        url: doc.url,
+      })),
+    })),
+  };
+}
+
+/**
+ * 为标签检索结果查询对应的审批信息，按申请号索引
+ * 离线模式或 Drugs@FDA 中没有这些申请（404）时返回空对象；配额耗尽、取消等其他错误照常抛出
+ */
+export async function crossReferenceApprovals(
+  client: OpenFDAClient,
+  labels: DrugLabel[],
+  options: RequestOptions = {}
+): Promise<Record<string, ReturnType<typeof summarizeApprovalBrief>>> {
+  const numbers = [...new Set(labels.flatMap(label => label.openfda?.application_number || []))]
+    .slice(0, MAX_CROSS_REFERENCE_APPLICATIONS);
+  if (numbers.length === 0 || client.offlineInfo()) {
+    return {};
+  }
+
+  try {
+    const data = await client.searchApplications({
+      search: buildSearch(or(...numbers.map(number => phrase("application_number", number)))!),
+      limit: numbers.length,
+      skip: 0,
+    }, options);
+
+    return Object.fromEntries(
+      (data.results || [])
+        .filter(application => application.application_number)
+        .map(application => [application.application_number!, summarizeApprovalBrief(application)])
+    );
+  } catch (error) {
+    if (error instanceof OpenFDAError && error.status === 404) return {};
+    throw error;
+  }
+}
+
+function summarizeApprovalBrief(application: DrugsFdaApplication) {
+  return {
+    sponsor: application.sponsor_name,
+    original_approval_date: originalApprovalDate(application),
+    reference_listed_drug: (application.products || []).some(product => product.reference_drug === "Yes"),
+    latest_submission: [...(application.submissions || [])]
+      .sort((a, b) => submissionDate(b).localeCompare(submissionDate(a)))
+      .map(submission => ({
+        type: submission.submission_type,
+        number: submission.submission_number,
+        status: submission.submission_status,
+        date: submission.submission_status_date,
+      }))[0],
+  };
+}
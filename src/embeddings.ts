@@ -0,0 +1,349 @@
+/**
+ * 文本向量化，供 ae_pipeline_rag 的语义检索使用
+ * 支持本地 CPU 模型（@huggingface/transformers）与 OpenAI 兼容的 /embeddings 接口，
+ * 向量按 模型 + 文本哈希 缓存
+ */
+
+import type { FeatureExtractionPipeline } from "@huggingface/transformers";
+import { createHash } from "crypto";
+import fs from "fs";
+import path from "path";
+import { FetchLike, RequestOptions } from "./openfda-client.js";
+
+export type EmbeddingProviderName = "local" | "openai";
+
+export const DEFAULT_LOCAL_EMBEDDING_MODEL = "Xenova/all-MiniLM-L6-v2";
+export const DEFAULT_EMBEDDING_TIMEOUT_MS = 30_000;
+export const DEFAULT_EMBEDDING_BATCH_SIZE = 32;
+export const DEFAULT_EMBEDDING_CACHE_ENTRIES = 5000;
+
+export interface EmbeddingProvider {
+  /** 模型名，参与缓存键，换模型后旧向量不会被复用 */
+  readonly model: string;
+  embed(texts: string[], options?: RequestOptions): Promise<number[][]>;
+}
+
+export interface EmbeddingCacheOptions {
+  maxEntries: number;
+  /** 持久化文件路径，不设置则仅缓存在内存 */
+  filePath?: string;
+}
+
+export interface EmbeddingConfig {
+  provider: EmbeddingProviderName;
+  model: string;
+  /** OpenAI 兼容接口根地址，如 http://localhost:8080/v1 */
+  baseUrl?: string;
+  apiKey?: string;
+  timeoutMs: number;
+  batchSize: number;
+  cache: EmbeddingCacheOptions | false;
+}
+
+export interface EmbeddingCacheStats {
+  hits: number;
+  misses: number;
+  size: number;
+  max_entries: number;
+  persistent: boolean;
+}
+
+export class EmbeddingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EmbeddingError";
+  }
+}
+
+/**
+ * 本地 CPU 模型；首次调用时加载 @huggingface/transformers 与模型权重
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly model: string;
+  private extractor: Promise<FeatureExtractionPipeline> | null = null;
+
+  constructor(model: string = DEFAULT_LOCAL_EMBEDDING_MODEL) {
+    this.model = model;
+  }
+
+  async embed(texts: string[], options: RequestOptions = {}): Promise<number[][]> {
+    options.signal?.throwIfAborted();
+    const extractor = await this.loadExtractor();
+    const output = await extractor(texts, { pooling: "mean", normalize: true });
+    return output.tolist() as number[][];
+  }
+
+  private loadExtractor() {
+    if (!this.extractor) {
+      // optionalDependencies 中的可选依赖，未安装时只影响语义检索
+      this.extractor = import("@huggingface/transformers")
+        .then(transformers => transformers.pipeline("feature-extraction", this.model, { dtype: "q8" }))
+        .catch(error => {
+          this.extractor = null;
+          if (isMissingTransformers(error)) {
+            throw new EmbeddingError(
+              "EMBEDDING_PROVIDER=local requires the optional dependency @huggingface/transformers, which is not installed; "
+              + "run `npm install @huggingface/transformers` or set EMBEDDING_PROVIDER=openai"
+            );
+          }
+          throw new EmbeddingError(
+            `Failed to load local embedding model ${this.model}: ${error instanceof Error ? error.message : error}`
+          );
+        });
+    }
+    return this.extractor;
+  }
+}
+
+function isMissingTransformers(error: unknown): boolean {
+  const { code, message } = error as { code?: string; message?: string };
+  return code === "ERR_MODULE_NOT_FOUND" && !!message?.includes("@huggingface/transformers");
+}
+
+export interface OpenAIEmbeddingProviderOptions {
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  timeoutMs?: number;
+  fetch?: FetchLike;
+}
+
+/**
+ * OpenAI 兼容的 POST {baseUrl}/embeddings 接口（OpenAI、vLLM、Ollama、llama.cpp server 等）
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly model: string;
+  private baseUrl: string;
+  private apiKey?: string;
+  private timeoutMs: number;
+  private fetchImpl: FetchLike;
+
+  constructor(options: OpenAIEmbeddingProviderOptions) {
+    this.model = options.model;
+    this.baseUrl = options.baseUrl.replace(/\/+$/, "");
+    this.apiKey = options.apiKey;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_EMBEDDING_TIMEOUT_MS;
+    this.fetchImpl = options.fetch || ((input, init) => fetch(input, init));
+  }
+
+  async embed(texts: string[], options: RequestOptions = {}): Promise<number[][]> {
+    const signal = options.signal;
+    signal?.throwIfAborted();
+
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal?.reason);
+    signal?.addEventListener("abort", onAbort, { once: true });
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      const response = await this.fetchImpl(`${this.baseUrl}/embeddings`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+        },
+        body: JSON.stringify({ model: this.model, input: texts }),
+        signal: controller.signal,
+      });
+      if (!response.ok) {
+        throw new EmbeddingError(`Embedding endpoint error (${response.status}): ${await response.text()}`);
+      }
+
+      const body = await response.json() as { data?: Array<{ embedding: number[]; index?: number }> };
+      const data = body.data || [];
+      if (data.length !== texts.length) {
+        throw new EmbeddingError(`Embedding endpoint returned ${data.length} vectors for ${texts.length} inputs`);
+      }
+      return [...data]
+        .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+        .map(item => item.embedding);
+    } catch (error) {
+      if (controller.signal.aborted && !signal?.aborted) {
+        throw new EmbeddingError(`Embedding request timed out after ${this.timeoutMs}ms`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    }
+  }
+}
+
+/**
+ * 向量缓存：内存 LRU + 可选 JSON 文件持久化
+ */
+export class EmbeddingCache {
+  private entries = new Map<string, number[]>();
+  private maxEntries: number;
+  private filePath?: string;
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+  private counters = { hits: 0, misses: 0 };
+
+  constructor(options: EmbeddingCacheOptions) {
+    this.maxEntries = Math.max(1, options.maxEntries);
+    this.filePath = options.filePath;
+    this.load();
+  }
+
+  /**
+   * 缓存键：模型名 + 文本的 SHA-256
+   */
+  static key(model: string, text: string): string {
+    return `${model}:${createHash("sha256").update(text).digest("hex")}`;
+  }
+
+  get(key: string): number[] | undefined {
+    const vector = this.entries.get(key);
+    if (!vector) {
+      this.counters.misses++;
+      return undefined;
+    }
+    this.entries.delete(key);
+    this.entries.set(key, vector);
+    this.counters.hits++;
+    return vector;
+  }
+
+  set(key: string, vector: number[]) {
+    this.entries.delete(key);
+    this.entries.set(key, vector);
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+    this.scheduleSave();
+  }
+
+  stats(): EmbeddingCacheStats {
+    return {
+      ...this.counters,
+      size: this.entries.size,
+      max_entries: this.maxEntries,
+      persistent: !!this.filePath,
+    };
+  }
+
+  private load() {
+    if (!this.filePath || !fs.existsSync(this.filePath)) return;
+
+    try {
+      const stored = JSON.parse(fs.readFileSync(this.filePath, "utf8")) as Array<[string, number[]]>;
+      for (const [key, vector] of stored.slice(-this.maxEntries)) {
+        this.entries.set(key, vector);
+      }
+    } catch (error) {
+      console.error(`[embeddings] Ignoring unreadable cache file ${this.filePath}:`, error);
+    }
+  }
+
+  private scheduleSave() {
+    if (!this.filePath || this.saveTimer) return;
+
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.save();
+    }, 1000);
+    this.saveTimer.unref?.();
+  }
+
+  flush() {
+    if (!this.saveTimer) return;
+    clearTimeout(this.saveTimer);
+    this.saveTimer = null;
+    this.save();
+  }
+
+  save() {
+    if (!this.filePath) return;
+
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      const tmpPath = `${this.filePath}.tmp`;
+      fs.writeFileSync(tmpPath, JSON.stringify([...this.entries.entries()]));
+      fs.renameSync(tmpPath, this.filePath);
+    } catch (error) {
+      console.error(`[embeddings] Failed to write cache file ${this.filePath}:`, error);
+    }
+  }
+}
+
+/**
+ * 带缓存与分批的向量化入口：只对缓存未命中的文本调用模型
+ */
+export class Embedder {
+  private provider: EmbeddingProvider;
+  private cache: EmbeddingCache | null;
+  private batchSize: number;
+
+  constructor(provider: EmbeddingProvider, options: { cache?: EmbeddingCache | null; batchSize?: number } = {}) {
+    this.provider = provider;
+    this.cache = options.cache ?? null;
+    this.batchSize = Math.max(1, options.batchSize ?? DEFAULT_EMBEDDING_BATCH_SIZE);
+  }
+
+  get model(): string {
+    return this.provider.model;
+  }
+
+  async embed(texts: string[], options: RequestOptions = {}): Promise<number[][]> {
+    const keys = texts.map(text => EmbeddingCache.key(this.provider.model, text));
+    const vectors: Array<number[] | undefined> = keys.map(key => this.cache?.get(key));
+
+    // 同一批次中的重复文本只向量化一次
+    const missing = [...new Set(texts.filter((_, index) => !vectors[index]))];
+    const computed = new Map<string, number[]>();
+    for (let start = 0; start < missing.length; start += this.batchSize) {
+      const batch = missing.slice(start, start + this.batchSize);
+      const embeddings = await this.provider.embed(batch, options);
+      batch.forEach((text, index) => {
+        computed.set(text, embeddings[index]);
+        this.cache?.set(EmbeddingCache.key(this.provider.model, text), embeddings[index]);
+      });
+    }
+
+    return vectors.map((vector, index) => vector || computed.get(texts[index])!);
+  }
+
+  cacheStats(): EmbeddingCacheStats | null {
+    return this.cache ? this.cache.stats() : null;
+  }
+
+  /**
+   * 立即写出向量缓存中尚未保存的变更
+   */
+  flushCache() {
+    this.cache?.flush();
+  }
+}
+
+/**
+ * 按配置创建向量化入口；未配置时返回 null，语义检索不可用
+ */
+export function createEmbedder(config: EmbeddingConfig | undefined): Embedder | null {
+  if (!config) return null;
+
+  const provider = config.provider === "openai"
+    ? new OpenAIEmbeddingProvider({
+        baseUrl: config.baseUrl || "https://api.openai.com/v1",
+        model: config.model,
+        apiKey: config.apiKey,
+        timeoutMs: config.timeoutMs,
+      })
+    : new LocalEmbeddingProvider(config.model);
+
+  return new Embedder(provider, {
+    cache: config.cache ? new EmbeddingCache(config.cache) : null,
+    batchSize: config.batchSize,
+  });
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
@@ -0,0 +1,54 @@
+/**
+ * OpenFDA 调用相关的错误类型
+ */
+
+export class OpenFDAError extends Error {
+  readonly status: number;
+
+  constructor(status: number, body: string) {
+    super(`OpenFDA API error (${status}): ${body}`);
+    this.name = "OpenFDAError";
+    this.status = status;
+  }
+}
+
+/**
+ * 配额耗尽（HTTP 429 或客户端预判），调用方应在 retryAt 之后重试
+ */
+export class OpenFDAQuotaError extends OpenFDAError {
+  readonly retryAt: Date;
+  readonly limit?: number;
+  readonly remaining?: number;
+
+  constructor(retryAt: Date, details: { limit?: number; remaining?: number; body?: string } = {}) {
+    super(429, details.body || `quota exhausted, retry at ${retryAt.toISOString()}`);
+    this.name = "OpenFDAQuotaError";
+    this.retryAt = retryAt;
+    this.limit = details.limit;
+    this.remaining = details.remaining;
+  }
+
+  toJSON() {
+    return {
+      error: "quota_exhausted",
+      message: `OpenFDA quota exhausted, retry at ${this.retryAt.toISOString()}`,
+      retry_at: this.retryAt.toISOString(),
+      retry_after_seconds: Math.max(0, Math.ceil((this.retryAt.getTime() - Date.now()) / 1000)),
+      limit: this.limit,
+      remaining: this.remaining,
+    };
+  }
+}
+
+/**
+ * 单次请求超过 timeoutMs 未完成
+ */
+export class OpenFDATimeoutError extends Error {
+  readonly timeoutMs: number;
+
+  constructor(timeoutMs: number) {
+    super(`OpenFDA request timed out after ${timeoutMs}ms`);
+    this.name = "OpenFDATimeoutError";
+    this.timeoutMs = timeoutMs;
+  }
+}
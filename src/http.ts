@@ -5,42 +5,100 @@ import cors from 'cors';
 import { z } from 'zod';
 import { fileURLToPath } from 'url';
 import { dirname } from 'path';
+import { OpenFDAClient } from './openfda-client.js';
+import { AppConfig, loadConfig } from './config.js';
+import { OpenFDAError, OpenFDAQuotaError, OpenFDATimeoutError } from './errors.js';
+import { QueryBuilderError, buildSearch } from './query-builder.js';
+import { SearchSyntaxError } from './search-syntax.js';
+import { QueryExpander, createQueryExpander } from './query-expansion.js';
+import {
+  AdverseEventReactionCountParamsSchema,
+  AdverseReactionQueryParamsSchema,
+  AdverseEventSearchParamsSchema,
+  DrugLabelSearchParamsSchema,
+  DrugRecallParamsSchema,
+  NdcLookupParamsSchema,
+  DrugApprovalParamsSchema,
+  DrugShortageParamsSchema,
+  CompareDrugLabelsParamsSchema,
+  LABEL_COMPARISON_SECTIONS,
+  CheckInteractionsParamsSchema,
+} from './schemas.js';
+import { buildApprovalSearch, summarizeApplication } from './drugs-fda.js';
+import { buildNdcSearch, summarizeNdcProduct } from './ndc.js';
+import { buildRecallSearch, summarizeRecall } from './recalls.js';
+import { checkDrugShortage } from './shortages.js';
+import { searchDrugLabels } from './label-search.js';
+import { compareDrugLabels } from './label-comparison.js';
+import { checkInteractions } from './interactions.js';
+import {
+  summarizeAdverseReactionSections,
+  summarizeIndicationSections,
+  summarizeWarningSections,
+} from './label-parser.js';
+import { summarizeReactionFrequencies } from './reaction-frequencies.js';
+import {
+  buildAdverseEventSearch,
+  summarizeAdverseEvent,
+  summarizeReactionCounts,
+} from './adverse-events.js';
 
-// Reuse schemas from index.ts
-const DrugLabelSearchParamsSchema = z.object({
-  search: z.string().optional(),
-  count: z.string().optional(),
-  skip: z.coerce.number().int().min(0).optional().default(0),
-  limit: z.coerce.number().int().min(1).max(200).optional().default(50),
-});
-
-const DrugQueryParamsSchema = z.object({
-  drug_name: z.string(),
-  limit: z.coerce.number().int().min(1).max(5).optional().default(3),
-});
-
-type DrugLabelSearchParams = z.infer<typeof DrugLabelSearchParamsSchema>;
-
-interface OpenFDAResponse {
-  meta: {
-    disclaimer: string;
-    terms: string;
-    license: string;
-    last_updated: string;
-    results: {
-      skip: number;
-      limit: number;
-      total: number;
-    };
-  };
-  results: any[];
+// FAERS 路由共用的筛选参数（OpenAPI 描述）
+const ADVERSE_EVENT_QUERY_PARAMETERS = [
+  { name: "reaction", in: "query", description: "MedDRA 首选术语，如 nausea", schema: { type: "string" } },
+  { name: "serious", in: "query", description: "true 仅严重报告，false 仅非严重报告", schema: { type: "boolean" } },
+  {
+    name: "seriousness",
+    in: "query",
+    description: "严重性标准",
+    schema: { type: "string", enum: ["death", "life_threatening", "hospitalization", "disabling", "congenital_anomaly", "other"] }
+  },
+  {
+    name: "outcome",
+    in: "query",
+    description: "不良反应结局",
+    schema: { type: "string", enum: ["recovered", "recovering", "not_recovered", "recovered_with_sequelae", "fatal", "unknown"] }
+  },
+  { name: "sex", in: "query", description: "患者性别", schema: { type: "string", enum: ["male", "female", "unknown"] } },
+  { name: "min_age", in: "query", description: "患者最小年龄（岁）", schema: { type: "number", minimum: 0 } },
+  { name: "max_age", in: "query", description: "患者最大年龄（岁）", schema: { type: "number", minimum: 0 } },
+  { name: "received_from", in: "query", description: "FDA 接收日期起（YYYYMMDD 或 YYYY-MM-DD）", schema: { type: "string" } },
+  { name: "received_to", in: "query", description: "FDA 接收日期止（YYYYMMDD 或 YYYY-MM-DD）", schema: { type: "string" } }
+];
+
+/**
+ * 错误对应的 HTTP 状态码：参数错误 400，OpenFDA 无匹配 404、拒绝查询 400、服务端错误 502、超时 504，
+ * 离线模式下不可用的端点 501，其他 500
+ */
+function errorStatus(error: unknown): number {
+  if (error instanceof z.ZodError || error instanceof QueryBuilderError || error instanceof SearchSyntaxError) {
+    return 400;
+  }
+  if (error instanceof OpenFDATimeoutError) {
+    return 504;
+  }
+  if (error instanceof OpenFDAError) {
+    if (error.status === 404 || error.status === 501) return error.status;
+    return error.status >= 500 ? 502 : 400;
+  }
+  return 500;
 }
 
 class OpenFDAHTTPServer {
   private app: express.Application;
-  private baseUrl = "https://api.fda.gov/drug/label.json";
+  private client: OpenFDAClient;
+  private expander: QueryExpander;
+
+  /**
+   * 按运行配置创建服务器及其依赖；配置只读取一次
+   */
+  static fromConfig(config: AppConfig = loadConfig()): OpenFDAHTTPServer {
+    return new OpenFDAHTTPServer(new OpenFDAClient(config.openfda), createQueryExpander(config.synonymsFile));
+  }
 
-  constructor() {
+  constructor(client: OpenFDAClient, expander: QueryExpander) {
+    this.client = client;
+    this.expander = expander;
     this.app = express();
     this.setupMiddleware();
     this.setupRoutes();
@@ -51,30 +109,16 @@ class OpenFDAHTTPServer {
     this.app.use(express.json());
   }
 
-  private async makeRequest(params: DrugLabelSearchParams): Promise<OpenFDAResponse> {
-    const url = new URL(this.baseUrl);
-    
-    if (params.search) {
-      url.searchParams.set("search", params.search);
-    }
-    if (params.count) {
-      url.searchParams.set("count", params.count);
-    }
-    if (params.skip) {
-      url.searchParams.set("skip", params.skip.toString());
+  private sendError(res: Response, error: unknown) {
+    if (error instanceof OpenFDAQuotaError) {
+      const body = error.toJSON();
+      res.set('Retry-After', String(body.retry_after_seconds));
+      res.status(429).json(body);
+      return;
     }
-    if (params.limit) {
-      url.searchParams.set("limit", params.limit.toString());
-    }
-
-    const response = await fetch(url.toString());
-    
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`OpenFDA API error (${response.status}): ${errorText}`);
-    }
-
-    return await response.json();
+    res.status(errorStatus(error)).json({
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
   }
 
   private setupRoutes() {
@@ -121,6 +165,32 @@ class OpenFDAHTTPServer {
                   in: "query",
                   description: "返回记录数限制",
                   schema: { type: "integer", minimum: 1, maximum: 100, default: 10 }
+                },
+                {
+                  name: "sort",
+                  in: "query",
+                  description: "排序，原样传给 OpenFDA，格式为 field:asc 或 field:desc",
+                  schema: { type: "string" },
+                  example: "effective_time:desc"
+                },
+                {
+                  name: "fields",
+                  in: "query",
+                  description: "每份标签只保留的字段，逗号分隔，支持点号路径",
+                  schema: { type: "string" },
+                  example: "set_id,version,effective_time,openfda.brand_name,boxed_warning"
+                },
+                {
+                  name: "latest_only",
+                  in: "query",
+                  description: "同一 set_id 的多个版本只保留最新版本",
+                  schema: { type: "boolean", default: false }
+                },
+                {
+                  name: "include_approvals",
+                  in: "query",
+                  description: "附带 Drugs@FDA 审批摘要（额外一次 OpenFDA 请求，离线模式下为空）",
+                  schema: { type: "boolean", default: false }
                 }
               ],
               responses: {
@@ -133,21 +203,27 @@ class OpenFDAHTTPServer {
                         properties: {
                           meta: { type: "object" },
                           results_count: { type: "integer" },
-                          results: { type: "array" }
+                          superseded_versions: { type: "integer", description: "latest_only 时被合并掉的旧版本标签数" },
+                          results: { type: "array" },
+                          approvals: { type: "object", description: "include_approvals 时返回，按 openfda.application_number 索引的 Drugs@FDA 审批摘要" }
                         }
                       }
                     }
                   }
                 },
                 "400": { description: "请求参数错误" },
-                "500": { description: "服务器内部错误" }
+                "404": { description: "OpenFDA 中没有匹配的记录" },
+                "429": { description: "OpenFDA 配额耗尽，请在 retry_at 之后重试" },
+                "500": { description: "服务器内部错误" },
+                "502": { description: "OpenFDA 服务端错误" },
+                "504": { description: "OpenFDA 请求超时" }
               }
             }
           },
           "/drug/{name}/adverse-reactions": {
             get: {
               summary: "获取药物不良反应",
-              description: "查询指定药物的不良反应和禁忌症信息",
+              description: "查询指定药物的不良反应和禁忌症信息；mode=frequencies 时从标签表格和正文中提取各不良反应的发生率",
               parameters: [
                 {
                   name: "name",
@@ -162,12 +238,28 @@ class OpenFDAHTTPServer {
                   in: "query",
                   description: "返回记录数限制",
                   schema: { type: "integer", minimum: 1, maximum: 10, default: 3 }
+                },
+                {
+                  name: "mode",
+                  in: "query",
+                  description: "sections 返回解析后的章节，frequencies 返回规范化的不良反应名称、数值发生率及来源句子",
+                  schema: { type: "string", enum: ["sections", "frequencies"], default: "sections" }
+                },
+                {
+                  name: "min_percent",
+                  in: "query",
+                  description: "frequencies 模式下仅保留药物组发生率不低于该值的反应",
+                  schema: { type: "number", minimum: 0, maximum: 100 }
                 }
               ],
               responses: {
                 "200": { description: "成功返回不良反应数据" },
                 "400": { description: "请求参数错误" },
-                "500": { description: "服务器内部错误" }
+                "404": { description: "OpenFDA 中没有匹配的记录" },
+                "429": { description: "OpenFDA 配额耗尽，请在 retry_at 之后重试" },
+                "500": { description: "服务器内部错误" },
+                "502": { description: "OpenFDA 服务端错误" },
+                "504": { description: "OpenFDA 请求超时" }
               }
             }
           },
@@ -194,7 +286,11 @@ class OpenFDAHTTPServer {
               responses: {
                 "200": { description: "成功返回警告信息数据" },
                 "400": { description: "请求参数错误" },
-                "500": { description: "服务器内部错误" }
+                "404": { description: "OpenFDA 中没有匹配的记录" },
+                "429": { description: "OpenFDA 配额耗尽，请在 retry_at 之后重试" },
+                "500": { description: "服务器内部错误" },
+                "502": { description: "OpenFDA 服务端错误" },
+                "504": { description: "OpenFDA 请求超时" }
               }
             }
           },
@@ -221,7 +317,326 @@ class OpenFDAHTTPServer {
               responses: {
                 "200": { description: "成功返回适应症数据" },
                 "400": { description: "请求参数错误" },
-                "500": { description: "服务器内部错误" }
+                "404": { description: "OpenFDA 中没有匹配的记录" },
+                "429": { description: "OpenFDA 配额耗尽，请在 retry_at 之后重试" },
+                "500": { description: "服务器内部错误" },
+                "502": { description: "OpenFDA 服务端错误" },
+                "504": { description: "OpenFDA 请求超时" }
+              }
+            }
+          },
+          "/adverse-events": {
+            get: {
+              summary: "检索 FAERS 不良事件报告",
+              description: "按药物、不良反应、严重性、结局、患者年龄/性别和接收日期检索真实世界不良事件报告",
+              parameters: [
+                {
+                  name: "drug",
+                  in: "query",
+                  description: "药物名称（品牌名、通用名、活性成分或上报药名）",
+                  schema: { type: "string" },
+                  example: "atorvastatin"
+                },
+                ...ADVERSE_EVENT_QUERY_PARAMETERS,
+                {
+                  name: "skip",
+                  in: "query",
+                  description: "跳过的记录数（分页）",
+                  schema: { type: "integer", minimum: 0, default: 0 }
+                },
+                {
+                  name: "limit",
+                  in: "query",
+                  description: "返回记录数限制",
+                  schema: { type: "integer", minimum: 1, maximum: 100, default: 10 }
+                }
+              ],
+              responses: {
+                "200": { description: "成功返回不良事件报告" },
+                "400": { description: "请求参数错误" },
+                "404": { description: "OpenFDA 中没有匹配的记录" },
+                "429": { description: "OpenFDA 配额耗尽，请在 retry_at 之后重试" },
+                "500": { description: "服务器内部错误" },
+                "501": { description: "离线模式下该端点不可用" },
+                "502": { description: "OpenFDA 服务端错误" },
+                "504": { description: "OpenFDA 请求超时" }
+              }
+            }
+          },
+          "/drug/{name}/top-reactions": {
+            get: {
+              summary: "统计药物最常见的上报不良反应",
+              description: "统计 FAERS 报告中指定药物最常见的 MedDRA 不良反应术语",
+              parameters: [
+                {
+                  name: "name",
+                  in: "path",
+                  required: true,
+                  description: "药物名称",
+                  schema: { type: "string" },
+                  example: "atorvastatin"
+                },
+                ...ADVERSE_EVENT_QUERY_PARAMETERS,
+                {
+                  name: "limit",
+                  in: "query",
+                  description: "返回的不良反应数量",
+                  schema: { type: "integer", minimum: 1, maximum: 100, default: 20 }
+                }
+              ],
+              responses: {
+                "200": { description: "成功返回不良反应统计" },
+                "400": { description: "请求参数错误" },
+                "404": { description: "OpenFDA 中没有匹配的记录" },
+                "429": { description: "OpenFDA 配额耗尽，请在 retry_at 之后重试" },
+                "500": { description: "服务器内部错误" },
+                "501": { description: "离线模式下该端点不可用" },
+                "502": { description: "OpenFDA 服务端错误" },
+                "504": { description: "OpenFDA 请求超时" }
+              }
+            }
+          },
+          "/drug/{name}/recalls": {
+            get: {
+              summary: "获取药物召回信息",
+              description: "查询指定药物的 FDA 召回（执法）报告，包括召回原因、产品描述、分销范围和批号",
+              parameters: [
+                {
+                  name: "name",
+                  in: "path",
+                  required: true,
+                  description: "药物名称",
+                  schema: { type: "string" },
+                  example: "metformin"
+                },
+                {
+                  name: "classification",
+                  in: "query",
+                  description: "召回等级（Class I 最严重）",
+                  schema: { type: "string", enum: ["Class I", "Class II", "Class III"] }
+                },
+                {
+                  name: "status",
+                  in: "query",
+                  description: "召回状态",
+                  schema: { type: "string", enum: ["Ongoing", "Completed", "Terminated", "Pending"] }
+                },
+                {
+                  name: "recalling_firm",
+                  in: "query",
+                  description: "召回企业名称",
+                  schema: { type: "string" }
+                },
+                {
+                  name: "report_date_from",
+                  in: "query",
+                  description: "报告日期起（YYYYMMDD 或 YYYY-MM-DD）",
+                  schema: { type: "string" }
+                },
+                {
+                  name: "report_date_to",
+                  in: "query",
+                  description: "报告日期止（YYYYMMDD 或 YYYY-MM-DD）",
+                  schema: { type: "string" }
+                },
+                {
+                  name: "skip",
+                  in: "query",
+                  description: "跳过的记录数（分页）",
+                  schema: { type: "integer", minimum: 0, default: 0 }
+                },
+                {
+                  name: "limit",
+                  in: "query",
+                  description: "返回记录数限制",
+                  schema: { type: "integer", minimum: 1, maximum: 50, default: 10 }
+                }
+              ],
+              responses: {
+                "200": { description: "成功返回召回数据" },
+                "400": { description: "请求参数错误" },
+                "404": { description: "OpenFDA 中没有匹配的记录" },
+                "429": { description: "OpenFDA 配额耗尽，请在 retry_at 之后重试" },
+                "500": { description: "服务器内部错误" },
+                "501": { description: "离线模式下该端点不可用" },
+                "502": { description: "OpenFDA 服务端错误" },
+                "504": { description: "OpenFDA 请求超时" }
+              }
+            }
+          },
+          "/ndc/{code}": {
+            get: {
+              summary: "按 NDC 查询药品",
+              description: "按产品或包装 NDC（任意连字符格式，含 11 位 HIPAA 格式）查询 NDC 目录，返回名称、剂型、给药途径、规格、标签商、上市类别、包装及对应标签的 set_id",
+              parameters: [
+                {
+                  name: "code",
+                  in: "path",
+                  required: true,
+                  description: "产品或包装 NDC",
+                  schema: { type: "string" },
+                  example: "0002-3227-30"
+                },
+                {
+                  name: "limit",
+                  in: "query",
+                  description: "返回记录数限制",
+                  schema: { type: "integer", minimum: 1, maximum: 10, default: 5 }
+                }
+              ],
+              responses: {
+                "200": { description: "成功返回 NDC 数据" },
+                "400": { description: "请求参数错误或无法识别的 NDC" },
+                "404": { description: "OpenFDA 中没有匹配的记录" },
+                "429": { description: "OpenFDA 配额耗尽，请在 retry_at 之后重试" },
+                "500": { description: "服务器内部错误" },
+                "501": { description: "离线模式下该端点不可用" },
+                "502": { description: "OpenFDA 服务端错误" },
+                "504": { description: "OpenFDA 请求超时" }
+              }
+            }
+          },
+          "/drug-approvals": {
+            get: {
+              summary: "查询药品审批历史",
+              description: "按药品名称或 NDA/ANDA/BLA 申请号查询 Drugs@FDA，返回申请人、原始批准日期、按时间排序的提交记录（补充申请、状态、日期、文件）以及申请下的产品和参比制剂（RLD）状态",
+              parameters: [
+                {
+                  name: "drug_name",
+                  in: "query",
+                  description: "品牌名、通用名或活性成分（与 application_number 至少提供一个）",
+                  schema: { type: "string" },
+                  example: "lipitor"
+                },
+                {
+                  name: "application_number",
+                  in: "query",
+                  description: "申请号，可省略类型前缀",
+                  schema: { type: "string" },
+                  example: "NDA020702"
+                },
+                {
+                  name: "limit",
+                  in: "query",
+                  description: "返回申请数限制",
+                  schema: { type: "integer", minimum: 1, maximum: 20, default: 5 }
+                }
+              ],
+              responses: {
+                "200": { description: "成功返回审批数据" },
+                "400": { description: "请求参数错误" },
+                "404": { description: "OpenFDA 中没有匹配的记录" },
+                "429": { description: "OpenFDA 配额耗尽，请在 retry_at 之后重试" },
+                "500": { description: "服务器内部错误" },
+                "501": { description: "离线模式下该端点不可用" },
+                "502": { description: "OpenFDA 服务端错误" },
+                "504": { description: "OpenFDA 请求超时" }
+              }
+            }
+          },
+          "/drug-shortages": {
+            get: {
+              summary: "查询药品短缺状态",
+              description: "按药品名称或 NDC 查询 FDA 药品短缺数据库，返回短缺状态、原因、受影响规格与供应说明，并列出同活性成分、当前未短缺的其他 NDC",
+              parameters: [
+                {
+                  name: "drug_name",
+                  in: "query",
+                  description: "品牌名、通用名或活性成分（与 ndc 至少提供一个）",
+                  schema: { type: "string" },
+                  example: "amoxicillin"
+                },
+                {
+                  name: "ndc",
+                  in: "query",
+                  description: "产品或包装 NDC",
+                  schema: { type: "string" }
+                },
+                {
+                  name: "status",
+                  in: "query",
+                  description: "仅返回该状态的短缺记录",
+                  schema: { type: "string", enum: ["Current", "Resolved", "To Be Discontinued"] }
+                },
+                {
+                  name: "limit",
+                  in: "query",
+                  description: "返回短缺记录数限制",
+                  schema: { type: "integer", minimum: 1, maximum: 50, default: 10 }
+                },
+                {
+                  name: "alternatives_limit",
+                  in: "query",
+                  description: "替代 NDC 数量上限，0 表示不查询",
+                  schema: { type: "integer", minimum: 0, maximum: 50, default: 10 }
+                }
+              ],
+              responses: {
+                "200": { description: "成功返回短缺数据" },
+                "400": { description: "请求参数错误或无法识别的 NDC" },
+                "404": { description: "OpenFDA 中没有匹配的记录" },
+                "429": { description: "OpenFDA 配额耗尽，请在 retry_at 之后重试" },
+                "500": { description: "服务器内部错误" },
+                "501": { description: "离线模式下该端点不可用" },
+                "502": { description: "OpenFDA 服务端错误" },
+                "504": { description: "OpenFDA 请求超时" }
+              }
+            }
+          },
+          "/compare-labels": {
+            get: {
+              summary: "比较多个药品标签",
+              description: "并列比较 2-5 个药品的标签：黑框警告有无、禁忌症条目、妊娠分级/哺乳期说明、共有与特有的不良反应，以及其他所选章节原文",
+              parameters: [
+                {
+                  name: "drug_names",
+                  in: "query",
+                  required: true,
+                  description: "逗号分隔的药品名称，2-5 个",
+                  schema: { type: "string" },
+                  example: "warfarin,apixaban"
+                },
+                {
+                  name: "sections",
+                  in: "query",
+                  description: "逗号分隔的比较章节，默认 boxed_warning,contraindications,pregnancy,lactation,adverse_reactions",
+                  schema: { type: "string" },
+                  example: "boxed_warning,adverse_reactions"
+                }
+              ],
+              responses: {
+                "200": { description: "成功返回比较结果" },
+                "400": { description: `请求参数错误；sections 可选值：${LABEL_COMPARISON_SECTIONS.join(", ")}` },
+                "404": { description: "OpenFDA 中没有匹配的记录" },
+                "429": { description: "OpenFDA 配额耗尽，请在 retry_at 之后重试" },
+                "500": { description: "服务器内部错误" },
+                "502": { description: "OpenFDA 服务端错误" },
+                "504": { description: "OpenFDA 请求超时" }
+              }
+            }
+          },
+          "/interactions": {
+            get: {
+              summary: "筛查用药清单中的药物相互作用",
+              description: "取回每个药品的标签，在相互作用、禁忌与警告章节中查找清单中其他药品的名称、通用名、活性成分及药理分类，返回两两配对的提示、引用原句与标签 set_id",
+              parameters: [
+                {
+                  name: "medications",
+                  in: "query",
+                  required: true,
+                  description: "逗号分隔的药品名称，2-10 个",
+                  schema: { type: "string" },
+                  example: "warfarin,fluconazole,aspirin"
+                }
+              ],
+              responses: {
+                "200": { description: "成功返回筛查结果" },
+                "400": { description: "请求参数错误" },
+                "404": { description: "OpenFDA 中没有匹配的记录" },
+                "429": { description: "OpenFDA 配额耗尽，请在 retry_at 之后重试" },
+                "500": { description: "服务器内部错误" },
+                "502": { description: "OpenFDA 服务端错误" },
+                "504": { description: "OpenFDA 请求超时" }
               }
             }
           }
@@ -235,18 +650,10 @@ class OpenFDAHTTPServer {
     this.app.get('/drug-labels', async (req: Request, res: Response) => {
       try {
         const params = DrugLabelSearchParamsSchema.parse(req.query);
-        const data = await this.makeRequest(params);
-        
-        res.json({
-          meta: data.meta,
-          results_count: data.results?.length || 0,
-          results: data.results || []
-        });
+        res.json(await searchDrugLabels(this.client, params));
       } catch (error) {
         console.error('Error in /drug-labels:', error);
-        res.status(400).json({ 
-          error: error instanceof Error ? error.message : 'Unknown error' 
-        });
+        this.sendError(res, error);
       }
     });
 
@@ -257,32 +664,32 @@ class OpenFDAHTTPServer {
         const { limit = 3 } = req.query;
         
         const parsedLimit = z.coerce.number().int().min(1).max(10).parse(limit);
+        const { mode, min_percent } = AdverseReactionQueryParamsSchema
+          .pick({ mode: true, min_percent: true })
+          .parse(req.query);
         
-        const searchQuery = `openfda.brand_name:"${name}" OR openfda.generic_name:"${name}" OR openfda.substance_name:"${name}"`;
+        const expansion = this.expander.expandDrug(name);
+        const searchQuery = buildSearch(this.expander.drugQuery(expansion));
         
-        const data = await this.makeRequest({
+        const data = await this.client.searchLabels({
           search: searchQuery,
           limit: parsedLimit,
           skip: 0
         });
 
-        const adverseReactions = data.results?.map(result => ({
-          drug_name: result.openfda?.brand_name?.[0] || result.openfda?.generic_name?.[0] || "Unknown",
-          manufacturer: result.openfda?.manufacturer_name?.[0] || "Unknown",
-          adverse_reactions: result.adverse_reactions || [],
-          contraindications: result.contraindications || []
-        })) || [];
+        const adverseReactions = mode === 'frequencies'
+          ? data.results?.map(label => summarizeReactionFrequencies(label, min_percent)) || []
+          : data.results?.map(summarizeAdverseReactionSections) || [];
 
         res.json({
           query: name,
+          query_expansion: { drug: this.expander.seedFromLabels(expansion, data.results || []) },
           total_results: data.meta?.results?.total || 0,
           adverse_reactions_data: adverseReactions
         });
       } catch (error) {
         console.error('Error in /drug/:name/adverse-reactions:', error);
-        res.status(400).json({ 
-          error: error instanceof Error ? error.message : 'Unknown error' 
-        });
+        this.sendError(res, error);
       }
     });
 
@@ -294,32 +701,26 @@ class OpenFDAHTTPServer {
         
         const parsedLimit = z.coerce.number().int().min(1).max(10).parse(limit);
         
-        const searchQuery = `openfda.brand_name:"${name}" OR openfda.generic_name:"${name}" OR openfda.substance_name:"${name}"`;
+        const expansion = this.expander.expandDrug(name);
+        const searchQuery = buildSearch(this.expander.drugQuery(expansion));
         
-        const data = await this.makeRequest({
+        const data = await this.client.searchLabels({
           search: searchQuery,
           limit: parsedLimit,
           skip: 0
         });
 
-        const warnings = data.results?.map(result => ({
-          drug_name: result.openfda?.brand_name?.[0] || result.openfda?.generic_name?.[0] || "Unknown",
-          manufacturer: result.openfda?.manufacturer_name?.[0] || "Unknown",
-          warnings: result.warnings || [],
-          precautions: result.precautions || [],
-          boxed_warning: result.boxed_warning || []
-        })) || [];
+        const warnings = data.results?.map(summarizeWarningSections) || [];
 
         res.json({
           query: name,
+          query_expansion: { drug: this.expander.seedFromLabels(expansion, data.results || []) },
           total_results: data.meta?.results?.total || 0,
           warnings_data: warnings
         });
       } catch (error) {
         console.error('Error in /drug/:name/warnings:', error);
-        res.status(400).json({ 
-          error: error instanceof Error ? error.message : 'Unknown error' 
-        });
+        this.sendError(res, error);
       }
     });
 
@@ -331,42 +732,202 @@ class OpenFDAHTTPServer {
         
         const parsedLimit = z.coerce.number().int().min(1).max(10).parse(limit);
         
-        const searchQuery = `openfda.brand_name:"${name}" OR openfda.generic_name:"${name}" OR openfda.substance_name:"${name}"`;
+        const expansion = this.expander.expandDrug(name);
+        const searchQuery = buildSearch(this.expander.drugQuery(expansion));
         
-        const data = await this.makeRequest({
+        const data = await this.client.searchLabels({
           search: searchQuery,
           limit: parsedLimit,
           skip: 0
         });
 
-        const indications = data.results?.map(result => ({
-          drug_name: result.openfda?.brand_name?.[0] || result.openfda?.generic_name?.[0] || "Unknown",
-          manufacturer: result.openfda?.manufacturer_name?.[0] || "Unknown", 
-          indications_and_usage: result.indications_and_usage || [],
-          dosage_and_administration: result.dosage_and_administration || []
-        })) || [];
+        const indications = data.results?.map(summarizeIndicationSections) || [];
 
         res.json({
           query: name,
+          query_expansion: { drug: this.expander.seedFromLabels(expansion, data.results || []) },
           total_results: data.meta?.results?.total || 0,
           indications_data: indications
         });
       } catch (error) {
         console.error('Error in /drug/:name/indications:', error);
-        res.status(400).json({ 
-          error: error instanceof Error ? error.message : 'Unknown error' 
+        this.sendError(res, error);
+      }
+    });
+
+    // FAERS adverse event search endpoint
+    this.app.get('/adverse-events', async (req: Request, res: Response) => {
+      try {
+        const { skip, limit, ...filters } = AdverseEventSearchParamsSchema.parse(req.query);
+
+        const data = await this.client.searchEvents({
+          search: buildAdverseEventSearch(filters),
+          limit,
+          skip
+        });
+
+        res.json({
+          query: filters,
+          total_results: data.meta?.results?.total || 0,
+          adverse_events_data: data.results?.map(summarizeAdverseEvent) || []
+        });
+      } catch (error) {
+        console.error('Error in /adverse-events:', error);
+        this.sendError(res, error);
+      }
+    });
+
+    // FAERS top reactions endpoint
+    this.app.get('/drug/:name/top-reactions', async (req: Request, res: Response) => {
+      try {
+        const { name } = req.params;
+        const { limit, ...filters } = AdverseEventReactionCountParamsSchema.parse({ ...req.query, drug: name });
+
+        const data = await this.client.countEvents({
+          search: buildAdverseEventSearch(filters),
+          count: 'patient.reaction.reactionmeddrapt.exact',
+          limit
+        });
+
+        res.json({
+          query: name,
+          filters,
+          adverse_reactions_data: summarizeReactionCounts(name, data.results || [])
+        });
+      } catch (error) {
+        console.error('Error in /drug/:name/top-reactions:', error);
+        this.sendError(res, error);
+      }
+    });
+
+    // Drug recalls endpoint
+    this.app.get('/drug/:name/recalls', async (req: Request, res: Response) => {
+      try {
+        const { name } = req.params;
+        const { skip, limit, ...filters } = DrugRecallParamsSchema.parse({ ...req.query, drug_name: name });
+        const expansion = this.expander.expandDrug(filters.drug_name);
+
+        const data = await this.client.searchRecalls({
+          search: buildRecallSearch(filters, expansion.terms),
+          limit,
+          skip
+        });
+
+        res.json({
+          query: filters,
+          query_expansion: { drug: expansion },
+          total_results: data.meta?.results?.total || 0,
+          recalls_data: data.results?.map(summarizeRecall) || []
+        });
+      } catch (error) {
+        console.error('Error in /drug/:name/recalls:', error);
+        this.sendError(res, error);
+      }
+    });
+
+    // NDC directory lookup endpoint
+    this.app.get('/ndc/:code', async (req: Request, res: Response) => {
+      try {
+        const { ndc, limit } = NdcLookupParamsSchema.parse({ ...req.query, ndc: req.params.code });
+        const search = buildNdcSearch(ndc);
+        if (!search) {
+          throw new QueryBuilderError(`Unrecognized NDC format: ${ndc}`);
+        }
+
+        const data = await this.client.searchNdc({
+          search,
+          limit,
+          skip: 0
+        });
+
+        res.json({
+          query: ndc,
+          total_results: data.meta?.results?.total || 0,
+          ndc_data: data.results?.map(product => summarizeNdcProduct(product, ndc)) || []
+        });
+      } catch (error) {
+        console.error('Error in /ndc/:code:', error);
+        this.sendError(res, error);
+      }
+    });
+
+    // Drugs@FDA approval history endpoint
+    this.app.get('/drug-approvals', async (req: Request, res: Response) => {
+      try {
+        const params = DrugApprovalParamsSchema.parse(req.query);
+        const expansion = params.drug_name ? this.expander.expandDrug(params.drug_name) : undefined;
+
+        const data = await this.client.searchApplications({
+          search: buildApprovalSearch(params, expansion?.terms),
+          limit: params.limit,
+          skip: 0
+        });
+
+        res.json({
+          query: params.application_number || params.drug_name,
+          ...(expansion ? { query_expansion: { drug: expansion } } : {}),
+          total_results: data.meta?.results?.total || 0,
+          applications: data.results?.map(summarizeApplication) || []
         });
+      } catch (error) {
+        console.error('Error in /drug-approvals:', error);
+        this.sendError(res, error);
+      }
+    });
+
+    // Drug shortage endpoint
+    this.app.get('/drug-shortages', async (req: Request, res: Response) => {
+      try {
+        const params = DrugShortageParamsSchema.parse(req.query);
+        res.json(await checkDrugShortage(this.client, params));
+      } catch (error) {
+        console.error('Error in /drug-shortages:', error);
+        this.sendError(res, error);
+      }
+    });
+
+    // Label comparison endpoint
+    this.app.get('/compare-labels', async (req: Request, res: Response) => {
+      try {
+        const params = CompareDrugLabelsParamsSchema.parse(req.query);
+        res.json(await compareDrugLabels(this.client, params));
+      } catch (error) {
+        console.error('Error in /compare-labels:', error);
+        this.sendError(res, error);
+      }
+    });
+
+    // Drug interaction screening endpoint
+    this.app.get('/interactions', async (req: Request, res: Response) => {
+      try {
+        const params = CheckInteractionsParamsSchema.parse(req.query);
+        res.json(await checkInteractions(this.client, params));
+      } catch (error) {
+        console.error('Error in /interactions:', error);
+        this.sendError(res, error);
       }
     });
 
     // Health check endpoint
     this.app.get('/health', (req: Request, res: Response) => {
-      res.json({ status: 'ok', timestamp: new Date().toISOString() });
+      res.json({
+        status: 'ok',
+        timestamp: new Date().toISOString(),
+        rate_limit: this.client.rateLimitStats(),
+        cache: this.client.cacheStats(),
+        offline: this.client.offlineInfo()
+      });
     });
   }
 
   public start(port: number = 3000) {
-    this.app.listen(port, () => {
+    // 退出时写出延迟保存的响应缓存；SIGINT/SIGTERM 默认直接终止进程，不触发 exit 事件
+    process.once("exit", () => this.client.flushCache());
+    for (const signal of ["SIGINT", "SIGTERM"] as const) {
+      process.once(signal, () => process.exit(0));
+    }
+
+    return this.app.listen(port, () => {
       console.log(`OpenFDA HTTP Server running on http://localhost:${port}`);
       console.log(`OpenAPI specification available at: http://localhost:${port}/openapi.json`);
     });
@@ -379,7 +940,7 @@ const __dirname = dirname(__filename);
 
 // Start server if this file is run directly
 if (process.argv[1] && import.meta.url === `file://${process.argv[1]}`) {
-  const server = new OpenFDAHTTPServer();
+  const server = OpenFDAHTTPServer.fromConfig();
   const port = process.env.PORT ? parseInt(process.env.PORT) : 3000;
   server.start(port);
 }
@@ -0,0 +1,71 @@
+#!/usr/bin/env node
+
+/**
+ * 从本地的 OpenFDA 批量下载文件导入/刷新离线数据集
+ *
+ * 用法: import-labels [--data-dir <dir>] <drug-label-*.json.zip | 目录> ...
+ * 数据目录默认取 OPENFDA_OFFLINE_DIR
+ */
+
+import fs from "fs";
+import path from "path";
+import { loadConfig } from "./config.js";
+import { importBulkLabels } from "./offline-store.js";
+
+function usage(): never {
+  console.error("Usage: import-labels [--data-dir <dir>] <drug-label-*.json.zip | directory> ...");
+  console.error("The data directory defaults to OPENFDA_OFFLINE_DIR.");
+  process.exit(1);
+}
+
+function collectFiles(inputs: string[]): string[] {
+  const files: string[] = [];
+  for (const input of inputs) {
+    if (fs.statSync(input).isDirectory()) {
+      fs.readdirSync(input)
+        .filter(name => /^drug-label-.*\.json(\.zip)?$/i.test(name))
+        .sort()
+        .forEach(name => files.push(path.join(input, name)));
+    } else {
+      files.push(input);
+    }
+  }
+  return files;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  let dataDir = loadConfig().openfda.offlineDataDir;
+  const inputs: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === "--data-dir") {
+      dataDir = args[++i];
+    } else if (args[i] === "--help" || args[i] === "-h") {
+      usage();
+    } else {
+      inputs.push(args[i]);
+    }
+  }
+
+  if (!dataDir || inputs.length === 0) {
+    usage();
+  }
+
+  const files = collectFiles(inputs);
+  if (files.length === 0) {
+    console.error("No drug-label bulk files found in the given paths.");
+    process.exit(1);
+  }
+
+  console.log(`Importing ${files.length} file(s) into ${dataDir}`);
+  const summary = await importBulkLabels(path.resolve(dataDir), files, (records, file) => {
+    console.log(`  ${path.basename(file)}: ${records} labels`);
+  });
+  console.log(`Imported ${summary.records} labels (last_updated ${summary.last_updated || "unknown"})`);
+}
+
+main().catch(error => {
+  console.error("Import failed:", error instanceof Error ? error.message : error);
+  process.exit(1);
+});
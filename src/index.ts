@@ -10,38 +10,98 @@ import {
 } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
 import {
-  chunkText,
   rankAndPickTop,
+  RETRIEVERS,
+  Retriever,
+  createHybridRetriever,
+  createSemanticRetriever,
+  withSectionBoosts,
   summarizeChunks,
   extractCitations,
   TextChunk,
   RAGResult
 } from "./rag-utils.js";
-
-const DrugLabelSearchParamsSchema = z.object({
-  search: z.string().optional(),
-  count: z.string().optional(),
-  // accept number-like strings for pagination
-  skip: z.coerce.number().int().min(0).optional().default(0),
-  // OpenFDA allows up to 1000
-  limit: z.coerce.number().int().min(1).max(200).optional().default(50),
-});
-
-type DrugLabelSearchParams = z.infer<typeof DrugLabelSearchParamsSchema>;
-
-const DrugQueryParamsSchema = z.object({
-  drug_name: z.string(),
-  // accept number-like strings, default to 5 items
-  limit: z.coerce.number().int().min(1).max(5).optional().default(3),
-});
-
-type DrugQueryParams = z.infer<typeof DrugQueryParamsSchema>;
+import { OpenFDAClient, OpenFDAQueryParams } from "./openfda-client.js";
+import { AppConfig, loadConfig } from "./config.js";
+import { Embedder, createEmbedder } from "./embeddings.js";
+import { OpenFDAError, OpenFDAQuotaError } from "./errors.js";
+import { LANGUAGES, Language, isLanguage, message } from "./messages.js";
+import {
+  AdverseEventReactionCountParams,
+  AdverseEventReactionCountParamsSchema,
+  AdverseEventSearchParams,
+  AdverseEventSearchParamsSchema,
+  DrugLabelSearchParams,
+  DrugLabelSearchParamsSchema,
+  DrugQueryParamsSchema,
+  AdverseReactionQueryParams,
+  AdverseReactionQueryParamsSchema,
+  DrugRecallParams,
+  DrugRecallParamsSchema,
+  NdcLookupParams,
+  NdcLookupParamsSchema,
+  DrugApprovalParams,
+  DrugApprovalParamsSchema,
+  DrugShortageParams,
+  DrugShortageParamsSchema,
+  CompareDrugLabelsParams,
+  CompareDrugLabelsParamsSchema,
+  LABEL_COMPARISON_SECTIONS,
+  CheckInteractionsParams,
+  CheckInteractionsParamsSchema,
+  BuildChunkIndexParams,
+  BuildChunkIndexParamsSchema,
+  InspectChunkIndexParams,
+  InspectChunkIndexParamsSchema,
+  PruneChunkIndexParams,
+  PruneChunkIndexParamsSchema,
+  ResponseShapeParamsSchema,
+} from "./schemas.js";
+import {
+  CursorError,
+  DEFAULT_MAX_TOKENS,
+  PageCache,
+  ResumeState,
+  decodeCursor,
+  encodeCursor,
+  shapeToolResult,
+} from "./response-budget.js";
+import { buildApprovalSearch, summarizeApplication } from "./drugs-fda.js";
+import { buildNdcSearch, summarizeNdcProduct } from "./ndc.js";
+import { buildRecallSearch, summarizeRecall } from "./recalls.js";
+import { checkDrugShortage } from "./shortages.js";
+import { searchDrugLabels } from "./label-search.js";
+import { ChunkIndex, buildChunkIndex, chunkDrugLabel, createChunkIndex } from "./chunk-index.js";
+import { sectionBoostsForQuery } from "./label-sections.js";
+import { QueryExpander, QueryExpansionReport, createQueryExpander } from "./query-expansion.js";
+import {
+  summarizeAdverseReactionSections,
+  summarizeIndicationSections,
+  summarizeWarningSections,
+} from "./label-parser.js";
+import { summarizeReactionFrequencies } from "./reaction-frequencies.js";
+import { compareDrugLabels } from "./label-comparison.js";
+import { checkInteractions } from "./interactions.js";
+import {
+  buildAdverseEventSearch,
+  summarizeAdverseEvent,
+  summarizeReactionCounts,
+} from "./adverse-events.js";
+import { QueryBuilderError, and, buildSearch } from "./query-builder.js";
+import { SearchSyntaxError } from "./search-syntax.js";
 
 const AEPipelineRAGParamsSchema = z.object({
   query: z.string().optional(),
   drug: z.string().optional(),
   condition: z.string().optional(),
   top_k: z.coerce.number().int().min(1).max(10).optional().default(5),
+  retriever: z.enum(["bm25", "keyword", "semantic", "hybrid"]).optional().default("bm25"),
+  // index: 只检索本地分块索引，不访问网络
+  source: z.enum(["live", "index"]).optional().default("live"),
+  // 按查询意图加权章节，如询问黑框警告时提高 boxed_warning 文本块的得分
+  section_boost: z.boolean().optional().default(true),
+  // 摘要与提示信息的语言，未设置时使用服务端 OUTPUT_LANGUAGE
+  language: z.enum(LANGUAGES).optional(),
   filters: z.object({
     limit: z.coerce.number().int().min(1).max(100).optional().default(50)
   }).optional().default({})
@@ -49,26 +109,118 @@ const AEPipelineRAGParamsSchema = z.object({
 
 type AEPipelineRAGParams = z.infer<typeof AEPipelineRAGParamsSchema>;
 
-interface OpenFDAResponse {
-  meta: {
-    disclaimer: string;
-    terms: string;
-    license: string;
-    last_updated: string;
-    results: {
-      skip: number;
-      limit: number;
-      total: number;
-    };
+// 所有工具共用的参数：输出语言与结果裁剪
+const SHARED_TOOL_PROPERTIES = {
+  language: {
+    type: "string",
+    enum: [...LANGUAGES],
+    description: "Language of error messages and generated text (e.g. the ae_pipeline_rag summary and notices). Defaults to the server's OUTPUT_LANGUAGE"
+  },
+  fields: {
+    type: "array",
+    items: { type: "string" },
+    description: "Only return these fields of each result item, as dot paths. Example: ['set_id', 'effective_time', 'openfda.brand_name', 'boxed_warning']"
+  },
+  max_tokens: {
+    type: "number",
+    description: "Approximate token budget for the response. Items that do not fit are left for later pages (see pagination.next_cursor); long text in an item that alone exceeds the budget is cut with a '… [truncated N chars]' marker, and next_cursor then returns the rest of the truncated fields. Without it the response is not limited",
+    minimum: 500,
+    maximum: 100000
+  },
+  cursor: {
+    type: "string",
+    description: "Opaque pagination.next_cursor from a previous response of the same tool, to get the rest of that response. All other arguments are taken from the cursor. Pages come from the server's copy of the full result while it is kept (15 minutes); after that the tool is re-run"
+  }
+};
+
+function withSharedProperties<T extends { inputSchema: { properties: object } }>(tool: T): T {
+  return {
+    ...tool,
+    inputSchema: {
+      ...tool.inputSchema,
+      properties: { ...tool.inputSchema.properties, ...SHARED_TOOL_PROPERTIES }
+    }
   };
-  results: any[];
 }
 
+// FAERS 工具共用的筛选参数
+const ADVERSE_EVENT_FILTER_PROPERTIES = {
+  reaction: {
+    type: "string",
+    description: "MedDRA preferred term of the reaction. Example: 'nausea', 'rhabdomyolysis'"
+  },
+  serious: {
+    type: "boolean",
+    description: "true for serious reports only, false for non-serious reports only"
+  },
+  seriousness: {
+    type: "string",
+    enum: ["death", "life_threatening", "hospitalization", "disabling", "congenital_anomaly", "other"],
+    description: "Only reports meeting this seriousness criterion"
+  },
+  outcome: {
+    type: "string",
+    enum: ["recovered", "recovering", "not_recovered", "recovered_with_sequelae", "fatal", "unknown"],
+    description: "Reaction outcome"
+  },
+  sex: {
+    type: "string",
+    enum: ["male", "female", "unknown"],
+    description: "Patient sex"
+  },
+  min_age: {
+    type: "number",
+    description: "Minimum patient age in years"
+  },
+  max_age: {
+    type: "number",
+    description: "Maximum patient age in years"
+  },
+  received_from: {
+    type: "string",
+    description: "Earliest FDA receive date (YYYYMMDD or YYYY-MM-DD)"
+  },
+  received_to: {
+    type: "string",
+    description: "Latest FDA receive date (YYYYMMDD or YYYY-MM-DD)"
+  }
+};
+
 class OpenFDAServer {
   private server: Server;
-  private baseUrl = "https://api.fda.gov/drug/label.json";
+  private client: OpenFDAClient;
+  private embedder: Embedder | null;
+  private chunkIndex: ChunkIndex | null;
+  private expander: QueryExpander;
+  private language: Language;
+  // 被分页的完整结果，续页时直接取用
+  private pages = new PageCache<Awaited<ReturnType<OpenFDAServer["callTool"]>>>();
 
-  constructor() {
+  /**
+   * 按运行配置创建服务器及其依赖；配置只读取一次
+   */
+  static fromConfig(config: AppConfig = loadConfig()): OpenFDAServer {
+    return new OpenFDAServer(
+      new OpenFDAClient(config.openfda),
+      createEmbedder(config.embeddings),
+      createChunkIndex(config.chunkIndexFile),
+      createQueryExpander(config.synonymsFile),
+      config.language
+    );
+  }
+
+  constructor(
+    client: OpenFDAClient,
+    embedder: Embedder | null,
+    chunkIndex: ChunkIndex | null,
+    expander: QueryExpander,
+    language: Language
+  ) {
+    this.client = client;
+    this.embedder = embedder;
+    this.chunkIndex = chunkIndex;
+    this.expander = expander;
+    this.language = language;
     this.server = new Server(
       {
         name: "openfda-drug-label",
@@ -85,10 +237,15 @@ class OpenFDAServer {
     
     // Error handling
     this.server.onerror = (error) => console.error("[MCP Error]", error);
-    process.on("SIGINT", async () => {
-      await this.server.close();
-      process.exit(0);
-    });
+  }
+
+  /**
+   * 写出延迟保存的响应缓存、分块索引与向量缓存
+   */
+  private flush() {
+    this.client.flushCache();
+    this.chunkIndex?.flush();
+    this.embedder?.flushCache();
   }
 
   private setupToolHandlers() {
@@ -96,7 +253,7 @@ class OpenFDAServer {
       tools: [
         {
           name: "search_drug_labels",
-          description: "Search FDA drug labels using OpenFDA API. Returns drug labeling information including indications, contraindications, warnings, and adverse reactions.",
+          description: "Search FDA drug labels using OpenFDA API. Returns drug labeling information including indications, contraindications, warnings, and adverse reactions. With include_approvals, also returns Drugs@FDA approval context keyed by each label's openfda.application_number.",
           inputSchema: {
             type: "object",
             properties: {
@@ -119,13 +276,27 @@ class OpenFDAServer {
                 default: 10,
                 minimum: 1,
                 maximum: 100
+              },
+              sort: {
+                type: "string",
+                description: "Sort order passed to openFDA as field:asc or field:desc. Example: 'effective_time:desc'"
+              },
+              latest_only: {
+                type: "boolean",
+                description: "Collapse multiple versions of the same set_id among the returned labels to the newest one (highest version, then latest effective_time)",
+                default: false
+              },
+              include_approvals: {
+                type: "boolean",
+                description: "Attach Drugs@FDA approval summaries keyed by openfda.application_number (costs one extra openFDA request; not available offline)",
+                default: false
               }
             }
           }
         },
         {
           name: "get_drug_adverse_reactions",
-          description: "Get adverse reactions information for a specific drug from FDA labels",
+          description: "Get adverse reactions information for a specific drug from FDA labels. mode 'frequencies' extracts per-reaction incidence (drug and comparator %, thresholds such as '≥2%', frequency bands) from label tables and text.",
           inputSchema: {
             type: "object",
             properties: {
@@ -139,6 +310,18 @@ class OpenFDAServer {
                 default: 5,
                 minimum: 1,
                 maximum: 10
+              },
+              mode: {
+                type: "string",
+                enum: ["sections", "frequencies"],
+                description: "'sections' returns parsed label sections; 'frequencies' returns normalized reaction terms with numeric frequencies and the source sentence or table row",
+                default: "sections"
+              },
+              min_percent: {
+                type: "number",
+                description: "In frequencies mode, only keep reactions whose drug-arm incidence is at least this percentage",
+                minimum: 0,
+                maximum: 100
               }
             },
             required: ["drug_name"]
@@ -190,13 +373,30 @@ class OpenFDAServer {
                 minimum: 1,
                 maximum: 10
               },
+              retriever: {
+                type: "string",
+                enum: ["bm25", "keyword", "semantic", "hybrid"],
+                description: "Ranking strategy for text chunks: 'bm25' (BM25 with corpus-level IDF over the fetched labels), 'keyword' (legacy keyword-overlap scoring), 'semantic' (embedding cosine similarity) or 'hybrid' (BM25 + semantic reciprocal rank fusion). 'semantic' and 'hybrid' require EMBEDDING_PROVIDER to be configured on the server",
+                default: "bm25"
+              },
+              source: {
+                type: "string",
+                enum: ["live", "index"],
+                description: "'live' fetches labels from openFDA (and updates the chunk index when CHUNK_INDEX_FILE is configured); 'index' searches only the local chunk index without any network request, filtered by 'drug' when given",
+                default: "live"
+              },
+              section_boost: {
+                type: "boolean",
+                description: "Boost chunks from label sections matching the query intent (e.g. boxed_warning for 'fatal risks', drug_interactions for 'taken together with')",
+                default: true
+              },
               filters: {
                 type: "object",
                 description: "Additional filters for data retrieval",
                 properties: {
                   limit: {
                     type: "number",
-                    description: "Maximum drug labels to fetch",
+                    description: "Maximum drug labels to fetch (or to read from the chunk index)",
                     default: 50,
                     minimum: 1,
                     maximum: 100
@@ -226,133 +426,532 @@ class OpenFDAServer {
             },
             required: ["drug_name"]
           }
+        },
+        {
+          name: "search_adverse_events",
+          description: "Search real-world adverse event reports (FAERS) from the OpenFDA drug event endpoint. Filter by drug, reaction, seriousness, outcome, patient age/sex and receive date.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              drug: {
+                type: "string",
+                description: "Drug name (brand, generic, substance or reported product name)"
+              },
+              ...ADVERSE_EVENT_FILTER_PROPERTIES,
+              skip: {
+                type: "number",
+                description: "Number of reports to skip (for pagination)",
+                default: 0
+              },
+              limit: {
+                type: "number",
+                description: "Maximum number of reports to return",
+                default: 10,
+                minimum: 1,
+                maximum: 100
+              }
+            }
+          }
+        },
+        {
+          name: "count_adverse_event_reactions",
+          description: "Count the most frequently reported reactions (MedDRA preferred terms) in FAERS reports for a drug",
+          inputSchema: {
+            type: "object",
+            properties: {
+              drug: {
+                type: "string",
+                description: "Drug name (brand, generic, substance or reported product name)"
+              },
+              ...ADVERSE_EVENT_FILTER_PROPERTIES,
+              limit: {
+                type: "number",
+                description: "Number of top reactions to return",
+                default: 20,
+                minimum: 1,
+                maximum: 100
+              }
+            },
+            required: ["drug"]
+          }
+        },
+        {
+          name: "get_drug_recalls",
+          description: "Get FDA drug recall (enforcement) reports for a drug, with reason for recall, product description, distribution pattern and lot codes",
+          inputSchema: {
+            type: "object",
+            properties: {
+              drug_name: {
+                type: "string",
+                description: "Name of the drug to search recalls for"
+              },
+              classification: {
+                type: "string",
+                enum: ["Class I", "Class II", "Class III"],
+                description: "Recall classification (Class I is the most serious)"
+              },
+              status: {
+                type: "string",
+                enum: ["Ongoing", "Completed", "Terminated", "Pending"],
+                description: "Recall status"
+              },
+              recalling_firm: {
+                type: "string",
+                description: "Name of the recalling firm"
+              },
+              report_date_from: {
+                type: "string",
+                description: "Earliest report date (YYYYMMDD or YYYY-MM-DD)"
+              },
+              report_date_to: {
+                type: "string",
+                description: "Latest report date (YYYYMMDD or YYYY-MM-DD)"
+              },
+              skip: {
+                type: "number",
+                description: "Number of records to skip (for pagination)",
+                default: 0
+              },
+              limit: {
+                type: "number",
+                description: "Maximum number of records to return",
+                default: 10,
+                minimum: 1,
+                maximum: 50
+              }
+            },
+            required: ["drug_name"]
+          }
+        },
+        {
+          name: "lookup_ndc",
+          description: "Look up a product or package NDC code (any hyphenation, including 11-digit HIPAA format) in the FDA NDC directory. Returns brand/generic name, dosage form, route, strength, labeler, marketing category and packaging, plus the label set_id for chaining with search_drug_labels.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              ndc: {
+                type: "string",
+                description: "Product or package NDC. Example: '0002-3227-30', '00002322730', '0002-3227'"
+              },
+              limit: {
+                type: "number",
+                description: "Maximum number of products to return",
+                default: 5,
+                minimum: 1,
+                maximum: 10
+              }
+            },
+            required: ["ndc"]
+          }
+        },
+        {
+          name: "get_drug_approval_history",
+          description: "Get Drugs@FDA approval history for a drug name or an NDA/ANDA/BLA application number. Returns sponsor, original approval date, the submissions timeline (supplements, status, dates, documents) and the products under each application, including reference listed drug status.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              drug_name: {
+                type: "string",
+                description: "Brand name, generic name or active ingredient"
+              },
+              application_number: {
+                type: "string",
+                description: "Application number. Example: 'NDA021457', 'ANDA 076477', 'BLA125057'"
+              },
+              limit: {
+                type: "number",
+                description: "Maximum number of applications to return",
+                default: 5,
+                minimum: 1,
+                maximum: 20
+              }
+            }
+          }
+        },
+        {
+          name: "check_drug_shortage",
+          description: "Check whether a drug (by name or NDC) is in shortage according to the FDA drug shortages database. Returns status, shortage reason, affected presentations and availability notes, plus other NDCs with the same active ingredients that are not currently in shortage.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              drug_name: {
+                type: "string",
+                description: "Brand name, generic name or active ingredient"
+              },
+              ndc: {
+                type: "string",
+                description: "Product or package NDC. Example: '0409-4888-02'"
+              },
+              status: {
+                type: "string",
+                enum: ["Current", "Resolved", "To Be Discontinued"],
+                description: "Only return shortages with this status"
+              },
+              limit: {
+                type: "number",
+                description: "Maximum number of shortage records to return",
+                default: 10,
+                minimum: 1,
+                maximum: 50
+              },
+              alternatives_limit: {
+                type: "number",
+                description: "Maximum number of alternative NDCs to list (0 skips the lookup)",
+                default: 10,
+                minimum: 0,
+                maximum: 50
+              }
+            }
+          }
+        },
+        {
+          name: "compare_drug_labels",
+          description: "Compare the FDA labels of 2-5 drugs side by side. Returns boxed warning presence, contraindication lists, pregnancy category/lactation text and shared versus unique adverse reactions, plus the raw text of any other requested sections.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              drug_names: {
+                type: "array",
+                items: { type: "string" },
+                minItems: 2,
+                maxItems: 5,
+                description: "Drug names to compare. Example: ['warfarin', 'apixaban']"
+              },
+              sections: {
+                type: "array",
+                items: { type: "string", enum: [...LABEL_COMPARISON_SECTIONS] },
+                description: "Sections to compare",
+                default: ["boxed_warning", "contraindications", "pregnancy", "lactation", "adverse_reactions"]
+              }
+            },
+            required: ["drug_names"]
+          }
+        },
+        {
+          name: "check_interactions",
+          description: "Screen a patient medication list for drug-drug interactions. Fetches each drug's FDA label and scans its drug interactions, contraindications and warnings sections for mentions of the other drugs, including their brand, generic, substance and pharmacologic class names. Returns pairwise flags citing the exact label sentence and the label set_id.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              medications: {
+                type: "array",
+                items: { type: "string" },
+                minItems: 2,
+                maxItems: 10,
+                description: "Drug names on the medication list. Example: ['warfarin', 'fluconazole', 'aspirin']"
+              }
+            },
+            required: ["medications"]
+          }
+        },
+        {
+          name: "build_chunk_index",
+          description: "Admin: fetch FDA labels by drug name or openFDA search and add their section chunks to the local chunk index used by ae_pipeline_rag (source='index'). Labels are keyed by set_id; only new labels or labels whose version/effective_time changed are re-chunked. Requires CHUNK_INDEX_FILE.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              drug_names: {
+                type: "array",
+                items: { type: "string" },
+                minItems: 1,
+                maxItems: 20,
+                description: "Drug names to index. Example: ['warfarin', 'apixaban']"
+              },
+              search: {
+                type: "string",
+                description: "openFDA label search expression to index. Example: 'openfda.pharm_class_epc:\"Anticoagulant [EPC]\"'"
+              },
+              limit: {
+                type: "number",
+                description: "Maximum labels to fetch per drug name or search (1-100)",
+                default: 100,
+                minimum: 1,
+                maximum: 100
+              }
+            }
+          }
+        },
+        {
+          name: "inspect_chunk_index",
+          description: "Admin: show chunk index statistics and the indexed labels (set_id, version, effective_time, chunk count), newest first.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              drug: {
+                type: "string",
+                description: "Only list labels whose brand, generic or substance name contains this text"
+              },
+              limit: {
+                type: "number",
+                description: "Maximum labels to list (1-100)",
+                default: 20,
+                minimum: 1,
+                maximum: 100
+              }
+            }
+          }
+        },
+        {
+          name: "prune_chunk_index",
+          description: "Admin: remove labels from the chunk index by set_id, by drug name, or when not re-indexed within a number of days. Use dry_run to preview.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              set_ids: {
+                type: "array",
+                items: { type: "string" },
+                description: "Label set_ids to remove"
+              },
+              drug: {
+                type: "string",
+                description: "Remove labels whose brand, generic or substance name contains this text"
+              },
+              older_than_days: {
+                type: "number",
+                description: "Remove labels last indexed more than this many days ago",
+                minimum: 0
+              },
+              dry_run: {
+                type: "boolean",
+                description: "Only report what would be removed",
+                default: false
+              }
+            }
+          }
         }
-      ],
+      ].map(withSharedProperties),
     }));
 
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    this.server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
       const { name, arguments: rawArgs } = request.params;
 
       // Handle cases where arguments are double-encoded as a JSON string
-      let args: any;
+      let parsed: unknown = rawArgs;
       if (typeof rawArgs === 'string') {
         try {
-          args = JSON.parse(rawArgs);
+          parsed = JSON.parse(rawArgs);
         } catch (e) {
           throw new McpError(
             ErrorCode.InvalidParams,
-            'Failed to parse arguments string: ' + (e as Error).message
+            message(this.language, "error.invalid_arguments_string", { message: (e as Error).message })
           );
         }
-      } else {
-        args = rawArgs;
       }
 
-      if (!args) {
+      // 具体字段由各工具的 zod schema 校验
+      if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
         throw new McpError(
           ErrorCode.InvalidParams,
-          "Missing arguments"
+          message(this.language, "error.missing_arguments")
         );
       }
+      let args = parsed as Record<string, unknown>;
+
+      // 续页调用：参数与起点取自上一次结果的 next_cursor
+      let offset = 0;
+      let resultId: string | undefined;
+      let resume: ResumeState | undefined;
+      const continued = typeof args.cursor === "string";
+      if (typeof args.cursor === "string") {
+        let cursor;
+        try {
+          cursor = decodeCursor(args.cursor);
+        } catch (error) {
+          if (!(error instanceof CursorError)) throw error;
+          throw new McpError(ErrorCode.InvalidParams, message(this.language, "error.invalid_cursor"));
+        }
+        if (cursor.tool !== name) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            message(this.language, "error.cursor_tool_mismatch", { tool: cursor.tool, name })
+          );
+        }
+        args = cursor.args;
+        offset = cursor.offset;
+        resultId = cursor.result;
+        resume = cursor.resume;
+      }
+
+      // 任一工具的参数中带 language 时，错误信息使用该语言
+      const language = isLanguage(args.language) ? args.language : this.language;
 
       try {
-        switch (name) {
-          case "search_drug_labels":
-            const searchParams = DrugLabelSearchParamsSchema.parse(args);
-            return await this.searchDrugLabels(searchParams);
-          
-          case "get_drug_adverse_reactions":
-            const adverseParams = DrugQueryParamsSchema.parse(args);
-            return await this.getDrugAdverseReactions(adverseParams.drug_name, adverseParams.limit || 5);
-          
-          case "get_drug_warnings":
-            const warningParams = DrugQueryParamsSchema.parse(args);
-            return await this.getDrugWarnings(warningParams.drug_name, warningParams.limit || 5);
-          
-          case "ae_pipeline_rag":
-            const ragParams = AEPipelineRAGParamsSchema.parse(args);
-            return await this.aePipelineRag(ragParams);
-          
-          case "get_drug_indications":
-            const indicationParams = DrugQueryParamsSchema.parse(args);
-            return await this.getDrugIndications(indicationParams.drug_name, indicationParams.limit || 5);
-          
-          default:
-            throw new McpError(
-              ErrorCode.MethodNotFound,
-              `Unknown tool: ${name}`
-            );
+        const shape = ResponseShapeParamsSchema.parse(args);
+        // 暂存的结果已过期或被淘汰时按 cursor 中的参数重新执行
+        const cached = resultId ? this.pages.get(resultId) : undefined;
+        if (!cached) resultId = undefined;
+        const result = cached ?? await this.callTool(name, args, language, extra.signal);
+        // 未给出 fields/max_tokens/cursor 时结果原样返回，不做预算裁剪
+        if (!shape.fields && shape.max_tokens === undefined && !continued) {
+          return { ...result, _meta: this.resultMeta() };
         }
+        const shaped = shapeToolResult(
+          result,
+          {
+            fields: shape.fields,
+            maxTokens: shape.max_tokens ?? (continued ? DEFAULT_MAX_TOKENS : Number.POSITIVE_INFINITY),
+            offset,
+            resume,
+          },
+          (nextOffset, nextResume) => encodeCursor({
+            tool: name,
+            args,
+            offset: nextOffset,
+            result: resultId ??= this.pages.put(result),
+            resume: nextResume,
+          })
+        );
+        return { ...shaped, _meta: this.resultMeta() };
       } catch (error) {
         if (error instanceof McpError) {
           throw error;
         }
+        if (error instanceof QueryBuilderError || error instanceof SearchSyntaxError) {
+          throw new McpError(ErrorCode.InvalidParams, error.message);
+        }
+        if (error instanceof z.ZodError) {
+          const issues = error.issues
+            .map(issue => `${issue.path.join(".") || "arguments"}: ${issue.message}`)
+            .join("; ");
+          throw new McpError(ErrorCode.InvalidParams, message(language, "error.invalid_params", { name, issues }));
+        }
+        // 配额耗尽时返回结构化结果，便于调用方在 retry_at 之后重试
+        if (error instanceof OpenFDAQuotaError) {
+          return {
+            isError: true,
+            _meta: this.resultMeta(),
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(error.toJSON(), null, 2)
+              }
+            ]
+          };
+        }
+        // 离线模式下请求了药品标签以外的端点
+        if (error instanceof OpenFDAError && error.status === 501) {
+          throw new McpError(ErrorCode.InvalidRequest, error.message);
+        }
         throw new McpError(
           ErrorCode.InternalError,
-          `Error executing tool ${name}: ${error}`
+          message(language, "error.tool_failed", { name, message: String(error) })
         );
       }
     });
   }
 
-  private async makeRequest(params: DrugLabelSearchParams): Promise<OpenFDAResponse> {
-    const url = new URL(this.baseUrl);
-    
-    if (params.search) {
-      url.searchParams.set("search", params.search);
-    }
-    if (params.count) {
-      url.searchParams.set("count", params.count);
-    }
-    if (params.skip) {
-      url.searchParams.set("skip", params.skip.toString());
-    }
-    if (params.limit) {
-      url.searchParams.set("limit", params.limit.toString());
-    }
-
-    const response = await fetch(url.toString());
-    
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`OpenFDA API error (${response.status}): ${errorText}`);
+  private async callTool(name: string, args: Record<string, unknown>, language: Language, signal?: AbortSignal) {
+    switch (name) {
+      case "search_drug_labels":
+        const searchParams = DrugLabelSearchParamsSchema.parse(args);
+        // fields 由 shapeToolResult 统一投影，这里不再裁剪
+        return await this.searchDrugLabels({ ...searchParams, fields: undefined }, signal);
+      
+      case "get_drug_adverse_reactions":
+        const adverseParams = AdverseReactionQueryParamsSchema.parse(args);
+        return await this.getDrugAdverseReactions(adverseParams, signal);
+      
+      case "get_drug_warnings":
+        const warningParams = DrugQueryParamsSchema.parse(args);
+        return await this.getDrugWarnings(warningParams.drug_name, warningParams.limit || 5, signal);
+      
+      case "ae_pipeline_rag":
+        const ragParams = AEPipelineRAGParamsSchema.parse(args);
+        return await this.aePipelineRag(ragParams, language, signal);
+      
+      case "get_drug_indications":
+        const indicationParams = DrugQueryParamsSchema.parse(args);
+        return await this.getDrugIndications(indicationParams.drug_name, indicationParams.limit || 5, signal);
+      
+      case "search_adverse_events":
+        const eventParams = AdverseEventSearchParamsSchema.parse(args);
+        return await this.searchAdverseEvents(eventParams, signal);
+      
+      case "count_adverse_event_reactions":
+        const reactionCountParams = AdverseEventReactionCountParamsSchema.parse(args);
+        return await this.countAdverseEventReactions(reactionCountParams, signal);
+      
+      case "get_drug_recalls":
+        const recallParams = DrugRecallParamsSchema.parse(args);
+        return await this.getDrugRecalls(recallParams, signal);
+      
+      case "lookup_ndc":
+        const ndcParams = NdcLookupParamsSchema.parse(args);
+        return await this.lookupNdc(ndcParams, language, signal);
+      
+      case "get_drug_approval_history":
+        const approvalParams = DrugApprovalParamsSchema.parse(args);
+        return await this.getDrugApprovalHistory(approvalParams, signal);
+      
+      case "check_drug_shortage":
+        const shortageParams = DrugShortageParamsSchema.parse(args);
+        return await this.checkDrugShortage(shortageParams, signal);
+      
+      case "compare_drug_labels":
+        const compareParams = CompareDrugLabelsParamsSchema.parse(args);
+        return await this.compareDrugLabels(compareParams, signal);
+      
+      case "check_interactions":
+        const interactionParams = CheckInteractionsParamsSchema.parse(args);
+        return await this.checkInteractions(interactionParams, signal);
+      
+      case "build_chunk_index":
+        const buildIndexParams = BuildChunkIndexParamsSchema.parse(args);
+        return await this.buildChunkIndex(buildIndexParams, language, signal);
+      
+      case "inspect_chunk_index":
+        const inspectIndexParams = InspectChunkIndexParamsSchema.parse(args);
+        return this.inspectChunkIndex(inspectIndexParams, language);
+      
+      case "prune_chunk_index":
+        const pruneIndexParams = PruneChunkIndexParamsSchema.parse(args);
+        return this.pruneChunkIndex(pruneIndexParams, language);
+      
+      default:
+        throw new McpError(
+          ErrorCode.MethodNotFound,
+          message(language, "error.unknown_tool", { name })
+        );
     }
+  }
 
-    return await response.json();
+  /**
+   * 附加在每个工具结果 _meta 中的运行信息（缓存命中统计）
+   */
+  private resultMeta() {
+    return {
+      cache: this.client.cacheStats(),
+      ...(this.embedder ? { embedding_cache: this.embedder.cacheStats() } : {})
+    };
   }
 
-  private async searchDrugLabels(params: DrugLabelSearchParams) {
-    const data = await this.makeRequest(params);
+  private async searchDrugLabels(params: DrugLabelSearchParams, signal?: AbortSignal) {
+    const result = await searchDrugLabels(this.client, params, { signal });
     
     return {
       content: [
         {
           type: "text",
-          text: JSON.stringify({
-            meta: data.meta,
-            results_count: data.results?.length || 0,
-            results: data.results || []
-          }, null, 2)
+          text: JSON.stringify(result, null, 2)
         }
       ]
     };
   }
 
-  private async getDrugAdverseReactions(drugName: string, limit: number) {
-    const searchQuery = `openfda.brand_name:"${drugName}" OR openfda.generic_name:"${drugName}" OR openfda.substance_name:"${drugName}"`;
+  private async getDrugAdverseReactions(params: AdverseReactionQueryParams, signal?: AbortSignal) {
+    const drugName = params.drug_name;
+    const expansion = this.expander.expandDrug(drugName);
+    const searchQuery = buildSearch(this.expander.drugQuery(expansion));
     
-    const data = await this.makeRequest({
+    const data = await this.client.searchLabels({
       search: searchQuery,
-      limit: limit,
+      limit: params.limit || 5,
       skip: 0
-    });
+    }, { signal });
 
-    const adverseReactions = data.results?.map(result => ({
-      drug_name: result.openfda?.brand_name?.[0] || result.openfda?.generic_name?.[0] || "Unknown",
-      manufacturer: result.openfda?.manufacturer_name?.[0] || "Unknown",
-      adverse_reactions: result.adverse_reactions || [],
-      contraindications: result.contraindications || []
-    })) || [];
+    const adverseReactions = params.mode === "frequencies"
+      ? data.results?.map(label => summarizeReactionFrequencies(label, params.min_percent)) || []
+      : data.results?.map(summarizeAdverseReactionSections) || [];
 
     return {
       content: [
@@ -360,6 +959,7 @@ class OpenFDAServer {
           type: "text",
           text: JSON.stringify({
             query: drugName,
+            query_expansion: { drug: this.expander.seedFromLabels(expansion, data.results || []) },
             total_results: data.meta?.results?.total || 0,
             adverse_reactions_data: adverseReactions
           }, null, 2)
@@ -368,22 +968,17 @@ class OpenFDAServer {
     };
   }
 
-  private async getDrugWarnings(drugName: string, limit: number) {
-    const searchQuery = `openfda.brand_name:"${drugName}" OR openfda.generic_name:"${drugName}" OR openfda.substance_name:"${drugName}"`;
+  private async getDrugWarnings(drugName: string, limit: number, signal?: AbortSignal) {
+    const expansion = this.expander.expandDrug(drugName);
+    const searchQuery = buildSearch(this.expander.drugQuery(expansion));
     
-    const data = await this.makeRequest({
+    const data = await this.client.searchLabels({
       search: searchQuery,
       limit: limit,
       skip: 0
-    });
+    }, { signal });
 
-    const warnings = data.results?.map(result => ({
-      drug_name: result.openfda?.brand_name?.[0] || result.openfda?.generic_name?.[0] || "Unknown",
-      manufacturer: result.openfda?.manufacturer_name?.[0] || "Unknown",
-      warnings: result.warnings || [],
-      precautions: result.precautions || [],
-      boxed_warning: result.boxed_warning || []
-    })) || [];
+    const warnings = data.results?.map(summarizeWarningSections) || [];
 
     return {
       content: [
@@ -391,6 +986,7 @@ class OpenFDAServer {
           type: "text", 
           text: JSON.stringify({
             query: drugName,
+            query_expansion: { drug: this.expander.seedFromLabels(expansion, data.results || []) },
             total_results: data.meta?.results?.total || 0,
             warnings_data: warnings
           }, null, 2)
@@ -399,21 +995,17 @@ class OpenFDAServer {
     };
   }
 
-  private async getDrugIndications(drugName: string, limit: number) {
-    const searchQuery = `openfda.brand_name:"${drugName}" OR openfda.generic_name:"${drugName}" OR openfda.substance_name:"${drugName}"`;
+  private async getDrugIndications(drugName: string, limit: number, signal?: AbortSignal) {
+    const expansion = this.expander.expandDrug(drugName);
+    const searchQuery = buildSearch(this.expander.drugQuery(expansion));
     
-    const data = await this.makeRequest({
+    const data = await this.client.searchLabels({
       search: searchQuery,
       limit: limit,
       skip: 0
-    });
+    }, { signal });
 
-    const indications = data.results?.map(result => ({
-      drug_name: result.openfda?.brand_name?.[0] || result.openfda?.generic_name?.[0] || "Unknown",
-      manufacturer: result.openfda?.manufacturer_name?.[0] || "Unknown", 
-      indications_and_usage: result.indications_and_usage || [],
-      dosage_and_administration: result.dosage_and_administration || []
-    })) || [];
+    const indications = data.results?.map(summarizeIndicationSections) || [];
 
     return {
       content: [
@@ -421,6 +1013,7 @@ class OpenFDAServer {
           type: "text",
           text: JSON.stringify({
             query: drugName,
+            query_expansion: { drug: this.expander.seedFromLabels(expansion, data.results || []) },
             total_results: data.meta?.results?.total || 0,
             indications_data: indications
           }, null, 2)
@@ -429,106 +1022,331 @@ class OpenFDAServer {
     };
   }
 
-  private async aePipelineRag(params: AEPipelineRAGParams): Promise<{ content: Array<{ type: string; text: string }> }> {
-    try {
-      // 1. 构建搜索参数
-      const searchParams: DrugLabelSearchParams = {
-        limit: params.filters?.limit || 50,
-        skip: 0
-      };
+  private async searchAdverseEvents(params: AdverseEventSearchParams, signal?: AbortSignal) {
+    const { skip, limit, ...filters } = params;
 
-      // 构建搜索查询
-      const searchTerms = [];
-      if (params.drug) {
-        searchTerms.push(`openfda.brand_name:"${params.drug}" OR openfda.generic_name:"${params.drug}" OR openfda.substance_name:"${params.drug}"`);
-      }
-      if (params.condition) {
-        searchTerms.push(`indications_and_usage:"${params.condition}"`);
-      }
-      if (params.query) {
-        // 将查询词添加到搜索中
-        const queryWords = params.query.split(/\s+/).filter(w => w.length > 2);
-        if (queryWords.length > 0) {
-          searchTerms.push(queryWords.join(' AND '));
+    const data = await this.client.searchEvents({
+      search: buildAdverseEventSearch(filters),
+      limit,
+      skip
+    }, { signal });
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            query: filters,
+            total_results: data.meta?.results?.total || 0,
+            adverse_events_data: data.results?.map(summarizeAdverseEvent) || []
+          }, null, 2)
         }
-      }
+      ]
+    };
+  }
+
+  private async countAdverseEventReactions(params: AdverseEventReactionCountParams, signal?: AbortSignal) {
+    const { limit, ...filters } = params;
+
+    const data = await this.client.countEvents({
+      search: buildAdverseEventSearch(filters),
+      count: "patient.reaction.reactionmeddrapt.exact",
+      limit
+    }, { signal });
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            query: params.drug,
+            filters,
+            adverse_reactions_data: summarizeReactionCounts(params.drug, data.results || [])
+          }, null, 2)
+        }
+      ]
+    };
+  }
+
+  private async getDrugRecalls(params: DrugRecallParams, signal?: AbortSignal) {
+    const { skip, limit, ...filters } = params;
+    const expansion = this.expander.expandDrug(filters.drug_name);
 
-      if (searchTerms.length > 0) {
-        searchParams.search = searchTerms.join(' AND ');
-      } else if (params.drug) {
-        // 如果只有药物名，使用简单搜索
-        searchParams.search = params.drug;
+    const data = await this.client.searchRecalls({
+      search: buildRecallSearch(filters, expansion.terms),
+      limit,
+      skip
+    }, { signal });
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            query: filters,
+            query_expansion: { drug: expansion },
+            total_results: data.meta?.results?.total || 0,
+            recalls_data: data.results?.map(summarizeRecall) || []
+          }, null, 2)
+        }
+      ]
+    };
+  }
+
+  private async lookupNdc(params: NdcLookupParams, language: Language, signal?: AbortSignal) {
+    const search = buildNdcSearch(params.ndc);
+    if (!search) {
+      throw new McpError(ErrorCode.InvalidParams, message(language, "error.unrecognized_ndc", { ndc: params.ndc }));
+    }
+
+    const data = await this.client.searchNdc({
+      search,
+      limit: params.limit,
+      skip: 0
+    }, { signal });
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            query: params.ndc,
+            total_results: data.meta?.results?.total || 0,
+            ndc_data: data.results?.map(product => summarizeNdcProduct(product, params.ndc)) || []
+          }, null, 2)
+        }
+      ]
+    };
+  }
+
+  private async getDrugApprovalHistory(params: DrugApprovalParams, signal?: AbortSignal) {
+    const expansion = params.drug_name ? this.expander.expandDrug(params.drug_name) : undefined;
+    const data = await this.client.searchApplications({
+      search: buildApprovalSearch(params, expansion?.terms),
+      limit: params.limit,
+      skip: 0
+    }, { signal });
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({
+            query: params.application_number || params.drug_name,
+            ...(expansion ? { query_expansion: { drug: expansion } } : {}),
+            total_results: data.meta?.results?.total || 0,
+            applications: data.results?.map(summarizeApplication) || []
+          }, null, 2)
+        }
+      ]
+    };
+  }
+
+  private async checkDrugShortage(params: DrugShortageParams, signal?: AbortSignal) {
+    const result = await checkDrugShortage(this.client, params, { signal });
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(result, null, 2)
+        }
+      ]
+    };
+  }
+
+  private async compareDrugLabels(params: CompareDrugLabelsParams, signal?: AbortSignal) {
+    const result = await compareDrugLabels(this.client, params, { signal });
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(result, null, 2)
+        }
+      ]
+    };
+  }
+
+  private async checkInteractions(params: CheckInteractionsParams, signal?: AbortSignal) {
+    const result = await checkInteractions(this.client, params, { signal });
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(result, null, 2)
+        }
+      ]
+    };
+  }
+
+  private requireChunkIndex(language: Language): ChunkIndex {
+    if (!this.chunkIndex) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        message(language, "error.chunk_index_not_configured")
+      );
+    }
+    return this.chunkIndex;
+  }
+
+  private async buildChunkIndex(params: BuildChunkIndexParams, language: Language, signal?: AbortSignal) {
+    const result = await buildChunkIndex(this.client, this.requireChunkIndex(language), params, { signal });
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(result, null, 2)
+        }
+      ]
+    };
+  }
+
+  private inspectChunkIndex(params: InspectChunkIndexParams, language: Language) {
+    const index = this.requireChunkIndex(language);
+    const labels = index.find({ drug: params.drug });
+    const result = {
+      index: index.stats(),
+      matching_labels: labels.length,
+      labels: labels.slice(0, params.limit).map(({ chunks, names, ...label }) => ({
+        ...label,
+        chunks: chunks.length
+      }))
+    };
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(result, null, 2)
+        }
+      ]
+    };
+  }
+
+  private pruneChunkIndex(params: PruneChunkIndexParams, language: Language) {
+    const index = this.requireChunkIndex(language);
+    const removed = index.prune(params);
+    const result = {
+      dry_run: params.dry_run,
+      removed: removed.length,
+      set_ids: removed,
+      index: index.stats()
+    };
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(result, null, 2)
+        }
+      ]
+    };
+  }
+
+  /**
+   * 按名称选择检索策略；semantic/hybrid 需要服务端配置向量化模型
+   */
+  private retriever(name: AEPipelineRAGParams["retriever"], language: Language): Retriever {
+    if (name === "bm25" || name === "keyword") {
+      return RETRIEVERS[name];
+    }
+    if (!this.embedder) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        message(language, "error.retriever_requires_embeddings", { retriever: name })
+      );
+    }
+    const semantic = createSemanticRetriever(this.embedder);
+    return name === "semantic" ? semantic : createHybridRetriever([RETRIEVERS.bm25, semantic]);
+  }
+
+  private async aePipelineRag(params: AEPipelineRAGParams, language: Language, signal?: AbortSignal): Promise<{ content: Array<{ type: string; text: string }> }> {
+    // 药品名称同义词扩展；病症与查询中的口语表述映射为临床术语
+    const queryExpansion: QueryExpansionReport = {
+      drug: params.drug ? this.expander.expandDrug(params.drug) : undefined,
+      condition: params.condition ? this.expander.expandCondition(params.condition) : undefined,
+      query: params.query ? this.expander.expandCondition(params.query) : undefined
+    };
+
+    const emptyResult = (summary: string) => {
+      const result: RAGResult = {
+        source: "openfda",
+        query: params.query,
+        drug: params.drug,
+        condition: params.condition,
+        query_expansion: queryExpansion,
+        top_chunks: [],
+        summary,
+        citations: []
+      };
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify(result, null, 2)
+        }]
+      };
+    };
+
+    try {
+      const allChunks: TextChunk[] = [];
+
+      if (params.source === "index") {
+        // 1-3. 从本地分块索引读取，不访问网络
+        const labels = this.requireChunkIndex(language).find({ drug: queryExpansion.drug?.terms, limit: params.filters?.limit || 50 });
+        labels.forEach(label => allChunks.push(...label.chunks));
+
+        if (allChunks.length === 0) {
+          return emptyResult(message(language, "rag.index_empty"));
+        }
       } else {
-        // 没有具体搜索条件，返回空结果
-        const result: RAGResult = {
-          source: "openfda",
-          query: params.query,
-          drug: params.drug,
-          condition: params.condition,
-          top_chunks: [],
-          summary: "请提供药物名称或具体查询条件以获取 FDA 标签信息。",
-          citations: []
-        };
-        
-        return {
-          content: [{
-            type: "text",
-            text: JSON.stringify(result, null, 2)
-          }]
+        // 1. 构建搜索参数
+        const searchParams: OpenFDAQueryParams = {
+          limit: params.filters?.limit || 50,
+          skip: 0
         };
-      }
 
-      // 2. 抓取数据
-      const data = await this.makeRequest(searchParams);
-      
-      if (!data.results || data.results.length === 0) {
-        const result: RAGResult = {
-          source: "openfda",
-          query: params.query,
-          drug: params.drug,
-          condition: params.condition,
-          top_chunks: [],
-          summary: "未找到匹配的 FDA 药物标签数据。请尝试调整搜索条件。",
-          citations: []
-        };
-        
-        return {
-          content: [{
-            type: "text",
-            text: JSON.stringify(result, null, 2)
-          }]
-        };
-      }
+        // 构建搜索查询；查询中的口语病症表述与其临床术语任一出现即可
+        const searchQuery = and(
+          queryExpansion.drug ? this.expander.drugQuery(queryExpansion.drug) : null,
+          queryExpansion.condition ? this.expander.conditionQuery('indications_and_usage', queryExpansion.condition) : null,
+          queryExpansion.query ? this.expander.textQuery(queryExpansion.query) : null
+        );
 
-      // 3. 提取和分块文本
-      const allChunks: TextChunk[] = [];
-      
-      for (const label of data.results) {
-        const labelText = this.extractLabelText(label);
-        if (labelText.trim().length > 0) {
-          const labelId = label.id || label.openfda?.spl_id?.[0] || `label_${Math.random().toString(36).substr(2, 9)}`;
-          const drugName = label.openfda?.brand_name?.[0] || label.openfda?.generic_name?.[0] || 'Unknown Drug';
-          
-          const chunks = chunkText(
-            labelText,
-            1000,
-            200,
-            labelId,
-            {
-              drugName,
-              manufacturer: label.openfda?.manufacturer_name?.[0],
-              type: 'fda_label',
-              hasWarnings: !!(label.warnings || label.boxed_warning),
-              hasAdverseReactions: !!label.adverse_reactions
-            }
-          );
-          
-          allChunks.push(...chunks);
+        if (!searchQuery) {
+          // 没有具体搜索条件，返回空结果
+          return emptyResult(message(language, "rag.missing_criteria"));
+        }
+        searchParams.search = buildSearch(searchQuery);
+
+        // 2. 抓取数据
+        const data = await this.client.searchLabels(searchParams, { signal });
+
+        if (!data.results || data.results.length === 0) {
+          return emptyResult(message(language, "rag.no_labels"));
+        }
+
+        if (queryExpansion.drug) {
+          queryExpansion.drug = this.expander.seedFromLabels(queryExpansion.drug, data.results);
+        }
+
+        // 3. 解析章节结构并分块；配置了分块索引时写入索引，未变化的标签复用已有分块
+        this.chunkIndex?.upsertLabels(data.results);
+        for (const label of data.results) {
+          allChunks.push(...(this.chunkIndex?.chunksFor(label) ?? chunkDrugLabel(label)));
         }
       }
 
       // 4. 构建查询关键词
-      const queryText = [params.query, params.drug, params.condition]
+      const queryText = [
+        params.query,
+        ...(queryExpansion.query?.terms.slice(1) || []),
+        ...(queryExpansion.drug?.terms || []),
+        ...(queryExpansion.condition?.terms || [])
+      ]
         .filter(Boolean)
         .join(' ');
       
@@ -538,12 +1356,20 @@ class OpenFDAServer {
         '不良反应', '副作用', '警告', '禁忌症', '安全性'
       ];
 
-      // 5. 检索和排序
-      const topChunks = rankAndPickTop(
+      // 5. 检索和排序；按查询意图加权章节
+      const sectionBoosts = params.section_boost && params.query
+        ? sectionBoostsForQuery(params.query)
+        : undefined;
+      const retriever = sectionBoosts && sectionBoosts.intents.length > 0
+        ? withSectionBoosts(this.retriever(params.retriever, language), sectionBoosts.boosts)
+        : this.retriever(params.retriever, language);
+      const topChunks = await rankAndPickTop(
         allChunks,
         queryText,
         params.top_k,
-        extraKeywords
+        extraKeywords,
+        retriever,
+        { signal }
       );
 
       // 6. 生成摘要
@@ -552,7 +1378,12 @@ class OpenFDAServer {
         query: params.query,
         drug: params.drug,
         condition: params.condition,
-        maxLength: 1200
+        maxLength: 1200,
+        language,
+        keywords: [
+          ...(queryExpansion.query?.terms.slice(1) || []),
+          ...(queryExpansion.condition?.terms.slice(1) || [])
+        ]
       });
 
       // 7. 提取引用
@@ -564,6 +1395,8 @@ class OpenFDAServer {
         query: params.query,
         drug: params.drug,
         condition: params.condition,
+        query_expansion: queryExpansion,
+        section_boosts: sectionBoosts && sectionBoosts.intents.length > 0 ? sectionBoosts : undefined,
         top_chunks: topChunks.map(chunk => ({
           ...chunk,
           text: chunk.text.length > 1200 ? chunk.text.slice(0, 1200) + '...' : chunk.text
@@ -580,112 +1413,35 @@ class OpenFDAServer {
       };
       
     } catch (error) {
+      if (
+        error instanceof OpenFDAQuotaError ||
+        error instanceof QueryBuilderError ||
+        error instanceof SearchSyntaxError ||
+        error instanceof McpError
+      ) {
+        throw error;
+      }
       console.error("Error in ae_pipeline_rag:", error);
       throw new McpError(
         ErrorCode.InternalError,
-        `RAG pipeline failed: ${error instanceof Error ? error.message : String(error)}`
+        message(language, "error.rag_failed", { message: error instanceof Error ? error.message : String(error) })
       );
     }
   }
 
-  private extractLabelText(label: any): string {
-    const textParts: string[] = [];
-    
-    // 基本信息
-    const drugName = label.openfda?.brand_name?.[0] || label.openfda?.generic_name?.[0] || 'Unknown Drug';
-    const manufacturer = label.openfda?.manufacturer_name?.[0] || 'Unknown Manufacturer';
-    textParts.push(`Drug: ${drugName}`);
-    textParts.push(`Manufacturer: ${manufacturer}`);
-    
-    // 适应症和用法
-    if (label.indications_and_usage) {
-      textParts.push("=== INDICATIONS AND USAGE ===");
-      if (Array.isArray(label.indications_and_usage)) {
-        textParts.push(label.indications_and_usage.join('\n'));
-      } else {
-        textParts.push(label.indications_and_usage);
-      }
-    }
-    
-    // 剂量和给药方法
-    if (label.dosage_and_administration) {
-      textParts.push("=== DOSAGE AND ADMINISTRATION ===");
-      if (Array.isArray(label.dosage_and_administration)) {
-        textParts.push(label.dosage_and_administration.join('\n'));
-      } else {
-        textParts.push(label.dosage_and_administration);
-      }
-    }
-    
-    // 禁忌症（重点）
-    if (label.contraindications) {
-      textParts.push("=== CONTRAINDICATIONS ===");
-      if (Array.isArray(label.contraindications)) {
-        textParts.push(label.contraindications.join('\n'));
-      } else {
-        textParts.push(label.contraindications);
-      }
-    }
-    
-    // 警告和注意事项（重点）
-    if (label.warnings) {
-      textParts.push("=== WARNINGS ===");
-      if (Array.isArray(label.warnings)) {
-        textParts.push(label.warnings.join('\n'));
-      } else {
-        textParts.push(label.warnings);
-      }
-    }
-    
-    // 黑框警告（最重要）
-    if (label.boxed_warning) {
-      textParts.push("=== BOXED WARNING ===");
-      if (Array.isArray(label.boxed_warning)) {
-        textParts.push(label.boxed_warning.join('\n'));
-      } else {
-        textParts.push(label.boxed_warning);
-      }
-    }
-    
-    // 注意事项
-    if (label.precautions) {
-      textParts.push("=== PRECAUTIONS ===");
-      if (Array.isArray(label.precautions)) {
-        textParts.push(label.precautions.join('\n'));
-      } else {
-        textParts.push(label.precautions);
-      }
-    }
-    
-    // 不良反应（重点）
-    if (label.adverse_reactions) {
-      textParts.push("=== ADVERSE REACTIONS ===");
-      if (Array.isArray(label.adverse_reactions)) {
-        textParts.push(label.adverse_reactions.join('\n'));
-      } else {
-        textParts.push(label.adverse_reactions);
-      }
-    }
-    
-    // 药物相互作用
-    if (label.drug_interactions) {
-      textParts.push("=== DRUG INTERACTIONS ===");
-      if (Array.isArray(label.drug_interactions)) {
-        textParts.push(label.drug_interactions.join('\n'));
-      } else {
-        textParts.push(label.drug_interactions);
-      }
-    }
-    
-    return textParts.join('\n\n');
-  }
-
   async run() {
+    // 进程退出（含 SIGINT 后的 process.exit）时统一写出各缓存
+    process.once("exit", () => this.flush());
+    process.once("SIGINT", async () => {
+      await this.server.close();
+      process.exit(0);
+    });
+
     const transport = new StdioServerTransport();
     await this.server.connect(transport);
     console.error("OpenFDA Drug Label MCP server running on stdio");
   }
 }
 
-const server = new OpenFDAServer();
+const server = OpenFDAServer.fromConfig();
 server.run().catch(console.error);
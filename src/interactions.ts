@@ -0,0 +1,137 @@
+/**
+ * 用药清单的药物相互作用筛查
+ * 在每个标签的相互作用、禁忌与警告章节中查找清单中其他药品的名称及其同义词
+ * MCP 工具与 HTTP 路由共用
+ */
+
+import { ComparedLabel, fetchDrugLabel } from "./label-comparison.js";
+import { labelDrugName, labelSectionText } from "./label-sections.js";
+import { OpenFDAClient, RequestOptions } from "./openfda-client.js";
+import { CheckInteractionsParams } from "./schemas.js";
+import { DrugLabel } from "./types.js";
+
+// PLR 格式标签的警告章节为 warnings_and_cautions
+const SCANNED_SECTIONS = ["drug_interactions", "contraindications", "warnings", "warnings_and_cautions"];
+
+// 每对药品、每个方向最多引用的句子数
+const MAX_SENTENCES_PER_PAIR = 5;
+
+type SynonymType = "name" | "brand_name" | "generic_name" | "substance_name" | "pharm_class";
+
+interface Synonym {
+  term: string;
+  type: SynonymType;
+  pattern: RegExp;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * 药品的可匹配名称：查询名、品牌名、通用名、活性成分与药理分类（去掉 "[EPC]" 等后缀）
+ */
+export function drugSynonyms(query: string, label: DrugLabel | undefined): Synonym[] {
+  const openfda = label?.openfda;
+  const candidates: Array<[string, SynonymType]> = [
+    [query, "name"],
+    ...(openfda?.brand_name || []).map((name): [string, SynonymType] => [name, "brand_name"]),
+    ...(openfda?.generic_name || []).map((name): [string, SynonymType] => [name, "generic_name"]),
+    ...(openfda?.substance_name || []).map((name): [string, SynonymType] => [name, "substance_name"]),
+    ...[
+      ...(openfda?.pharm_class_epc || []),
+      ...(openfda?.pharm_class_moa || []),
+      ...(openfda?.pharm_class_cs || []),
+      ...(openfda?.pharm_class_pe || []),
+    ].map((name): [string, SynonymType] => [name.replace(/\s*\[[A-Za-z]+\]\s*$/, ""), "pharm_class"]),
+  ];
+
+  const seen = new Set<string>();
+  const synonyms: Synonym[] = [];
+  for (const [name, type] of candidates) {
+    const term = name.trim().toLowerCase();
+    if (term.length < 3 || seen.has(term)) continue;
+    seen.add(term);
+    // 允许复数形式，如 "monoamine oxidase inhibitors"
+    synonyms.push({ term, type, pattern: new RegExp(`\\b${escapeRegExp(term)}(?:e?s)?\\b`, "i") });
+  }
+  return synonyms;
+}
+
+function sentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+(?=[A-Z(•])/)
+    .map(sentence => sentence.trim())
+    .filter(sentence => sentence.length > 0);
+}
+
+/**
+ * 在 label 的扫描章节中查找提及 other 的句子
+ */
+function scanLabel(label: DrugLabel, otherSynonyms: Synonym[], ownTerms: Set<string>) {
+  // 与本药自身同义词重合的名称（如同类药物共有的药理分类）不视为提及其他药品
+  const synonyms = otherSynonyms.filter(synonym => !ownTerms.has(synonym.term));
+  const citations: Array<{ section: string; sentence: string; matched_term: string; match_type: SynonymType }> = [];
+
+  for (const section of SCANNED_SECTIONS) {
+    const text = labelSectionText(label, section);
+    if (!text) continue;
+
+    for (const sentence of sentences(text)) {
+      const synonym = synonyms.find(candidate => candidate.pattern.test(sentence));
+      if (!synonym) continue;
+      citations.push({ section, sentence, matched_term: synonym.term, match_type: synonym.type });
+      if (citations.length >= MAX_SENTENCES_PER_PAIR) return citations;
+    }
+  }
+
+  return citations;
+}
+
+/**
+ * 取回每个药品的标签，两两检查标签中是否提及对方
+ */
+export async function checkInteractions(client: OpenFDAClient, params: CheckInteractionsParams, options: RequestOptions = {}) {
+  const labels: ComparedLabel[] = await Promise.all(
+    params.medications.map(name => fetchDrugLabel(client, name, options))
+  );
+  const synonyms = labels.map(({ query, label }) => drugSynonyms(query, label));
+
+  const pairs = [];
+  for (let i = 0; i < labels.length; i++) {
+    for (let j = i + 1; j < labels.length; j++) {
+      const flags = [];
+      for (const [source, target] of [[i, j], [j, i]]) {
+        const label = labels[source].label;
+        if (!label) continue;
+
+        const ownTerms = new Set(synonyms[source].map(synonym => synonym.term));
+        for (const citation of scanLabel(label, synonyms[target], ownTerms)) {
+          flags.push({
+            label_drug: labels[source].query,
+            mentioned_drug: labels[target].query,
+            set_id: label.set_id,
+            ...citation,
+          });
+        }
+      }
+
+      pairs.push({
+        drugs: [labels[i].query, labels[j].query],
+        flagged: flags.length > 0,
+        flags,
+      });
+    }
+  }
+
+  return {
+    medications: labels.map(({ query, label }) => ({
+      query,
+      found: label !== undefined,
+      drug_name: label ? labelDrugName(label) : undefined,
+      set_id: label?.set_id,
+    })),
+    pairs_checked: pairs.length,
+    interactions: pairs,
+  };
+}
@@ -0,0 +1,200 @@
+/**
+ * 多药品标签并列比较
+ * MCP 工具与 HTTP 路由共用
+ */
+
+import { OpenFDAError } from "./errors.js";
+import { labelDrugName, labelSectionText } from "./label-sections.js";
+import { OpenFDAClient, RequestOptions } from "./openfda-client.js";
+import { buildSearch, drugNameQuery } from "./query-builder.js";
+import { CompareDrugLabelsParams, LabelComparisonSection } from "./schemas.js";
+import { DrugLabel } from "./types.js";
+
+// 并列展示的章节原文截断长度，避免多个标签叠加后结果过大
+const MAX_SECTION_TEXT_LENGTH = 1500;
+
+// 列举句中不是不良反应名称的常见片段
+const NON_REACTION_TERMS = new Set(["placebo", "patients", "other", "others", "total", "the following", "etc"]);
+
+export interface ComparedLabel {
+  query: string;
+  label?: DrugLabel;
+}
+
+// 缺失的章节以 null 表示，保证每个药品在结果中都有对应项
+function truncate(text: string | undefined): string | null {
+  if (text === undefined) return null;
+  if (text.length <= MAX_SECTION_TEXT_LENGTH) return text;
+  return text.slice(0, MAX_SECTION_TEXT_LENGTH) + "…";
+}
+
+/**
+ * 从 use_in_specific_populations 等合并章节中截取编号小节，如 "8.1 Pregnancy"
+ */
+function subsectionText(text: string | undefined, title: string): string | undefined {
+  if (!text) return undefined;
+  const match = text.match(new RegExp(`\\b\\d+\\.\\d+\\s+${title}\\b([\\s\\S]*?)(?=\\b\\d+\\.\\d+\\s+[A-Z]|$)`, "i"));
+  return match ? match[1].trim() : undefined;
+}
+
+function pregnancyText(label: DrugLabel): string | undefined {
+  return labelSectionText(label, "pregnancy")
+    || subsectionText(labelSectionText(label, "use_in_specific_populations"), "Pregnancy")
+    // 非处方药标签只有合并的妊娠/哺乳提示
+    || labelSectionText(label, "pregnancy_or_breast_feeding");
+}
+
+function lactationText(label: DrugLabel): string | undefined {
+  const populations = labelSectionText(label, "use_in_specific_populations");
+  return labelSectionText(label, "lactation")
+    || labelSectionText(label, "nursing_mothers")
+    || subsectionText(populations, "Lactation")
+    || subsectionText(populations, "Nursing Mothers")
+    || labelSectionText(label, "pregnancy_or_breast_feeding");
+}
+
+/**
+ * 旧版标签中的妊娠分级（A/B/C/D/X）；PLLR 格式标签已不再给出分级
+ */
+function pregnancyCategory(label: DrugLabel): string | undefined {
+  const text = [pregnancyText(label), labelSectionText(label, "use_in_specific_populations")].join("\n");
+  return text.match(/pregnancy\s+category\s*:?\s*([ABCDX])\b/i)?.[1].toUpperCase();
+}
+
+/**
+ * 将禁忌症章节拆为条目：优先按项目符号，否则按句子
+ */
+export function contraindicationItems(text: string | undefined): string[] {
+  if (!text) return [];
+
+  const body = text
+    .replace(/^\s*(\d+\s+)?CONTRAINDICATIONS\s*/i, "")
+    // 去掉 "(5.1)" 之类的章节交叉引用
+    .replace(/\(\s*[\d.,\s]+\)/g, "");
+  let items = body.split(/\s*[•●▪]\s*/);
+  if (items.filter(item => item.trim()).length < 2) {
+    items = body.split(/(?<=\.)\s+(?=[A-Z])/);
+  }
+
+  return items.map(item => item.trim()).filter(item => item.length > 0);
+}
+
+/**
+ * 规范化不良反应名称：去掉 HTML、括注与首尾连接词，统一小写；不像反应名称的片段返回 undefined
+ */
+export function normalizeReactionTerm(value: string): string | undefined {
+  const term = value
+    .replace(/<[^>]+>/g, " ")
+    .replace(/\([^)]*\)/g, " ")
+    .replace(/^\s*(and|or)\s+/i, "")
+    .replace(/[.;:*†‡]+$/g, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .toLowerCase();
+
+  if (term.length < 3 || /\d/.test(term) || term.split(" ").length > 4) return undefined;
+  if (!/^[a-z][a-z \-']*$/.test(term) || NON_REACTION_TERMS.has(term)) return undefined;
+  return term;
+}
+
+/**
+ * 从不良反应章节的列举句（至少三项逗号分隔）与表格首列中提取反应名称
+ */
+export function adverseReactionTerms(label: DrugLabel): string[] {
+  const terms = new Set<string>();
+
+  const text = labelSectionText(label, "adverse_reactions") || "";
+  for (const sentence of text.split(/(?<=[.;])\s+/)) {
+    const parts = sentence.split(/,\s*/);
+    if (parts.length < 3) continue;
+    // 第一项只保留引导词之后的部分，如 "The most common adverse reactions were nausea"
+    parts[0] = parts[0].split(/\b(?:were|are|was|is|include[sd]?|including)\b|:/i).pop() || "";
+    const last = parts.length - 1;
+    parts.splice(last, 1, ...parts[last].split(/\s+(?:and|or)\s+/i));
+    parts.map(normalizeReactionTerm).forEach(term => term && terms.add(term));
+  }
+
+  const tables = label.adverse_reactions_table || [];
+  for (const table of tables) {
+    for (const match of table.matchAll(/<tr[^>]*>\s*<td[^>]*>([\s\S]*?)<\/td>/gi)) {
+      const term = normalizeReactionTerm(match[1]);
+      if (term) terms.add(term);
+    }
+  }
+
+  return [...terms];
+}
+
+/**
+ * 按药品名称取一份标签；查不到时 label 为 undefined
+ */
+export async function fetchDrugLabel(client: OpenFDAClient, drugName: string, options: RequestOptions = {}): Promise<ComparedLabel> {
+  try {
+    const data = await client.searchLabels({
+      search: buildSearch(drugNameQuery(drugName)),
+      limit: 1,
+      skip: 0,
+    }, options);
+    return { query: drugName, label: data.results?.[0] };
+  } catch (error) {
+    // 某个药品查不到标签时仍处理其余药品
+    if (error instanceof OpenFDAError && error.status === 404) {
+      return { query: drugName };
+    }
+    throw error;
+  }
+}
+
+function compareSection(labels: Array<Required<ComparedLabel>>, section: LabelComparisonSection) {
+  const byDrug = <T>(value: (label: DrugLabel) => T) =>
+    Object.fromEntries(labels.map(({ query, label }) => [query, value(label)]));
+
+  switch (section) {
+    case "boxed_warning":
+      return byDrug(label => {
+        const text = labelSectionText(label, "boxed_warning");
+        return { present: text !== undefined, text: truncate(text) };
+      });
+    case "contraindications":
+      return byDrug(label => contraindicationItems(labelSectionText(label, "contraindications")));
+    case "pregnancy":
+      return byDrug(label => ({ category: pregnancyCategory(label) ?? null, text: truncate(pregnancyText(label)) }));
+    case "lactation":
+      return byDrug(label => truncate(lactationText(label)));
+    case "adverse_reactions": {
+      const termsByDrug = labels.map(({ query, label }) => ({ query, terms: adverseReactionTerms(label) }));
+      const shared = termsByDrug.length > 0
+        ? termsByDrug[0].terms.filter(term => termsByDrug.every(({ terms }) => terms.includes(term)))
+        : [];
+      return {
+        shared,
+        unique: Object.fromEntries(termsByDrug.map(({ query, terms }) => [
+          query,
+          terms.filter(term => termsByDrug.every(other => other.query === query || !other.terms.includes(term))),
+        ])),
+      };
+    }
+    default:
+      return byDrug(label => truncate(labelSectionText(label, section)));
+  }
+}
+
+/**
+ * 为每个药品取一份标签，按所选章节生成并列比较
+ */
+export async function compareDrugLabels(client: OpenFDAClient, params: CompareDrugLabelsParams, options: RequestOptions = {}) {
+  const results = await Promise.all(params.drug_names.map(name => fetchDrugLabel(client, name, options)));
+  const found = results.filter((result): result is Required<ComparedLabel> => result.label !== undefined);
+
+  return {
+    drugs: results.map(({ query, label }) => ({
+      query,
+      found: label !== undefined,
+      drug_name: label ? labelDrugName(label) : undefined,
+      manufacturer: label?.openfda?.manufacturer_name?.[0],
+      set_id: label?.set_id,
+      effective_time: label?.effective_time,
+    })),
+    comparison: Object.fromEntries(params.sections.map(section => [section, compareSection(found, section)])),
+  };
+}
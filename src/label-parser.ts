@@ -0,0 +1,443 @@
+/**
+ * 药品标签章节解析
+ * 将扁平化的章节文本拆分为编号小节（如 "5.1 Hepatotoxicity"），并识别不良反应表格
+ * *_table 字段中的 HTML 表格解析为结构化行；RAG 分块与各章节工具均基于该结构
+ */
+
+import { LABEL_TEXT_SECTIONS, labelDrugName, labelSectionText } from "./label-sections.js";
+import { TextChunk, TokenChunkOptions, chunkTextByTokens } from "./rag-utils.js";
+import { DrugLabel } from "./types.js";
+
+export interface LabelSubsection {
+  number: string;
+  title: string;
+  text: string;
+}
+
+export interface LabelTableRow {
+  /** 表格中跨列的分组行，如 "Gastrointestinal Disorders" */
+  group?: string;
+  /** 首列，通常为不良反应名称 */
+  label: string;
+  /** 其余各列，与 columns.slice(1) 对应 */
+  values: string[];
+}
+
+export interface LabelTable {
+  caption?: string;
+  /** html 来自 *_table 字段，text 为从章节正文中识别出的表格 */
+  source: "html" | "text";
+  /** 表格所在的小节编号（仅正文表格） */
+  subsection?: string;
+  columns: string[];
+  rows: LabelTableRow[];
+  is_adverse_reaction_table: boolean;
+}
+
+export interface ParsedSection {
+  field: string;
+  number?: string;
+  title?: string;
+  /** 第一个编号小节之前的正文 */
+  intro: string;
+  subsections: LabelSubsection[];
+  tables: LabelTable[];
+}
+
+// 小节标题中允许出现的小写连接词
+const TITLE_CONNECTORS = new Set([
+  "a", "an", "and", "as", "at", "by", "during", "for", "from", "in", "including",
+  "of", "on", "or", "the", "to", "versus", "vs", "with", "without",
+]);
+const MAX_TITLE_WORDS = 12;
+
+const SUBSECTION_NUMBER = /(?:^|\s)(\d{1,2}\.\d{1,2}(?:\.\d{1,2})?)\s+(?=[A-Z])/g;
+const SECTION_HEADING = /^\s*(?:(\d{1,2})\s+)?([A-Z][A-Z0-9 ,&\/\-()]*[A-Z)])(?=\s|$)/;
+
+// 表格数值单元格，如 "12"、"3.5%"、"<1"、"12 (5%)"
+const NUMERIC_CELL = /^[<≤≥>]?\s*\d+(?:\.\d+)?\s*%?(?:\s*\(\s*\d+(?:\.\d+)?\s*%?\s*\))?$/;
+const TEXT_TABLE_CAPTION = /\bTable\s+(\d+)\s*[:.]?\s*/g;
+const TEXT_TABLE_ROW = /([A-Z][A-Za-z'\/\-]*(?:\s+[A-Za-z'\/\-()]+){0,5}?)\s+((?:[<≤≥>]?\d+(?:\.\d+)?%?\s+){0,4}[<≤≥>]?\d+(?:\.\d+)?%?)(?=\s+[A-Z]|\s*$)/g;
+const MAX_TEXT_TABLE_LENGTH = 3000;
+// 扁平化表头中的列名（药物组、对照组），出现在第一行名称中时说明表头被并入了该行
+const TEXT_TABLE_HEADER_WORD = /^(?:placebo|vehicle|comparator|control|drug|total|%|n=\d+|\(n=\d+\))$/i;
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: "\"",
+  apos: "'",
+  nbsp: " ",
+  ge: "≥",
+  le: "≤",
+  plusmn: "±",
+  deg: "°",
+  micro: "µ",
+  mdash: "—",
+  ndash: "–",
+};
+
+function normalizeWhitespace(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === "#") {
+      const value = code[1].toLowerCase() === "x" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(value) ? String.fromCodePoint(value) : entity;
+    }
+    return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+function htmlToText(html: string): string {
+  return normalizeWhitespace(decodeEntities(html.replace(/<br\s*\/?>/gi, " ").replace(/<[^>]+>/g, " ")));
+}
+
+function isCapitalized(word: string): boolean {
+  return /^[(\["']?[A-Z]/.test(word);
+}
+
+// 全大写缩写或品牌名（ALT、QT、LIPITOR），既可能属于标题也可能是正文句首，不据此判断标题是否延续
+function isAcronym(word: string): boolean {
+  return /^[(\["']?[A-Z][A-Z0-9\-]+[)\]"',;:]?$/.test(word);
+}
+
+function isNeutralWord(word: string): boolean {
+  return TITLE_CONNECTORS.has(word.toLowerCase()) || /^[\d.,\-–]+$/.test(word);
+}
+
+/**
+ * 从编号之后的文本中截取小节标题：标题由首字母大写的词与连接词组成，
+ * 遇到“大写词 + 小写实词”（正文句首）时结束；判断时跳过缩写，
+ * 使 "Hepatotoxicity Elevations of ALT or AST have been ..." 在 "Elevations" 之前结束
+ */
+function readTitle(text: string): string {
+  const words = text.split(/\s+/).slice(0, MAX_TITLE_WORDS + 1);
+  const title: string[] = [];
+  let pending: string[] = [];
+
+  for (let i = 0; i < words.length && title.length < MAX_TITLE_WORDS; i++) {
+    const word = words[i];
+    if (isNeutralWord(word)) {
+      pending.push(word);
+      continue;
+    }
+    if (!isCapitalized(word)) break;
+
+    const rest = words.slice(i + 1);
+    const nextIndex = rest.findIndex(candidate => !isNeutralWord(candidate) && !isAcronym(candidate));
+    const startsBody = title.length > 0 && nextIndex !== -1 && !isCapitalized(rest[nextIndex]);
+    // 缩写紧跟在当前词之后（"Myopathy LIPITOR may ..."）时正文从缩写开始，当前词仍属于标题；
+    // 缩写经连接词与当前词相连（"Elevations of ALT ..."）时当前词已是正文
+    if (startsBody && (isAcronym(word) || !isAcronym(rest[0]))) break;
+
+    title.push(...pending, word);
+    pending = [];
+    if (startsBody) break;
+    // 以冒号或句号结尾的标题
+    if (/[:.]$/.test(word)) break;
+  }
+
+  return title.join(" ");
+}
+
+function splitHeading(field: string, text: string): { number?: string; title?: string; body: string } {
+  const match = text.match(SECTION_HEADING);
+  // 只有带编号或包含章节名称的大写前缀才视为标题，避免误删正文中的缩写
+  const keyword = field.split("_")[0].toUpperCase();
+  if (!match || (!match[1] && !match[2].includes(keyword))) {
+    return { body: text };
+  }
+  return { number: match[1], title: match[2].trim(), body: text.slice(match[0].length).trim() };
+}
+
+/**
+ * 拆分编号小节；只接受与章节编号（或第一个小节）主编号一致的编号，排除 "2.5 mg" 之类的数值
+ */
+export function splitSubsections(text: string, sectionNumber?: string): { intro: string; subsections: LabelSubsection[] } {
+  const headers: Array<{ number: string; title: string; start: number; bodyStart: number }> = [];
+  let major = sectionNumber;
+
+  for (const match of text.matchAll(SUBSECTION_NUMBER)) {
+    const number = match[1];
+    if (major !== undefined && number.split(".")[0] !== major) continue;
+
+    const afterNumber = match.index! + match[0].length;
+    const title = readTitle(text.slice(afterNumber, afterNumber + 200));
+    if (!title) continue;
+
+    major = number.split(".")[0];
+    const numberStart = match.index! + match[0].indexOf(number);
+    headers.push({ number, title, start: numberStart, bodyStart: afterNumber + title.length });
+  }
+
+  const subsections = headers.map((header, index) => ({
+    number: header.number,
+    title: header.title.replace(/[:.]$/, ""),
+    text: text.slice(header.bodyStart, headers[index + 1]?.start ?? text.length).trim(),
+  }));
+
+  return {
+    intro: text.slice(0, headers[0]?.start ?? text.length).trim(),
+    subsections,
+  };
+}
+
+/**
+ * 解析 *_table 字段中的 HTML 表格
+ * 表头取第一个纯数值行之前的行（最多三行），按 colspan 展开后逐列拼接
+ */
+export function parseHtmlTable(html: string, isAdverseReactionTable = false): LabelTable {
+  const caption = html.match(/<caption[^>]*>([\s\S]*?)<\/caption>/i);
+  const rows = [...html.matchAll(/<tr[^>]*>([\s\S]*?)<\/tr>/gi)].map(row =>
+    [...row[1].matchAll(/<(td|th)([^>]*)>([\s\S]*?)<\/\1>/gi)].map(cell => ({
+      text: htmlToText(cell[3]),
+      colspan: Number(cell[2].match(/colspan\s*=\s*["']?(\d+)/i)?.[1] || 1),
+    }))
+  ).filter(cells => cells.length > 0);
+
+  const thead = html.match(/<thead[^>]*>([\s\S]*?)<\/thead>/i);
+  let headerCount: number;
+  if (thead) {
+    headerCount = (thead[1].match(/<tr[^>]*>/gi) || []).length;
+  } else {
+    const firstDataRow = rows.findIndex(cells => cells.slice(1).some(cell => NUMERIC_CELL.test(cell.text)));
+    headerCount = Math.min(firstDataRow === -1 ? 0 : firstDataRow, 3);
+    // 数据行之前紧挨着的分组行不属于表头
+    while (headerCount > 1 && rows[headerCount - 1].filter(cell => cell.text).length === 1) {
+      headerCount--;
+    }
+  }
+
+  const columns: string[] = [];
+  for (const cells of rows.slice(0, headerCount)) {
+    let position = 0;
+    for (const cell of cells) {
+      for (let span = 0; span < cell.colspan; span++, position++) {
+        const parts = columns[position] ? [columns[position]] : [];
+        if (cell.text && !parts.includes(cell.text)) parts.push(cell.text);
+        columns[position] = parts.join(" ");
+      }
+    }
+  }
+
+  const tableRows: LabelTableRow[] = [];
+  let group: string | undefined;
+  for (const cells of rows.slice(headerCount)) {
+    const filled = cells.filter(cell => cell.text);
+    if (filled.length === 0) continue;
+    // 只有一个非空单元格的行是分组标题
+    if ((filled.length === 1 && cells.length > 1) || (cells.length === 1 && cells[0].colspan > 1)) {
+      group = filled[0].text;
+      continue;
+    }
+    tableRows.push({ group, label: cells[0].text, values: cells.slice(1).map(cell => cell.text) });
+  }
+
+  const captionText = caption ? htmlToText(caption[1]) : undefined;
+  return {
+    caption: captionText,
+    source: "html",
+    columns: Array.from(columns, column => column ?? ""),
+    rows: tableRows,
+    is_adverse_reaction_table: isAdverseReactionTable || /adverse|reaction|side effect/i.test(captionText || ""),
+  };
+}
+
+/**
+ * 识别正文中以 "Table N" 开头的扁平化表格，提取“名称 + 若干数值”的行
+ */
+export function detectTextTables(text: string, subsection?: string, isAdverseReactionSection = false): LabelTable[] {
+  const captions = [...text.matchAll(TEXT_TABLE_CAPTION)];
+  const tables: LabelTable[] = [];
+
+  captions.forEach((caption, index) => {
+    const start = caption.index! + caption[0].length;
+    const end = Math.min(captions[index + 1]?.index ?? text.length, start + MAX_TEXT_TABLE_LENGTH);
+    const region = text.slice(start, end);
+
+    const rows = [...region.matchAll(TEXT_TABLE_ROW)].map(match => ({
+      index: match.index!,
+      label: match[1].trim(),
+      values: match[2].trim().split(/\s+/),
+    }));
+    if (rows.length < 2) return;
+
+    // 只保留列数与多数行一致的行，排除正文句子中偶然出现的数字
+    const counts = new Map<number, number>();
+    rows.forEach(row => counts.set(row.values.length, (counts.get(row.values.length) || 0) + 1));
+    const width = [...counts.entries()].sort((a, b) => b[1] - a[1])[0][0];
+    const kept = rows.filter(row => row.values.length === width);
+    if (kept.length < 2) return;
+
+    // 第一行名称中带有表头列名（"Reaction Drug Placebo Nausea"）时，列名及之前的部分归入标题
+    const firstWords = kept[0].label.split(/\s+/);
+    let headerEnd = -1;
+    firstWords.slice(0, -1).forEach((word, position) => {
+      if (TEXT_TABLE_HEADER_WORD.test(word)) headerEnd = position;
+    });
+    let captionEnd = kept[0].index;
+    if (headerEnd !== -1) {
+      const label = firstWords.slice(headerEnd + 1).join(" ");
+      captionEnd = kept[0].index + kept[0].label.lastIndexOf(label);
+      kept[0] = { ...kept[0], label };
+    }
+
+    const captionText = normalizeWhitespace(region.slice(0, Math.min(captionEnd, 200)));
+    tables.push({
+      caption: captionText ? `Table ${caption[1]}: ${captionText}` : `Table ${caption[1]}`,
+      source: "text",
+      subsection,
+      columns: [],
+      rows: kept.map(row => ({ label: row.label, values: row.values })),
+      is_adverse_reaction_table: isAdverseReactionSection || /adverse|reaction|side effect/i.test(captionText),
+    });
+  });
+
+  return tables;
+}
+
+/**
+ * 解析单个章节；章节缺失时返回 null
+ */
+export function parseLabelSection(label: DrugLabel, field: string): ParsedSection | null {
+  const raw = labelSectionText(label, field);
+  const htmlTables = label[`${field}_table`];
+  if (raw === undefined && !Array.isArray(htmlTables)) return null;
+
+  const isAdverseReactionSection = field === "adverse_reactions";
+  const { number, title, body } = splitHeading(field, normalizeWhitespace(raw || ""));
+  const { intro, subsections } = splitSubsections(body, number);
+
+  const tables: LabelTable[] = [];
+  if (Array.isArray(htmlTables)) {
+    for (const html of htmlTables) {
+      if (typeof html === "string") tables.push(parseHtmlTable(html, isAdverseReactionSection));
+    }
+  }
+  // 已有 HTML 表格时正文中的表格是其扁平化副本，不再重复识别
+  if (tables.length === 0) {
+    tables.push(...detectTextTables(intro, undefined, isAdverseReactionSection));
+    for (const subsection of subsections) {
+      tables.push(...detectTextTables(subsection.text, subsection.number, isAdverseReactionSection));
+    }
+  }
+
+  return { field, number, title, intro, subsections, tables };
+}
+
+/**
+ * 将表格渲染为便于检索的纯文本
+ */
+export function renderTable(table: LabelTable): string {
+  const lines = [table.caption || "Table"];
+  if (table.columns.length > 0) lines.push(table.columns.join(" | "));
+  for (const row of table.rows) {
+    const label = row.group ? `${row.group} / ${row.label}` : row.label;
+    lines.push(`${label}: ${row.values.join(" | ")}`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * 按章节结构分块：每个小节（及章节引言）分别按 token 预算切分，块不跨越小节边界，
+ * 元数据带 section/subsection；表格按行切分，每块重复表头
+ */
+export function chunkLabel(
+  label: DrugLabel,
+  sourceId: string,
+  metadata: Record<string, any> = {},
+  budget: Pick<TokenChunkOptions, "maxTokens" | "overlapTokens"> = {}
+): TextChunk[] {
+  const chunks: TextChunk[] = [];
+  const drugName = labelDrugName(label);
+
+  for (const { field, heading } of LABEL_TEXT_SECTIONS) {
+    const section = parseLabelSection(label, field);
+    if (!section) continue;
+
+    const sectionMetadata = {
+      ...metadata,
+      section: field,
+      section_title: section.title || heading,
+    };
+    const units = [
+      { key: "intro", subsection: undefined as LabelSubsection | undefined, text: section.intro },
+      ...section.subsections.map(subsection => ({ key: subsection.number, subsection, text: subsection.text })),
+    ];
+
+    for (const unit of units) {
+      if (!unit.text) continue;
+      const path = unit.subsection ? `${heading} > ${unit.subsection.number} ${unit.subsection.title}` : heading;
+      const unitChunks = chunkTextByTokens(unit.text, {
+        ...budget,
+        header: `${drugName} | ${path}`,
+        sourceId,
+        metadata: {
+          ...sectionMetadata,
+          subsection: unit.subsection?.number,
+          subsection_title: unit.subsection?.title,
+        },
+      });
+      unitChunks.forEach((chunk, index) => {
+        chunks.push({ ...chunk, id: `${sourceId}_${field}_${unit.key}_${index}` });
+      });
+    }
+
+    // 表格按行分块，每块重复标题与表头
+    section.tables.forEach((table, tableIndex) => {
+      const [caption, ...rows] = renderTable(table).split("\n");
+      const columns = table.columns.length > 0 ? rows.shift() : undefined;
+      const tableChunks = chunkTextByTokens(rows.join("\n"), {
+        ...budget,
+        header: [`${drugName} | ${heading}`, caption, columns].filter(Boolean).join("\n"),
+        sourceId,
+        metadata: { ...sectionMetadata, subsection: table.subsection, table: true },
+      });
+      tableChunks.forEach((chunk, index) => {
+        chunks.push({ ...chunk, id: `${sourceId}_${field}_table_${tableIndex}_${index}` });
+      });
+    });
+  }
+
+  return chunks;
+}
+
+function labelIdentity(label: DrugLabel) {
+  return {
+    drug_name: label.openfda?.brand_name?.[0] || label.openfda?.generic_name?.[0] || "Unknown",
+    manufacturer: label.openfda?.manufacturer_name?.[0] || "Unknown",
+  };
+}
+
+/**
+ * get_drug_adverse_reactions 等章节工具的结果项
+ */
+export function summarizeAdverseReactionSections(label: DrugLabel) {
+  return {
+    ...labelIdentity(label),
+    adverse_reactions: parseLabelSection(label, "adverse_reactions"),
+    contraindications: parseLabelSection(label, "contraindications"),
+  };
+}
+
+export function summarizeWarningSections(label: DrugLabel) {
+  return {
+    ...labelIdentity(label),
+    boxed_warning: parseLabelSection(label, "boxed_warning"),
+    // PLR 格式标签的警告章节为 warnings_and_cautions
+    warnings: parseLabelSection(label, "warnings") || parseLabelSection(label, "warnings_and_cautions"),
+    precautions: parseLabelSection(label, "precautions"),
+  };
+}
+
+export function summarizeIndicationSections(label: DrugLabel) {
+  return {
+    ...labelIdentity(label),
+    indications_and_usage: parseLabelSection(label, "indications_and_usage"),
+    dosage_and_administration: parseLabelSection(label, "dosage_and_administration"),
+  };
+}
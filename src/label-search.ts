@@ -0,0 +1,74 @@
+/**
+ * 药品标签检索（search_drug_labels 与 /drug-labels）
+ * MCP 工具与 HTTP 路由共用：排序原样传给 OpenFDA，latest_only 合并同一 set_id 的旧版本，
+ * include_approvals 时附带 Drugs@FDA 审批摘要
+ * fields 在序列化前裁剪每份标签，供 HTTP 路由使用；MCP 工具的 fields 由 response-budget.ts 统一处理
+ */
+
+import { crossReferenceApprovals } from "./drugs-fda.js";
+import { OpenFDAClient, RequestOptions } from "./openfda-client.js";
+import { projectFields } from "./response-budget.js";
+import { DrugLabelSearchParams } from "./schemas.js";
+import { DrugLabel } from "./types.js";
+
+function versionNumber(label: DrugLabel): number {
+  const version = Number.parseInt(label.version || "", 10);
+  return Number.isFinite(version) ? version : -1;
+}
+
+function isNewer(a: DrugLabel, b: DrugLabel): boolean {
+  const byVersion = versionNumber(a) - versionNumber(b);
+  if (byVersion !== 0) return byVersion > 0;
+  return (a.effective_time || "").localeCompare(b.effective_time || "") > 0;
+}
+
+/**
+ * 同一 set_id 只保留 version 最大（相同时 effective_time 最新）的标签，位置取该 set_id 首次出现处；
+ * 没有 set_id 的标签无法判断版本，全部保留
+ */
+export function latestLabelVersions(labels: DrugLabel[]): DrugLabel[] {
+  const latest = new Map<string, DrugLabel>();
+  for (const label of labels) {
+    if (!label.set_id) continue;
+    const current = latest.get(label.set_id);
+    if (!current || isNewer(label, current)) latest.set(label.set_id, label);
+  }
+
+  const emitted = new Set<string>();
+  return labels.flatMap(label => {
+    if (!label.set_id) return [label];
+    if (emitted.has(label.set_id)) return [];
+    emitted.add(label.set_id);
+    return [latest.get(label.set_id)!];
+  });
+}
+
+export async function searchDrugLabels(
+  client: OpenFDAClient,
+  params: DrugLabelSearchParams,
+  options: RequestOptions = {}
+) {
+  const { fields, latest_only, include_approvals, ...query } = params;
+
+  if (query.count) {
+    const data = await client.countLabels({ ...query, count: query.count }, options);
+    return {
+      meta: data.meta,
+      results_count: data.results?.length || 0,
+      results: data.results || [],
+    };
+  }
+
+  const data = await client.searchLabels(query, options);
+  const fetched = data.results || [];
+  // 只在本次取回的标签内合并
+  const labels = latest_only ? latestLabelVersions(fetched) : fetched;
+
+  return {
+    meta: data.meta,
+    results_count: labels.length,
+    ...(latest_only ? { superseded_versions: fetched.length - labels.length } : {}),
+    results: fields ? labels.map(label => projectFields(label, fields)) : labels,
+    ...(include_approvals ? { approvals: await crossReferenceApprovals(client, labels, options) } : {}),
+  };
+}
@@ -0,0 +1,111 @@
+/**
+ * 药品标签章节文本提取
+ * RAG 管道与标签比较共用
+ */
+
+import { DrugLabel } from "./types.js";
+
+// 按 RAG 上下文中的出现顺序排列
+export const LABEL_TEXT_SECTIONS = [
+  { field: "indications_and_usage", heading: "INDICATIONS AND USAGE" },
+  { field: "dosage_and_administration", heading: "DOSAGE AND ADMINISTRATION" },
+  // 禁忌症（重点）
+  { field: "contraindications", heading: "CONTRAINDICATIONS" },
+  // 警告和注意事项（重点）
+  { field: "warnings", heading: "WARNINGS" },
+  // PLR 格式标签的警告和注意事项
+  { field: "warnings_and_cautions", heading: "WARNINGS AND PRECAUTIONS" },
+  // 黑框警告（最重要）
+  { field: "boxed_warning", heading: "BOXED WARNING" },
+  { field: "precautions", heading: "PRECAUTIONS" },
+  // 不良反应（重点）
+  { field: "adverse_reactions", heading: "ADVERSE REACTIONS" },
+  { field: "drug_interactions", heading: "DRUG INTERACTIONS" },
+] as const;
+
+export type LabelTextSection = typeof LABEL_TEXT_SECTIONS[number]["field"];
+
+/**
+ * 章节字段的文本；章节缺失时返回 undefined
+ */
+export function labelSectionText(label: DrugLabel, field: string): string | undefined {
+  const value = label[field];
+  if (!value) return undefined;
+  if (Array.isArray(value)) return value.join("\n");
+  return typeof value === "string" ? value : undefined;
+}
+
+export function labelDrugName(label: DrugLabel): string {
+  return label.openfda?.brand_name?.[0] || label.openfda?.generic_name?.[0] || "Unknown Drug";
+}
+
+/**
+ * 标签在 DailyMed 上的页面（按 set_id 查找，总是指向最新版本）
+ */
+export function dailyMedUrl(setId: string): string {
+  return `https://dailymed.nlm.nih.gov/dailymed/lookup.cfm?setid=${encodeURIComponent(setId)}`;
+}
+
+// 查询意图 -> 加权章节；查询命中时这些章节文本块的得分乘以 boost
+const SECTION_INTENTS: Array<{ intent: string; pattern: RegExp; sections: LabelTextSection[]; boost: number }> = [
+  {
+    intent: "serious_risk",
+    pattern: /\b(boxed|black[- ]box|fatal|deaths?|life[- ]threatening|serious)\b|黑框|致死|严重/i,
+    sections: ["boxed_warning"],
+    boost: 2,
+  },
+  {
+    intent: "contraindication",
+    pattern: /contraindicat|\b(should not|must not|avoid)\b|禁忌|禁用/i,
+    sections: ["contraindications"],
+    boost: 1.5,
+  },
+  {
+    intent: "adverse_reaction",
+    pattern: /side[- ]effects?|adverse|reactions?\b|不良反应|副作用/i,
+    sections: ["adverse_reactions"],
+    boost: 1.5,
+  },
+  {
+    intent: "warning",
+    pattern: /warnings?|precautions?|\brisks?\b|警告|注意事项/i,
+    sections: ["warnings", "warnings_and_cautions", "precautions", "boxed_warning"],
+    boost: 1.3,
+  },
+  {
+    intent: "interaction",
+    pattern: /interact|concomitant|together with|\bcombin|相互作用|合用|同服/i,
+    sections: ["drug_interactions"],
+    boost: 1.5,
+  },
+  {
+    intent: "dosage",
+    pattern: /\b(doses?|dosing|dosage|how much|how to take|administ)|剂量|用法|用量/i,
+    sections: ["dosage_and_administration"],
+    boost: 1.5,
+  },
+  {
+    intent: "indication",
+    pattern: /indicat|\bused (for|to)\b|\btreat|适应症|治疗/i,
+    sections: ["indications_and_usage"],
+    boost: 1.5,
+  },
+];
+
+/**
+ * 根据查询意图确定章节加权；同一章节命中多个意图时取最大值
+ */
+export function sectionBoostsForQuery(query: string) {
+  const intents: string[] = [];
+  const boosts: Partial<Record<LabelTextSection, number>> = {};
+
+  for (const { intent, pattern, sections, boost } of SECTION_INTENTS) {
+    if (!pattern.test(query)) continue;
+    intents.push(intent);
+    for (const section of sections) {
+      boosts[section] = Math.max(boosts[section] ?? 1, boost);
+    }
+  }
+
+  return { intents, boosts };
+}
@@ -0,0 +1,164 @@
+/**
+ * 内置医学同义词表
+ * drugs: 同一药品的品牌名、通用名、国际非专利名（INN）与常用缩写，每组互为同义词
+ * conditions: 口语病症表述 -> 标签中使用的临床术语
+ * 可通过 SYNONYMS_FILE 指定同结构的 JSON 文件补充
+ */
+
+export interface SynonymTables {
+  drugs: string[][];
+  conditions: Record<string, string[]>;
+}
+
+export const BUNDLED_SYNONYMS: SynonymTables = {
+  drugs: [
+    ["acetaminophen", "paracetamol", "APAP", "Tylenol"],
+    ["aspirin", "acetylsalicylic acid", "ASA"],
+    ["ibuprofen", "Advil", "Motrin"],
+    ["naproxen", "Aleve", "Naprosyn"],
+    ["warfarin", "Coumadin", "Jantoven"],
+    ["apixaban", "Eliquis"],
+    ["rivaroxaban", "Xarelto"],
+    ["dabigatran", "Pradaxa"],
+    ["enoxaparin", "Lovenox"],
+    ["clopidogrel", "Plavix"],
+    ["atorvastatin", "Lipitor"],
+    ["simvastatin", "Zocor"],
+    ["rosuvastatin", "Crestor"],
+    ["lisinopril", "Zestril", "Prinivil"],
+    ["losartan", "Cozaar"],
+    ["amlodipine", "Norvasc"],
+    ["metoprolol", "Lopressor", "Toprol-XL"],
+    ["hydrochlorothiazide", "HCTZ"],
+    ["furosemide", "frusemide", "Lasix"],
+    ["spironolactone", "Aldactone"],
+    ["digoxin", "Lanoxin"],
+    ["amiodarone", "Cordarone", "Pacerone"],
+    ["nitroglycerin", "glyceryl trinitrate", "GTN", "Nitrostat"],
+    ["metformin", "Glucophage"],
+    ["glyburide", "glibenclamide"],
+    ["insulin glargine", "Lantus"],
+    ["semaglutide", "Ozempic", "Wegovy", "Rybelsus"],
+    ["levothyroxine", "L-thyroxine", "Synthroid"],
+    ["omeprazole", "Prilosec"],
+    ["esomeprazole", "Nexium"],
+    ["pantoprazole", "Protonix"],
+    ["ondansetron", "Zofran"],
+    ["metoclopramide", "Reglan"],
+    ["sertraline", "Zoloft"],
+    ["fluoxetine", "Prozac"],
+    ["escitalopram", "Lexapro"],
+    ["bupropion", "Wellbutrin"],
+    ["alprazolam", "Xanax"],
+    ["diazepam", "Valium"],
+    ["zolpidem", "Ambien"],
+    ["quetiapine", "Seroquel"],
+    ["olanzapine", "Zyprexa"],
+    ["risperidone", "Risperdal"],
+    ["aripiprazole", "Abilify"],
+    ["lithium carbonate", "lithium", "Lithobid"],
+    ["methylphenidate", "Ritalin", "Concerta"],
+    ["gabapentin", "Neurontin"],
+    ["pregabalin", "Lyrica"],
+    ["phenytoin", "Dilantin"],
+    ["carbamazepine", "Tegretol"],
+    ["lamotrigine", "Lamictal"],
+    ["valproic acid", "valproate", "Depakene"],
+    ["tramadol", "Ultram"],
+    ["oxycodone", "OxyContin", "Roxicodone"],
+    ["morphine", "MS Contin"],
+    ["meperidine", "pethidine", "Demerol"],
+    ["lidocaine", "lignocaine", "Xylocaine"],
+    ["prednisone", "Deltasone"],
+    ["methotrexate", "MTX", "Trexall"],
+    ["adalimumab", "Humira"],
+    ["cyclosporine", "ciclosporin", "Neoral", "Sandimmune"],
+    ["amoxicillin", "Amoxil"],
+    ["azithromycin", "Zithromax"],
+    ["ciprofloxacin", "Cipro"],
+    ["rifampin", "rifampicin", "Rifadin"],
+    ["fluconazole", "Diflucan"],
+    ["albuterol", "salbutamol", "ProAir", "Ventolin"],
+    ["montelukast", "Singulair"],
+    ["epinephrine", "adrenaline", "EpiPen"],
+    ["isoproterenol", "isoprenaline"],
+    ["diphenhydramine", "Benadryl"],
+    ["cetirizine", "Zyrtec"],
+    ["loratadine", "Claritin"],
+    ["sildenafil", "Viagra", "Revatio"],
+    ["tamsulosin", "Flomax"],
+    ["finasteride", "Proscar", "Propecia"],
+    ["allopurinol", "Zyloprim"],
+    ["colchicine", "Colcrys"],
+  ],
+  conditions: {
+    "high blood pressure": ["hypertension"],
+    "low blood pressure": ["hypotension"],
+    "high cholesterol": ["hypercholesterolemia", "hyperlipidemia"],
+    "heart attack": ["myocardial infarction"],
+    "heart problems": ["myocardial infarction", "QT prolongation", "arrhythmia", "heart failure", "cardiovascular"],
+    "heart failure": ["congestive heart failure", "cardiac failure"],
+    "irregular heartbeat": ["arrhythmia", "atrial fibrillation"],
+    "chest pain": ["angina pectoris"],
+    "stroke": ["cerebrovascular accident", "ischemic stroke"],
+    "blood clot": ["thrombosis", "deep vein thrombosis", "pulmonary embolism", "thromboembolism"],
+    "bleeding": ["hemorrhage"],
+    "diabetes": ["diabetes mellitus"],
+    "high blood sugar": ["hyperglycemia"],
+    "low blood sugar": ["hypoglycemia"],
+    "underactive thyroid": ["hypothyroidism"],
+    "overactive thyroid": ["hyperthyroidism"],
+    "kidney problems": ["renal impairment", "renal failure", "nephrotoxicity"],
+    "kidney disease": ["renal impairment", "chronic kidney disease"],
+    "liver problems": ["hepatotoxicity", "hepatic impairment", "liver injury"],
+    "liver damage": ["hepatotoxicity", "liver injury", "hepatic failure"],
+    "heartburn": ["gastroesophageal reflux disease", "GERD"],
+    "acid reflux": ["gastroesophageal reflux disease", "GERD"],
+    "stomach ulcer": ["peptic ulcer", "gastric ulcer"],
+    "upset stomach": ["dyspepsia", "nausea"],
+    "throwing up": ["vomiting"],
+    "fever": ["pyrexia"],
+    "itching": ["pruritus"],
+    "hives": ["urticaria"],
+    "skin rash": ["rash", "dermatitis"],
+    "allergic reaction": ["hypersensitivity", "anaphylaxis"],
+    "swelling": ["edema", "angioedema"],
+    "shortness of breath": ["dyspnea"],
+    "asthma attack": ["bronchospasm", "asthma"],
+    "depression": ["major depressive disorder"],
+    "anxiety": ["generalized anxiety disorder", "anxiety disorder"],
+    "trouble sleeping": ["insomnia"],
+    "seizures": ["seizure", "epilepsy", "convulsion"],
+    "fainting": ["syncope"],
+    "ringing in the ears": ["tinnitus"],
+    "hair loss": ["alopecia"],
+    "joint pain": ["arthralgia"],
+    "muscle pain": ["myalgia", "myopathy", "rhabdomyolysis"],
+    "low platelets": ["thrombocytopenia"],
+    "low white blood cells": ["neutropenia", "leukopenia"],
+    "birth defects": ["teratogenicity", "embryo-fetal toxicity"],
+    "suicidal thoughts": ["suicidal ideation"],
+    "enlarged prostate": ["benign prostatic hyperplasia"],
+    "impotence": ["erectile dysfunction"],
+    "yeast infection": ["candidiasis"],
+    "pink eye": ["conjunctivitis"],
+    "高血压": ["hypertension"],
+    "低血压": ["hypotension"],
+    "糖尿病": ["diabetes mellitus"],
+    "心脏病": ["myocardial infarction", "arrhythmia", "heart failure", "cardiovascular"],
+    "心梗": ["myocardial infarction"],
+    "中风": ["cerebrovascular accident", "stroke"],
+    "血栓": ["thrombosis", "thromboembolism"],
+    "出血": ["hemorrhage", "bleeding"],
+    "肝损伤": ["hepatotoxicity", "liver injury"],
+    "肾损伤": ["renal impairment", "nephrotoxicity"],
+    "过敏": ["hypersensitivity", "anaphylaxis"],
+    "皮疹": ["rash"],
+    "发烧": ["pyrexia", "fever"],
+    "抑郁": ["depression", "major depressive disorder"],
+    "失眠": ["insomnia"],
+    "癫痫": ["seizure", "epilepsy"],
+    "孕妇": ["pregnancy"],
+    "哺乳": ["lactation"],
+  },
+};
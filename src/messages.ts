@@ -0,0 +1,122 @@
+/**
+ * 生成文本的多语言消息表：RAG 摘要标题、提示信息与工具错误信息
+ * 新增语言时在 LANGUAGES 中加入语言代码，并在 MESSAGES 中补全该语言的全部条目（缺条目时类型检查不通过）
+ * 占位符写作 {name}，由 message() 的 params 替换
+ */
+
+export const LANGUAGES = ["zh", "en"] as const;
+
+export type Language = (typeof LANGUAGES)[number];
+
+export const DEFAULT_LANGUAGE: Language = "zh";
+
+const zh = {
+  "summary.no_results": "未找到与查询相关的信息。查询: {query}",
+  "summary.drug": "药物",
+  "summary.condition": "适应症",
+  "summary.query": "查询",
+  "summary.data_source": "数据来源",
+  "summary.related_chunks": "相关片段",
+  "summary.chunk_count": "{count} 个",
+  "summary.yes": "是",
+  "summary.no": "否",
+  "summary.openfda.title": "FDA 药物标签安全信息",
+  "summary.openfda.source": "{count} 个 FDA 标签片段",
+  "summary.trials.title": "临床试验不良事件分析",
+  "summary.trials.source": "{count} 个临床试验片段",
+  "summary.trials.key_findings": "关键发现",
+  "summary.trials.study_count": "涉及研究数量: {count}",
+  "summary.trials.control_comparison": "包含对照组比较: {value}",
+  "summary.trials.adverse_event_relevance": "不良事件相关性: {value}",
+  "summary.trials.evidence": "证据摘要",
+  "summary.trials.recommendation": "建议",
+  "summary.trials.recommendation_text": "基于 {count} 个相关片段的分析，建议进一步查看具体研究详情以获得完整的安全性评估。",
+  "summary.rxnav.title": "RxNav 药物术语信息",
+  "summary.rxnav.source": "{count} 个 RxNav 术语片段",
+  "summary.rxnav.statistics": "术语信息统计",
+  "summary.rxnav.rxcui_count": "RxCUI 标识符: {count} 个",
+  "summary.rxnav.atc_count": "ATC 分类代码: {count} 个",
+  "summary.rxnav.details": "药物术语详情",
+  "summary.generic.title": "信息摘要",
+  "summary.generic.main_content": "主要内容",
+  "rag.index_empty": "分块索引中没有匹配的药物标签。请先调用 build_chunk_index 建立索引，或使用 source=live。",
+  "rag.missing_criteria": "请提供药物名称或具体查询条件以获取 FDA 标签信息。",
+  "rag.no_labels": "未找到匹配的 FDA 药物标签数据。请尝试调整搜索条件。",
+  "error.invalid_arguments_string": "无法解析参数字符串: {message}",
+  "error.missing_arguments": "缺少参数",
+  "error.unknown_tool": "未知工具: {name}",
+  "error.invalid_params": "工具 {name} 的参数无效: {issues}",
+  "error.tool_failed": "执行工具 {name} 时出错: {message}",
+  "error.rag_failed": "RAG 流程失败: {message}",
+  "error.unrecognized_ndc": "无法识别的 NDC 格式: {ndc}",
+  "error.chunk_index_not_configured": "未配置分块索引，请在服务端设置 CHUNK_INDEX_FILE",
+  "error.retriever_requires_embeddings": "检索策略 '{retriever}' 需要向量化模型，请在服务端设置 EMBEDDING_PROVIDER",
+  "error.invalid_cursor": "无效的 cursor，请原样传回上一次结果中的 pagination.next_cursor",
+  "error.cursor_tool_mismatch": "该 cursor 属于工具 {tool}，不能用于 {name}",
+};
+
+export type MessageKey = keyof typeof zh;
+
+const en: Record<MessageKey, string> = {
+  "summary.no_results": "No information relevant to the query was found. Query: {query}",
+  "summary.drug": "Drug",
+  "summary.condition": "Condition",
+  "summary.query": "Query",
+  "summary.data_source": "Source",
+  "summary.related_chunks": "Related chunks",
+  "summary.chunk_count": "{count}",
+  "summary.yes": "yes",
+  "summary.no": "no",
+  "summary.openfda.title": "FDA Drug Label Safety Information",
+  "summary.openfda.source": "{count} FDA label chunks",
+  "summary.trials.title": "Clinical Trial Adverse Event Analysis",
+  "summary.trials.source": "{count} clinical trial chunks",
+  "summary.trials.key_findings": "Key Findings",
+  "summary.trials.study_count": "Studies involved: {count}",
+  "summary.trials.control_comparison": "Includes control group comparison: {value}",
+  "summary.trials.adverse_event_relevance": "Adverse event relevance: {value}",
+  "summary.trials.evidence": "Evidence Summary",
+  "summary.trials.recommendation": "Recommendation",
+  "summary.trials.recommendation_text": "Based on {count} relevant chunks, review the individual studies for a complete safety assessment.",
+  "summary.rxnav.title": "RxNav Drug Terminology",
+  "summary.rxnav.source": "{count} RxNav terminology chunks",
+  "summary.rxnav.statistics": "Terminology Statistics",
+  "summary.rxnav.rxcui_count": "RxCUI identifiers: {count}",
+  "summary.rxnav.atc_count": "ATC class codes: {count}",
+  "summary.rxnav.details": "Terminology Details",
+  "summary.generic.title": "Summary",
+  "summary.generic.main_content": "Main Content",
+  "rag.index_empty": "No matching drug labels in the chunk index. Call build_chunk_index first, or use source=live.",
+  "rag.missing_criteria": "Provide a drug name or specific query terms to retrieve FDA label information.",
+  "rag.no_labels": "No matching FDA drug label data was found. Try adjusting the search criteria.",
+  "error.invalid_arguments_string": "Failed to parse arguments string: {message}",
+  "error.missing_arguments": "Missing arguments",
+  "error.unknown_tool": "Unknown tool: {name}",
+  "error.invalid_params": "Invalid arguments for tool {name}: {issues}",
+  "error.tool_failed": "Error executing tool {name}: {message}",
+  "error.rag_failed": "RAG pipeline failed: {message}",
+  "error.unrecognized_ndc": "Unrecognized NDC format: {ndc}",
+  "error.chunk_index_not_configured": "Chunk index is not configured; set CHUNK_INDEX_FILE on the server",
+  "error.retriever_requires_embeddings": "Retriever '{retriever}' requires an embedding model; set EMBEDDING_PROVIDER on the server",
+  "error.invalid_cursor": "Invalid cursor; pass back pagination.next_cursor from the previous result unchanged",
+  "error.cursor_tool_mismatch": "Cursor belongs to tool {tool} and cannot be used with {name}",
+};
+
+const MESSAGES: Record<Language, Record<MessageKey, string>> = { zh, en };
+
+export function isLanguage(value: unknown): value is Language {
+  return typeof value === "string" && (LANGUAGES as readonly string[]).includes(value);
+}
+
+/**
+ * 取指定语言的消息并替换占位符；未提供的占位符原样保留
+ */
+export function message(
+  language: Language,
+  key: MessageKey,
+  params: Record<string, string | number> = {}
+): string {
+  return MESSAGES[language][key].replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder
+  );
+}
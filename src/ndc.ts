@@ -0,0 +1,119 @@
+/**
+ * NDC 目录（/drug/ndc.json）查询构建与结果整理
+ * MCP 工具与 HTTP 路由共用
+ */
+
+import { buildSearch, or, phrase } from "./query-builder.js";
+import { NdcProduct } from "./types.js";
+
+// 10 位 NDC 的三种分段方式：labeler-product-package
+const TEN_DIGIT_LAYOUTS: Array<[number, number, number]> = [[4, 4, 2], [5, 3, 2], [5, 4, 1]];
+// 产品 NDC（不含包装段）的分段方式
+const PRODUCT_LAYOUTS: Array<[number, number]> = [[4, 4], [5, 3], [5, 4]];
+
+export interface NdcCandidates {
+  products: string[];
+  packages: string[];
+}
+
+function split(digits: string, sizes: number[]): string[] {
+  const parts: string[] = [];
+  let pos = 0;
+  for (const size of sizes) {
+    parts.push(digits.slice(pos, pos + size));
+    pos += size;
+  }
+  return parts;
+}
+
+/**
+ * 11 位 HIPAA 格式（5-4-2）是在某一段前补 0 得到的，去掉补位的 0 还原为 10 位
+ */
+function fromHipaa(segments: string[]): string[] {
+  const [labeler, product, pkg] = segments;
+  const results: string[] = [];
+  if (labeler.startsWith("0")) results.push([labeler.slice(1), product, pkg].join("-"));
+  if (product.startsWith("0")) results.push([labeler, product.slice(1), pkg].join("-"));
+  if (pkg.startsWith("0")) results.push([labeler, product, pkg.slice(1)].join("-"));
+  return results;
+}
+
+/**
+ * 根据任意写法的 NDC 推算 OpenFDA 中可能的产品 NDC 与包装 NDC
+ */
+export function ndcCandidates(code: string): NdcCandidates {
+  const cleaned = code.replace(/\s+/g, "");
+  const products = new Set<string>();
+  const packages = new Set<string>();
+
+  if (cleaned.includes("-")) {
+    const segments = cleaned.split("-").filter(Boolean);
+    const digits = segments.join("");
+    if (segments.length === 3) {
+      if (digits.length === 11 && segments[0].length === 5 && segments[1].length === 4 && segments[2].length === 2) {
+        fromHipaa(segments).forEach(ndc => packages.add(ndc));
+      } else {
+        packages.add(segments.join("-"));
+      }
+    } else if (segments.length === 2) {
+      products.add(segments.join("-"));
+    }
+  } else if (cleaned.length === 11) {
+    fromHipaa(split(cleaned, [5, 4, 2])).forEach(ndc => packages.add(ndc));
+  } else if (cleaned.length === 10) {
+    TEN_DIGIT_LAYOUTS.forEach(layout => packages.add(split(cleaned, layout).join("-")));
+  } else if (cleaned.length === 8 || cleaned.length === 9) {
+    PRODUCT_LAYOUTS
+      .filter(([a, b]) => a + b === cleaned.length)
+      .forEach(layout => products.add(split(cleaned, layout).join("-")));
+  }
+
+  // 包装 NDC 的前两段即产品 NDC，一并查询以兼容目录中已下架的包装
+  packages.forEach(ndc => products.add(ndc.split("-").slice(0, 2).join("-")));
+
+  return { products: [...products], packages: [...packages] };
+}
+
+export function buildNdcSearch(code: string): string | undefined {
+  const { products, packages } = ndcCandidates(code);
+  const query = or(
+    ...packages.map(ndc => phrase("packaging.package_ndc", ndc)),
+    ...products.map(ndc => phrase("product_ndc", ndc))
+  );
+  return query ? buildSearch(query) : undefined;
+}
+
+export function summarizeNdcProduct(product: NdcProduct, code: string) {
+  const { packages } = ndcCandidates(code);
+  const setId = product.openfda?.spl_set_id?.[0];
+
+  return {
+    product_ndc: product.product_ndc,
+    matched_package_ndc: product.packaging?.find(pkg => pkg.package_ndc && packages.includes(pkg.package_ndc))?.package_ndc,
+    brand_name: product.brand_name,
+    generic_name: product.generic_name,
+    dosage_form: product.dosage_form,
+    route: product.route || [],
+    strength: (product.active_ingredients || []).map(ingredient => ({
+      ingredient: ingredient.name,
+      strength: ingredient.strength,
+    })),
+    labeler: product.labeler_name,
+    marketing_category: product.marketing_category,
+    application_number: product.application_number,
+    marketing_start_date: product.marketing_start_date,
+    marketing_end_date: product.marketing_end_date,
+    packaging: (product.packaging || []).map(pkg => ({
+      package_ndc: pkg.package_ndc,
+      description: pkg.description,
+      marketing_start_date: pkg.marketing_start_date,
+    })),
+    // 供 search_drug_labels 等标签工具串联使用
+    label: {
+      spl_set_id: setId,
+      spl_id: product.spl_id,
+      search: setId ? buildSearch(phrase("set_id", setId)) : undefined,
+      drug_name: product.brand_name || product.generic_name,
+    },
+  };
+}
@@ -0,0 +1,448 @@
+/**
+ * 离线药品标签数据集
+ * 由批量下载文件导入为 labels.ndjson + index.json，按 OpenFDA 的 search/count/sort/skip/limit 语义本地查询
+ */
+
+import fs from "fs";
+import path from "path";
+import readline from "readline";
+import { readBulkLabelFile } from "./bulk-label-reader.js";
+import { OpenFDAError } from "./errors.js";
+import {
+  SearchNode,
+  fieldValues,
+  matchesSearch,
+  parseSearch,
+  stripExact,
+  tokenize,
+} from "./search-syntax.js";
+import { DrugLabel, OpenFDACountResult, OpenFDAMeta, OpenFDAResponse } from "./types.js";
+
+const LABELS_FILE = "labels.ndjson";
+const INDEX_FILE = "index.json";
+
+// 建立倒排索引的字段，其余字段的查询走顺序扫描
+export const INDEXED_FIELDS = [
+  "id",
+  "set_id",
+  "openfda.brand_name",
+  "openfda.generic_name",
+  "openfda.substance_name",
+  "openfda.manufacturer_name",
+  "openfda.product_ndc",
+  "openfda.package_ndc",
+  "openfda.spl_set_id",
+  "openfda.application_number",
+];
+
+// OpenFDA count 查询默认返回前 100 项
+const DEFAULT_COUNT_LIMIT = 100;
+
+interface OfflineIndex {
+  meta: OpenFDAMeta & { imported_at: string; source_files: string[] };
+  offsets: number[];
+  lengths: number[];
+  postings: Record<string, Record<string, number[]>>;
+}
+
+/**
+ * 一次加载的数据集：索引与按同一版本打开的 labels.ndjson 文件描述符
+ * 重新导入会整体替换目录，旧描述符仍指向旧文件，因此正在进行的查询读到的偏移与索引一致
+ */
+interface Snapshot {
+  index: OfflineIndex;
+  fd: number;
+  mtimeMs: number;
+  ino: number;
+  /** 正在使用该快照的查询数；被替换后待其归零再关闭描述符 */
+  users: number;
+  retired: boolean;
+}
+
+export interface OfflineQueryParams {
+  search?: string;
+  count?: string;
+  skip?: number;
+  limit?: number;
+  sort?: string;
+}
+
+export interface ImportSummary {
+  dataDir: string;
+  files: string[];
+  records: number;
+  last_updated: string;
+}
+
+export class OfflineLabelStore {
+  private dataDir: string;
+  private snapshot: Snapshot | null = null;
+
+  constructor(dataDir: string) {
+    this.dataDir = dataDir;
+  }
+
+  /**
+   * 执行与 /drug/label.json 等价的查询；无结果时与线上一样抛出 404
+   */
+  async query(params: OfflineQueryParams): Promise<OpenFDAResponse<DrugLabel | OpenFDACountResult>> {
+    const node = params.search ? parseSearch(params.search) : null;
+    const snapshot = this.acquire();
+    let matches: DrugLabel[];
+    try {
+      matches = await this.findMatches(snapshot, node);
+    } finally {
+      this.release(snapshot);
+    }
+    const { index } = snapshot;
+
+    if (matches.length === 0) {
+      throw new OpenFDAError(404, JSON.stringify({ error: { code: "NOT_FOUND", message: "No matches found!" } }));
+    }
+
+    const { disclaimer, terms, license, last_updated } = index.meta;
+
+    if (params.count) {
+      return {
+        meta: { disclaimer, terms, license, last_updated },
+        results: countField(matches, params.count, params.limit || DEFAULT_COUNT_LIMIT),
+      };
+    }
+
+    const sorted = params.sort ? sortRecords(matches, params.sort) : matches;
+    const skip = params.skip || 0;
+    const limit = params.limit || 1;
+    return {
+      meta: {
+        disclaimer,
+        terms,
+        license,
+        last_updated,
+        results: { skip, limit, total: matches.length },
+      },
+      results: sorted.slice(skip, skip + limit),
+    };
+  }
+
+  info() {
+    if (!this.snapshot && !fs.existsSync(path.join(this.dataDir, INDEX_FILE))) {
+      return { data_dir: this.dataDir, available: false };
+    }
+    const { index } = this.load();
+    return {
+      data_dir: this.dataDir,
+      available: true,
+      records: index.offsets.length,
+      last_updated: index.meta.last_updated,
+      imported_at: index.meta.imported_at,
+      source_files: index.meta.source_files,
+    };
+  }
+
+  private acquire(): Snapshot {
+    const snapshot = this.load();
+    snapshot.users++;
+    return snapshot;
+  }
+
+  private release(snapshot: Snapshot) {
+    snapshot.users--;
+    if (snapshot.retired && snapshot.users === 0) fs.closeSync(snapshot.fd);
+  }
+
+  /**
+   * index.json 的 mtime 或 inode 变化（重新导入）时重新加载；imported_at 未变则沿用当前快照
+   * 读索引与打开 labels.ndjson 之间若目录被替换，两者可能来自不同版本，此时重试
+   */
+  private load(): Snapshot {
+    const indexPath = path.join(this.dataDir, INDEX_FILE);
+
+    for (let attempt = 0; attempt < 3; attempt++) {
+      let before: fs.Stats;
+      try {
+        before = fs.statSync(indexPath);
+      } catch {
+        // 替换目录的瞬间 index.json 短暂不存在，继续使用已加载的版本
+        if (this.snapshot) return this.snapshot;
+        throw new Error(`Offline dataset not found in ${this.dataDir}; run the import-labels command first`);
+      }
+
+      const current = this.snapshot;
+      if (current && current.mtimeMs === before.mtimeMs && current.ino === before.ino) {
+        return current;
+      }
+
+      const index = JSON.parse(fs.readFileSync(indexPath, "utf8")) as OfflineIndex;
+      const fd = fs.openSync(path.join(this.dataDir, LABELS_FILE), "r");
+      const after = fs.statSync(indexPath, { throwIfNoEntry: false });
+      if (!after || after.mtimeMs !== before.mtimeMs || after.ino !== before.ino) {
+        fs.closeSync(fd);
+        continue;
+      }
+
+      if (current && current.index.meta.imported_at === index.meta.imported_at) {
+        fs.closeSync(fd);
+        current.mtimeMs = after.mtimeMs;
+        current.ino = after.ino;
+        return current;
+      }
+
+      const snapshot: Snapshot = { index, fd, mtimeMs: after.mtimeMs, ino: after.ino, users: 0, retired: false };
+      if (current) {
+        current.retired = true;
+        if (current.users === 0) fs.closeSync(current.fd);
+      }
+      this.snapshot = snapshot;
+      return snapshot;
+    }
+
+    throw new Error(`Offline dataset in ${this.dataDir} kept changing while loading; retry after the import finishes`);
+  }
+
+  private async findMatches(snapshot: Snapshot, node: SearchNode | null): Promise<DrugLabel[]> {
+    const candidates = node ? candidateSet(snapshot.index, node) : null;
+
+    if (candidates) {
+      return this.readRecords(snapshot, [...candidates].sort((a, b) => a - b))
+        .filter(record => matchesSearch(node!, record));
+    }
+
+    return this.scan(snapshot, node);
+  }
+
+  private readRecords({ index, fd }: Snapshot, ordinals: number[]): DrugLabel[] {
+    return ordinals.map(ordinal => {
+      const buffer = Buffer.alloc(index.lengths[ordinal]);
+      fs.readSync(fd, buffer, 0, buffer.length, index.offsets[ordinal]);
+      return JSON.parse(buffer.toString("utf8")) as DrugLabel;
+    });
+  }
+
+  /**
+   * 顺序扫描全部记录；先用词元做字符串预筛，只解析可能命中的行
+   */
+  private async scan(snapshot: Snapshot, node: SearchNode | null): Promise<DrugLabel[]> {
+    const prefilter = node ? requiredTokens(node) : null;
+    const results: DrugLabel[] = [];
+
+    // 指定 start 时按位置读取，多个查询可共用同一描述符；描述符由快照负责关闭
+    const lines = readline.createInterface({
+      input: fs.createReadStream("", { fd: snapshot.fd, start: 0, autoClose: false }),
+      crlfDelay: Infinity,
+    });
+
+    for await (const line of lines) {
+      if (!line) continue;
+      if (prefilter) {
+        const lower = line.toLowerCase();
+        if (!prefilter.some(token => lower.includes(token))) continue;
+      }
+      const record = JSON.parse(line) as DrugLabel;
+      if (!node || matchesSearch(node, record)) {
+        results.push(record);
+      }
+    }
+
+    return results;
+  }
+}
+
+/**
+ * 利用倒排索引求候选集合；返回 null 表示无法仅凭索引缩小范围
+ */
+function candidateSet(index: OfflineIndex, node: SearchNode): Set<number> | null {
+  switch (node.type) {
+    case "term": {
+      const field = node.field ? stripExact(node.field) : "";
+      if (!Object.prototype.hasOwnProperty.call(index.postings, field)) return null;
+      const postings = index.postings[field];
+
+      let result: Set<number> | null = null;
+      for (const token of tokenize(node.value)) {
+        const list = new Set(Object.prototype.hasOwnProperty.call(postings, token) ? postings[token] : []);
+        result = result ? intersect(result, list) : list;
+      }
+      return result || new Set();
+    }
+    case "and": {
+      let result: Set<number> | null = null;
+      for (const child of node.children) {
+        const set = candidateSet(index, child);
+        if (set) result = result ? intersect(result, set) : set;
+      }
+      return result;
+    }
+    case "or": {
+      const result = new Set<number>();
+      for (const child of node.children) {
+        const set = candidateSet(index, child);
+        if (!set) return null;
+        set.forEach(ordinal => result.add(ordinal));
+      }
+      return result;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * 命中记录必然包含其中至少一个词元；无法推断时返回 null
+ */
+function requiredTokens(node: SearchNode): string[] | null {
+  switch (node.type) {
+    case "term": {
+      const tokens = tokenize(node.value);
+      return tokens.length > 0 ? [tokens[0]] : null;
+    }
+    case "and": {
+      for (const child of node.children) {
+        const tokens = requiredTokens(child);
+        if (tokens) return tokens;
+      }
+      return null;
+    }
+    case "or": {
+      const all: string[] = [];
+      for (const child of node.children) {
+        const tokens = requiredTokens(child);
+        if (!tokens) return null;
+        all.push(...tokens);
+      }
+      return all;
+    }
+    default:
+      return null;
+  }
+}
+
+function intersect(a: Set<number>, b: Set<number>): Set<number> {
+  const result = new Set<number>();
+  a.forEach(value => {
+    if (b.has(value)) result.add(value);
+  });
+  return result;
+}
+
+/**
+ * 统计每个取值出现在多少条记录中；.exact 字段按完整值统计，否则按词元统计
+ */
+function countField(records: DrugLabel[], field: string, limit: number): OpenFDACountResult[] {
+  const exact = field.endsWith(".exact");
+  const counts = new Map<string, number>();
+
+  for (const record of records) {
+    const values = fieldValues(record, stripExact(field));
+    const terms = new Set(exact ? values : values.flatMap(value => tokenize(value)));
+    terms.forEach(term => counts.set(term, (counts.get(term) || 0) + 1));
+  }
+
+  return [...counts.entries()]
+    .map(([term, count]) => ({ term, count }))
+    .sort((a, b) => b.count - a.count || a.term.localeCompare(b.term))
+    .slice(0, limit);
+}
+
+/**
+ * 按 "field:asc|desc" 排序，取字段的第一个值比较；缺少该字段的记录排在最后
+ */
+function sortRecords(records: DrugLabel[], sort: string): DrugLabel[] {
+  const [field, direction] = sort.split(":");
+  const sign = direction === "desc" ? -1 : 1;
+  const keyed = records.map(record => ({ record, value: fieldValues(record, stripExact(field))[0] }));
+
+  return keyed
+    .sort((a, b) => {
+      if (a.value === undefined || b.value === undefined) {
+        return (a.value === undefined ? 1 : 0) - (b.value === undefined ? 1 : 0);
+      }
+      return sign * a.value.localeCompare(b.value, undefined, { numeric: true });
+    })
+    .map(({ record }) => record);
+}
+
+/**
+ * 从批量下载文件重建数据集：先写入临时目录，完成后替换原数据，导入失败不影响现有数据
+ */
+export async function importBulkLabels(
+  dataDir: string,
+  files: string[],
+  onProgress: (records: number, file: string) => void = () => {}
+): Promise<ImportSummary> {
+  if (fs.existsSync(dataDir) && fs.readdirSync(dataDir).length > 0 && !fs.existsSync(path.join(dataDir, INDEX_FILE))) {
+    throw new Error(`${dataDir} is not empty and does not contain an offline dataset; refusing to overwrite it`);
+  }
+
+  const tmpDir = `${dataDir}.importing`;
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+  fs.mkdirSync(tmpDir, { recursive: true });
+
+  const out = fs.openSync(path.join(tmpDir, LABELS_FILE), "w");
+  const offsets: number[] = [];
+  const lengths: number[] = [];
+  const postings: OfflineIndex["postings"] = {};
+  // 词元可能是 "constructor" 等原型属性名，使用无原型对象
+  INDEXED_FIELDS.forEach(field => (postings[field] = Object.create(null)));
+  let meta: OpenFDAMeta = { disclaimer: "", terms: "", license: "", last_updated: "" };
+  let position = 0;
+
+  try {
+    for (const file of files) {
+      for await (const item of readBulkLabelFile(file)) {
+        if (item.kind === "meta") {
+          if (item.meta.last_updated >= meta.last_updated) meta = item.meta;
+          continue;
+        }
+
+        const ordinal = offsets.length;
+        const line = Buffer.from(JSON.stringify(item.record), "utf8");
+        fs.writeSync(out, line);
+        fs.writeSync(out, "\n");
+        offsets.push(position);
+        lengths.push(line.length);
+        position += line.length + 1;
+
+        for (const field of INDEXED_FIELDS) {
+          const tokens = new Set(fieldValues(item.record, field).flatMap(value => tokenize(value)));
+          tokens.forEach(token => {
+            (postings[field][token] ||= []).push(ordinal);
+          });
+        }
+
+        if (offsets.length % 10000 === 0) onProgress(offsets.length, file);
+      }
+      onProgress(offsets.length, file);
+    }
+  } finally {
+    fs.closeSync(out);
+  }
+
+  const index: OfflineIndex = {
+    meta: {
+      disclaimer: meta.disclaimer,
+      terms: meta.terms,
+      license: meta.license,
+      last_updated: meta.last_updated,
+      imported_at: new Date().toISOString(),
+      source_files: files.map(file => path.basename(file)),
+    },
+    offsets,
+    lengths,
+    postings,
+  };
+  fs.writeFileSync(path.join(tmpDir, INDEX_FILE), JSON.stringify(index));
+
+  // 先把旧目录移开再换入新目录，缩短 dataDir 不存在的时间；正在查询的进程仍持有旧文件的描述符
+  const oldDir = `${dataDir}.old`;
+  fs.rmSync(oldDir, { recursive: true, force: true });
+  if (fs.existsSync(dataDir)) fs.renameSync(dataDir, oldDir);
+  fs.renameSync(tmpDir, dataDir);
+  fs.rmSync(oldDir, { recursive: true, force: true });
+
+  return {
+    dataDir,
+    files,
+    records: offsets.length,
+    last_updated: meta.last_updated,
+  };
+}
@@ -0,0 +1,333 @@
+/**
+ * OpenFDA API 客户端
+ * 封装请求构建与错误处理，供 MCP 服务器和 HTTP 服务器共用
+ */
+
+import { CacheStats, ResponseCache, ResponseCacheOptions, cacheKey } from "./cache.js";
+import { OpenFDAError, OpenFDAQuotaError, OpenFDATimeoutError } from "./errors.js";
+import { OfflineLabelStore } from "./offline-store.js";
+import { RateLimiter, parseRetryAt } from "./rate-limiter.js";
+import { AdverseEventReport, DrugLabel, DrugShortage, DrugsFdaApplication, EnforcementReport, NdcProduct, OpenFDACountResult, OpenFDAResponse } from "./types.js";
+
+export const DEFAULT_BASE_URL = "https://api.fda.gov";
+export const DRUG_LABEL_ENDPOINT = "/drug/label.json";
+export const DRUG_EVENT_ENDPOINT = "/drug/event.json";
+export const DRUG_ENFORCEMENT_ENDPOINT = "/drug/enforcement.json";
+export const DRUG_NDC_ENDPOINT = "/drug/ndc.json";
+export const DRUGS_FDA_ENDPOINT = "/drug/drugsfda.json";
+export const DRUG_SHORTAGES_ENDPOINT = "/drug/shortages.json";
+
+// 匿名与带 key 的调用均为每分钟 240 次
+export const DEFAULT_REQUESTS_PER_MINUTE = 240;
+
+export const DEFAULT_TIMEOUT_MS = 30_000;
+
+export interface RetryOptions {
+  /** 最大尝试次数（含首次请求），1 表示不重试 */
+  maxAttempts: number;
+  /** 指数退避的基础延迟 */
+  baseDelayMs: number;
+  /** 单次等待的上限；429 的 Retry-After 超过该值时不再重试 */
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10_000,
+};
+
+export interface RequestOptions {
+  /** 调用方的取消信号，如 MCP 请求的 abort signal */
+  signal?: AbortSignal;
+}
+
+export type FetchLike = (input: string, init?: RequestInit) => Promise<Response>;
+
+export interface OpenFDAQueryParams {
+  search?: string;
+  count?: string;
+  skip?: number;
+  limit?: number;
+  /** 排序，如 "effective_time:desc" */
+  sort?: string;
+}
+
+export interface OpenFDAClientOptions {
+  /** API 根地址，测试时可指向本地桩服务 */
+  baseUrl?: string;
+  /** 可注入的 fetch 实现，默认使用全局 fetch */
+  fetch?: FetchLike;
+  /** OpenFDA API key，随每个请求以 api_key 参数发送 */
+  apiKey?: string;
+  /** 客户端限流配置，传 false 关闭 */
+  rateLimit?: { requestsPerMinute: number } | false;
+  /** 单次请求超时时间 */
+  timeoutMs?: number;
+  /** 429/5xx/网络错误的重试策略 */
+  retry?: Partial<RetryOptions>;
+  /** 响应缓存配置，传 false 关闭 */
+  cache?: ResponseCacheOptions | false;
+  /** 离线数据集目录；设置后标签查询由本地数据集提供，不再访问网络 */
+  offlineDataDir?: string;
+}
+
+export class OpenFDAClient {
+  private baseUrl: string;
+  private fetchImpl: FetchLike;
+  private apiKey?: string;
+  private rateLimiter: RateLimiter | null;
+  private timeoutMs: number;
+  private retry: RetryOptions;
+  private cache: ResponseCache | null;
+  private offline: OfflineLabelStore | null;
+
+  constructor(options: OpenFDAClientOptions = {}) {
+    this.baseUrl = (options.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, "");
+    this.fetchImpl = options.fetch || ((input, init) => fetch(input, init));
+    this.apiKey = options.apiKey || undefined;
+    this.rateLimiter = options.rateLimit === false
+      ? null
+      : new RateLimiter(options.rateLimit || { requestsPerMinute: DEFAULT_REQUESTS_PER_MINUTE });
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.retry = { ...DEFAULT_RETRY_OPTIONS, ...options.retry };
+    this.cache = options.cache ? new ResponseCache(options.cache) : null;
+    this.offline = options.offlineDataDir ? new OfflineLabelStore(options.offlineDataDir) : null;
+  }
+
+  /**
+   * 查询任意 OpenFDA 端点，如 "/drug/label.json"
+   * 命中缓存时直接返回；429/5xx/网络错误/超时按退避策略重试，调用方取消时立即终止
+   */
+  async request<T>(endpoint: string, params: OpenFDAQueryParams, options: RequestOptions = {}): Promise<OpenFDAResponse<T>> {
+    if (this.offline) {
+      return this.requestOffline<T>(endpoint, params);
+    }
+
+    const key = cacheKey(endpoint, params);
+    const cached = this.cache?.get<T>(key);
+    if (cached) {
+      return cached;
+    }
+
+    const url = this.buildUrl(endpoint, params);
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const data = await this.attempt<T>(url, options.signal);
+        this.cache?.set(key, data);
+        return data;
+      } catch (error) {
+        const delay = this.retryDelay(error, attempt, options.signal);
+        if (delay === null) {
+          throw error;
+        }
+        await sleep(delay, options.signal);
+      }
+    }
+  }
+
+  private async requestOffline<T>(endpoint: string, params: OpenFDAQueryParams): Promise<OpenFDAResponse<T>> {
+    if (endpoint !== DRUG_LABEL_ENDPOINT) {
+      throw new OpenFDAError(501, `${endpoint} is not available in offline mode; only ${DRUG_LABEL_ENDPOINT} is served from the local dataset`);
+    }
+    return await this.offline!.query(params) as OpenFDAResponse<T>;
+  }
+
+  private async attempt<T>(url: string, signal?: AbortSignal): Promise<OpenFDAResponse<T>> {
+    signal?.throwIfAborted();
+    await this.rateLimiter?.acquire(signal);
+
+    // 每次尝试独立计时，并跟随调用方的取消信号
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal?.reason);
+    signal?.addEventListener("abort", onAbort, { once: true });
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, this.timeoutMs);
+
+    try {
+      const response = await this.fetchImpl(url, { signal: controller.signal });
+      const quotaError = this.rateLimiter?.observe(response.status, response.headers);
+
+      if (response.status === 429) {
+        const errorText = await response.text();
+        throw quotaError || new OpenFDAQuotaError(
+          parseRetryAt(response.headers) || new Date(Date.now() + 60_000),
+          { body: errorText }
+        );
+      }
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new OpenFDAError(response.status, errorText);
+      }
+
+      return await response.json() as OpenFDAResponse<T>;
+    } catch (error) {
+      if (timedOut) {
+        throw new OpenFDATimeoutError(this.timeoutMs);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    }
+  }
+
+  /**
+   * 计算下一次重试前的等待时间，返回 null 表示不再重试
+   */
+  private retryDelay(error: unknown, attempt: number, signal?: AbortSignal): number | null {
+    if (attempt >= this.retry.maxAttempts || signal?.aborted) {
+      return null;
+    }
+
+    if (error instanceof OpenFDAQuotaError) {
+      const wait = error.retryAt.getTime() - Date.now();
+      return wait <= this.retry.maxDelayMs ? Math.max(0, wait) : null;
+    }
+
+    const retryable =
+      error instanceof OpenFDATimeoutError ||
+      (error instanceof OpenFDAError && error.status >= 500) ||
+      // fetch 在网络层失败时抛出 TypeError
+      error instanceof TypeError;
+    if (!retryable) {
+      return null;
+    }
+
+    // full jitter 指数退避
+    const cap = Math.min(this.retry.maxDelayMs, this.retry.baseDelayMs * 2 ** (attempt - 1));
+    return Math.round(Math.random() * cap);
+  }
+
+  /**
+   * 检索药品标签记录
+   */
+  async searchLabels(params: Omit<OpenFDAQueryParams, "count">, options: RequestOptions = {}): Promise<OpenFDAResponse<DrugLabel>> {
+    return this.request<DrugLabel>(DRUG_LABEL_ENDPOINT, params, options);
+  }
+
+  /**
+   * 按字段统计药品标签
+   */
+  async countLabels(params: OpenFDAQueryParams & { count: string }, options: RequestOptions = {}): Promise<OpenFDAResponse<OpenFDACountResult>> {
+    return this.request<OpenFDACountResult>(DRUG_LABEL_ENDPOINT, params, options);
+  }
+
+  /**
+   * 检索 FAERS 不良事件报告
+   */
+  async searchEvents(params: Omit<OpenFDAQueryParams, "count">, options: RequestOptions = {}): Promise<OpenFDAResponse<AdverseEventReport>> {
+    return this.request<AdverseEventReport>(DRUG_EVENT_ENDPOINT, params, options);
+  }
+
+  /**
+   * 按字段统计 FAERS 不良事件报告
+   */
+  async countEvents(params: OpenFDAQueryParams & { count: string }, options: RequestOptions = {}): Promise<OpenFDAResponse<OpenFDACountResult>> {
+    return this.request<OpenFDACountResult>(DRUG_EVENT_ENDPOINT, params, options);
+  }
+
+  /**
+   * 检索药品召回（执法）报告
+   */
+  async searchRecalls(params: Omit<OpenFDAQueryParams, "count">, options: RequestOptions = {}): Promise<OpenFDAResponse<EnforcementReport>> {
+    return this.request<EnforcementReport>(DRUG_ENFORCEMENT_ENDPOINT, params, options);
+  }
+
+  /**
+   * 检索 NDC 目录
+   */
+  async searchNdc(params: Omit<OpenFDAQueryParams, "count">, options: RequestOptions = {}): Promise<OpenFDAResponse<NdcProduct>> {
+    return this.request<NdcProduct>(DRUG_NDC_ENDPOINT, params, options);
+  }
+
+  /**
+   * 检索 Drugs@FDA 申请记录
+   */
+  async searchApplications(params: Omit<OpenFDAQueryParams, "count">, options: RequestOptions = {}): Promise<OpenFDAResponse<DrugsFdaApplication>> {
+    return this.request<DrugsFdaApplication>(DRUGS_FDA_ENDPOINT, params, options);
+  }
+
+  /**
+   * 检索药品短缺记录
+   */
+  async searchShortages(params: Omit<OpenFDAQueryParams, "count">, options: RequestOptions = {}): Promise<OpenFDAResponse<DrugShortage>> {
+    return this.request<DrugShortage>(DRUG_SHORTAGES_ENDPOINT, params, options);
+  }
+
+  /**
+   * 当前限流状态，供健康检查展示
+   */
+  rateLimitStats() {
+    return this.rateLimiter?.stats() || null;
+  }
+
+  /**
+   * 缓存命中统计，未启用缓存时为 null
+   */
+  cacheStats(): CacheStats | null {
+    return this.cache?.stats() || null;
+  }
+
+  /**
+   * 立即写出响应缓存中尚未保存的变更；由服务器在退出时调用
+   */
+  flushCache() {
+    this.cache?.flush();
+  }
+
+  /**
+   * 离线数据集信息，在线模式下为 null
+   */
+  offlineInfo() {
+    return this.offline?.info() || null;
+  }
+
+  private buildUrl(endpoint: string, params: OpenFDAQueryParams): string {
+    const url = new URL(this.baseUrl + endpoint);
+
+    if (params.search) {
+      url.searchParams.set("search", params.search);
+    }
+    if (params.count) {
+      url.searchParams.set("count", params.count);
+    }
+    if (params.skip) {
+      url.searchParams.set("skip", params.skip.toString());
+    }
+    if (params.limit) {
+      url.searchParams.set("limit", params.limit.toString());
+    }
+    if (params.sort) {
+      url.searchParams.set("sort", params.sort);
+    }
+    if (this.apiKey) {
+      url.searchParams.set("api_key", this.apiKey);
+    }
+
+    return url.toString();
+  }
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
@@ -0,0 +1,155 @@
+/**
+ * OpenFDA search 查询构建器
+ * 以 SearchNode 语法树组合查询，序列化时统一转义与加括号，避免字符串拼接带来的注入和优先级问题
+ */
+
+import { SearchNode } from "./search-syntax.js";
+
+export class QueryBuilderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "QueryBuilderError";
+  }
+}
+
+type Part = SearchNode | null | undefined | false;
+
+// Lucene/Elasticsearch query_string 中有特殊含义的字符
+const SPECIAL_CHARS = /[+\-=&|><!(){}\[\]^"~*?:\\/]/g;
+const FIELD_PATTERN = /^[A-Za-z0-9_]+(\.[A-Za-z0-9_]+)*$/;
+const RANGE_VALUE_PATTERN = /^(\*|[A-Za-z0-9_.\-]+)$/;
+
+function checkField(field: string): string {
+  if (!FIELD_PATTERN.test(field)) {
+    throw new QueryBuilderError(`Invalid field name: ${JSON.stringify(field)}`);
+  }
+  return field;
+}
+
+function checkValue(value: string): string {
+  if (value.trim().length === 0) {
+    throw new QueryBuilderError("Query values must not be empty");
+  }
+  return value.trim();
+}
+
+/**
+ * 单个词项；包含空白时自动转为短语
+ */
+export function term(field: string | undefined, value: string): SearchNode {
+  const trimmed = checkValue(value);
+  return {
+    type: "term",
+    field: field === undefined ? undefined : checkField(field),
+    value: trimmed,
+    phrase: /\s/.test(trimmed),
+  };
+}
+
+/**
+ * 短语匹配，如 openfda.brand_name:"extra strength"
+ */
+export function phrase(field: string | undefined, value: string): SearchNode {
+  return {
+    type: "term",
+    field: field === undefined ? undefined : checkField(field),
+    value: checkValue(value),
+    phrase: true,
+  };
+}
+
+/**
+ * 闭区间范围，"*" 表示不设边界
+ */
+export function range(field: string, from: string | number, to: string | number): SearchNode {
+  const bounds = [String(from), String(to)];
+  for (const bound of bounds) {
+    if (!RANGE_VALUE_PATTERN.test(bound)) {
+      throw new QueryBuilderError(`Invalid range bound: ${JSON.stringify(bound)}`);
+    }
+  }
+  return { type: "range", field: checkField(field), from: bounds[0], to: bounds[1] };
+}
+
+export function exists(field: string): SearchNode {
+  return { type: "exists", field: checkField(field) };
+}
+
+/**
+ * AND 组合；忽略空的可选子句，只剩一个子句时直接返回该子句
+ */
+export function and(...parts: Part[]): SearchNode | null {
+  return combine("and", parts);
+}
+
+export function or(...parts: Part[]): SearchNode | null {
+  return combine("or", parts);
+}
+
+export function not(part: SearchNode): SearchNode {
+  return { type: "not", child: part };
+}
+
+function combine(type: "and" | "or", parts: Part[]): SearchNode | null {
+  const children: SearchNode[] = [];
+  for (const part of parts) {
+    if (!part) continue;
+    // 展平同类型的嵌套组合
+    if (part.type === type) {
+      children.push(...part.children);
+    } else {
+      children.push(part);
+    }
+  }
+  if (children.length === 0) return null;
+  if (children.length === 1) return children[0];
+  return { type, children };
+}
+
+/**
+ * 按品牌名、通用名或活性成分匹配药物
+ */
+export function drugNameQuery(drugName: string): SearchNode {
+  return or(
+    phrase("openfda.brand_name", drugName),
+    phrase("openfda.generic_name", drugName),
+    phrase("openfda.substance_name", drugName)
+  )!;
+}
+
+export function escapeTerm(value: string): string {
+  return value.replace(SPECIAL_CHARS, "\\$&");
+}
+
+export function escapePhrase(value: string): string {
+  return value.replace(/[\\"]/g, "\\$&");
+}
+
+/**
+ * 序列化为 OpenFDA search 参数字符串
+ */
+export function buildSearch(node: SearchNode): string {
+  switch (node.type) {
+    case "term": {
+      const prefix = node.field ? `${node.field}:` : "";
+      // 与运算符同名的词只能以短语形式出现
+      const quoted = node.phrase || /^(AND|OR|NOT|TO)$/.test(node.value);
+      return prefix + (quoted ? `"${escapePhrase(node.value)}"` : escapeTerm(node.value));
+    }
+    case "range":
+      return `${node.field}:[${node.from} TO ${node.to}]`;
+    case "exists":
+      return `_exists_:${node.field}`;
+    case "not":
+      // 连续的 NOT（"NOT NOT x"）在 query_string 中无法解析，内层加括号
+      return node.child.type === "not" ? `NOT (${buildSearch(node.child)})` : `NOT ${group(node.child)}`;
+    case "and":
+    case "or":
+      return node.children.map(group).join(node.type === "and" ? " AND " : " OR ");
+  }
+}
+
+function group(node: SearchNode): string {
+  const text = buildSearch(node);
+  return node.type === "and" || node.type === "or" ? `(${text})` : text;
+}
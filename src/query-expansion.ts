@@ -0,0 +1,206 @@
+/**
+ * 药品名称与病症的查询扩展
+ * 药品名称按同义词表（品牌名/通用名/INN/缩写）与已取回标签的 openfda 名称扩展；
+ * 口语病症表述映射为标签中的临床术语。扩展结果随工具输出返回
+ */
+
+import fs from "fs";
+import { BUNDLED_SYNONYMS, SynonymTables } from "./medical-synonyms.js";
+import { and, drugNameQuery, or, phrase, term } from "./query-builder.js";
+import { SearchNode } from "./search-syntax.js";
+import { DrugLabel } from "./types.js";
+
+// 每个药品名称最多扩展出的名称数，避免 OpenFDA 查询过长
+const MAX_DRUG_TERMS = 8;
+
+// 从标签学到的名称组上限
+const MAX_LEARNED_NAMES = 500;
+
+export interface DrugExpansion {
+  input: string;
+  /** 实际用于查询的名称，第一项为输入 */
+  terms: string[];
+  /** 来自同义词表的名称 */
+  synonyms: string[];
+  /** 来自已取回标签 openfda.brand_name/generic_name/substance_name 的名称 */
+  label_names: string[];
+}
+
+export interface ConditionExpansion {
+  input: string;
+  terms: string[];
+  mappings: Array<{ lay_term: string; clinical_terms: string[] }>;
+}
+
+export interface QueryExpansionReport {
+  drug?: DrugExpansion;
+  condition?: ConditionExpansion;
+  query?: ConditionExpansion;
+}
+
+interface ConditionMapping {
+  layTerm: string;
+  pattern: RegExp;
+  clinicalTerms: string[];
+}
+
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase().replace(/[\s-]+/g, " ");
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function unique(terms: string[]): string[] {
+  const seen = new Set<string>();
+  return terms.filter(term => {
+    const key = normalizeName(term);
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * 单一活性成分标签的名称；复方标签（如 "ACETAMINOPHEN AND CODEINE"）不作为同义词来源
+ */
+function singleIngredientNames(label: DrugLabel): string[] {
+  const openfda = label.openfda;
+  if (!openfda || (openfda.substance_name?.length ?? 0) !== 1) return [];
+  return [
+    ...(openfda.generic_name || []),
+    ...(openfda.substance_name || []),
+    ...(openfda.brand_name || []),
+  ];
+}
+
+/**
+ * 读取 SYNONYMS_FILE；文件不可读时记录错误并忽略
+ */
+export function loadSynonymFile(filePath: string): SynonymTables | undefined {
+  try {
+    const stored = JSON.parse(fs.readFileSync(filePath, "utf8")) as Partial<SynonymTables>;
+    return { drugs: stored.drugs || [], conditions: stored.conditions || {} };
+  } catch (error) {
+    console.error(`[synonyms] Ignoring unreadable synonym file ${filePath}:`, error);
+    return undefined;
+  }
+}
+
+export class QueryExpander {
+  private drugGroups = new Map<string, string[]>();
+  private learnedNames = new Map<string, string[]>();
+  private conditions: ConditionMapping[] = [];
+
+  constructor(tables: SynonymTables[] = [BUNDLED_SYNONYMS]) {
+    for (const table of tables) {
+      for (const group of table.drugs) {
+        // 同一名称出现在多组时合并
+        const merged = unique([...group.flatMap(name => this.drugGroups.get(normalizeName(name)) || []), ...group]);
+        merged.forEach(name => this.drugGroups.set(normalizeName(name), merged));
+      }
+      for (const [layTerm, clinicalTerms] of Object.entries(table.conditions)) {
+        const cjk = /[\u4e00-\u9fff]/.test(layTerm);
+        this.conditions.push({
+          layTerm,
+          // 英文按词边界匹配，允许复数
+          pattern: cjk
+            ? new RegExp(escapeRegExp(layTerm))
+            : new RegExp(`\\b${escapeRegExp(layTerm).replace(/\s+/g, "\\s+")}s?\\b`, "i"),
+          clinicalTerms,
+        });
+      }
+    }
+  }
+
+  expandDrug(name: string): DrugExpansion {
+    const key = normalizeName(name);
+    const synonyms = (this.drugGroups.get(key) || []).filter(term => normalizeName(term) !== key);
+    const labelNames = (this.learnedNames.get(key) || []).filter(term => normalizeName(term) !== key);
+
+    return {
+      input: name,
+      terms: unique([name, ...synonyms, ...labelNames]).slice(0, MAX_DRUG_TERMS),
+      synonyms,
+      label_names: labelNames,
+    };
+  }
+
+  /**
+   * 用取回标签的名称补充扩展结果，并记住这些名称供后续查询使用
+   */
+  seedFromLabels(expansion: DrugExpansion, labels: DrugLabel[]): DrugExpansion {
+    const known = new Set(expansion.terms.map(normalizeName));
+    const names = unique(labels.flatMap(singleIngredientNames))
+      .filter(name => !known.has(normalizeName(name)));
+    if (names.length === 0) return expansion;
+
+    const key = normalizeName(expansion.input);
+    this.learnedNames.delete(key);
+    this.learnedNames.set(key, unique([...(this.learnedNames.get(key) || []), ...expansion.label_names, ...names]));
+    while (this.learnedNames.size > MAX_LEARNED_NAMES) {
+      this.learnedNames.delete(this.learnedNames.keys().next().value as string);
+    }
+
+    return {
+      ...expansion,
+      label_names: unique([...expansion.label_names, ...names]),
+    };
+  }
+
+  /**
+   * 口语病症表述 -> 临床术语；输入本身保留为第一项
+   */
+  expandCondition(text: string): ConditionExpansion {
+    const mappings = this.conditions
+      .filter(mapping => mapping.pattern.test(text))
+      .map(mapping => ({ lay_term: mapping.layTerm, clinical_terms: mapping.clinicalTerms }));
+
+    return {
+      input: text,
+      terms: unique([text, ...mappings.flatMap(mapping => mapping.clinical_terms)]),
+      mappings,
+    };
+  }
+
+  drugQuery(expansion: DrugExpansion): SearchNode {
+    return or(...expansion.terms.map(drugNameQuery))!;
+  }
+
+  conditionQuery(field: string, expansion: ConditionExpansion): SearchNode {
+    return or(...expansion.terms.map(term => phrase(field, term)))!;
+  }
+
+  /**
+   * 自由文本查询：每个词都必须出现；命中口语病症表述的部分改为“该表述或任一临床术语”，
+   * 使 "high blood pressure" 也能取回只写 hypertension 的标签。没有可用的词时返回 null
+   */
+  textQuery(expansion: ConditionExpansion): SearchNode | null {
+    const matched = new Set(expansion.mappings.map(mapping => mapping.lay_term));
+    // 先处理较长的表述，避免 "chest pain" 被 "pain" 拆开
+    const mappings = this.conditions
+      .filter(mapping => matched.has(mapping.layTerm))
+      .sort((a, b) => b.layTerm.length - a.layTerm.length);
+
+    let rest = expansion.input;
+    const clauses: SearchNode[] = [];
+    for (const mapping of mappings) {
+      const match = rest.match(mapping.pattern);
+      if (!match) continue;
+      rest = `${rest.slice(0, match.index)} ${rest.slice(match.index! + match[0].length)}`;
+      clauses.push(or(phrase(undefined, match[0]), ...mapping.clinicalTerms.map(clinical => phrase(undefined, clinical)))!);
+    }
+
+    const words = rest.split(/\s+/).filter(word => word.length > 2);
+    return and(...clauses, ...words.map(word => term(undefined, word)));
+  }
+}
+
+/**
+ * 内置同义词表，加上可选的 SYNONYMS_FILE
+ */
+export function createQueryExpander(synonymsFile?: string): QueryExpander {
+  const extra = synonymsFile ? loadSynonymFile(synonymsFile) : undefined;
+  return new QueryExpander(extra ? [BUNDLED_SYNONYMS, extra] : [BUNDLED_SYNONYMS]);
+}
@@ -1,9 +1,14 @@
 /**
  * 轻量级 RAG 工具库
  * 提供文本分块、检索排序、摘要生成等功能
- * 无外部依赖，适用于 MCP 服务端内嵌使用
+ * 无外部依赖，适用于 MCP 服务端内嵌使用（语义检索的向量由调用方传入的 Embedder 提供）
  */
 
+import { Embedder, cosineSimilarity } from "./embeddings.js";
+import { DEFAULT_LANGUAGE, Language, MessageKey, message } from "./messages.js";
+import { RequestOptions } from "./openfda-client.js";
+import { QueryExpansionReport } from "./query-expansion.js";
+
 export interface TextChunk {
   id: string;
   text: string;
@@ -17,67 +22,245 @@ export interface RAGResult {
   query?: string;
   drug?: string;
   condition?: string;
+  query_expansion?: QueryExpansionReport;
+  /** 按查询意图加权的章节 */
+  section_boosts?: {
+    intents: string[];
+    boosts: Record<string, number>;
+  };
   top_chunks: TextChunk[];
   summary: string;
-  citations: Array<{
-    id: string;
-    title?: string;
-    type?: string;
-  }>;
+  citations: Citation[];
 }
 
 /**
- * 将长文本分块
+ * 引用：同一文档（标签）同一章节的文本块合并为一条
+ * 标签类字段取自文本块元数据（见 chunk-index.ts 的 chunkDrugLabel），其他来源的文本块只有 id/type/title
  */
-export function chunkText(
-  text: string, 
-  chunkSize: number = 1000, 
-  overlap: number = 200,
-  sourceId: string = '',
-  metadata: Record<string, any> = {}
-): TextChunk[] {
-  if (!text || text.length === 0) return [];
-  
-  const chunks: TextChunk[] = [];
-  let start = 0;
-  let chunkIndex = 0;
-  
-  while (start < text.length) {
-    const end = Math.min(start + chunkSize, text.length);
-    let chunkText = text.slice(start, end);
-    
-    // 尝试在句号或换行处断开，避免截断句子
-    if (end < text.length) {
-      const lastPeriod = chunkText.lastIndexOf('.');
-      const lastNewline = chunkText.lastIndexOf('\n');
-      const breakPoint = Math.max(lastPeriod, lastNewline);
-      
-      if (breakPoint > chunkSize * 0.7) { // 至少保留70%的内容
-        chunkText = chunkText.slice(0, breakPoint + 1);
+export interface Citation {
+  /** 文档 id；FDA 标签为 SPL 文档 id */
+  id: string;
+  type: string;
+  title?: string;
+  set_id?: string;
+  version?: string;
+  effective_time?: string;
+  brand_name?: string;
+  generic_name?: string;
+  manufacturer?: string;
+  section?: string;
+  section_title?: string;
+  /** 引用所依据的文本块，对应摘要中每句末尾的 [文本块 id] */
+  chunk_ids: string[];
+  url?: string;
+}
+
+export const DEFAULT_CHUNK_TOKENS = 256;
+export const DEFAULT_CHUNK_OVERLAP_TOKENS = 32;
+
+export interface TokenChunkOptions {
+  /** 每块的近似 token 上限，含标题行 */
+  maxTokens?: number;
+  /** 相邻块之间重叠的近似 token 数，按整句重叠 */
+  overlapTokens?: number;
+  /** 每块开头重复的标题行，如 "Drug | WARNINGS > 5.1 Hepatotoxicity" */
+  header?: string;
+  sourceId?: string;
+  metadata?: Record<string, any>;
+}
+
+interface TextUnit {
+  text: string;
+  /** 原文中是否另起一行 */
+  newline: boolean;
+  tokens: number;
+}
+
+/**
+ * 近似 token 数：汉字按 1 个计，其余按每 4 个字符 1 个计
+ */
+export function estimateTokens(text: string): number {
+  const cjk = (text.match(/[\u4e00-\u9fff]/g) || []).length;
+  return cjk + Math.ceil((text.length - cjk) / 4);
+}
+
+/**
+ * 按行与句子切分；超过预算的长句再按词切分
+ */
+function splitUnits(text: string, budget: number): TextUnit[] {
+  const units: TextUnit[] = [];
+
+  for (const line of text.split(/\n+/)) {
+    const sentences = line.split(/(?<=[.!?;。！？；])\s+/).filter(sentence => sentence.trim());
+    sentences.forEach((sentence, index) => {
+      const newline = index === 0;
+      if (estimateTokens(sentence) <= budget) {
+        units.push({ text: sentence.trim(), newline, tokens: estimateTokens(sentence.trim()) });
+        return;
       }
-    }
-    
+
+      let piece = '';
+      let first = newline;
+      for (const word of sentence.split(/\s+/)) {
+        if (piece && estimateTokens(`${piece} ${word}`) > budget) {
+          units.push({ text: piece, newline: first, tokens: estimateTokens(piece) });
+          piece = '';
+          first = false;
+        }
+        piece = piece ? `${piece} ${word}` : word;
+      }
+      if (piece) units.push({ text: piece, newline: first, tokens: estimateTokens(piece) });
+    });
+  }
+
+  return units;
+}
+
+/**
+ * 按近似 token 预算分块：只在句子或行边界断开，每块重复标题行
+ * 调用方按章节/小节分别调用，因此块不会跨越章节边界
+ */
+export function chunkTextByTokens(text: string, options: TokenChunkOptions = {}): TextChunk[] {
+  const {
+    maxTokens = DEFAULT_CHUNK_TOKENS,
+    overlapTokens = DEFAULT_CHUNK_OVERLAP_TOKENS,
+    header,
+    sourceId = '',
+    metadata = {}
+  } = options;
+  if (!text || !text.trim()) return [];
+
+  const prefix = header ? `${header}\n` : '';
+  // 标题行过长时仍保留最少 32 token 的正文空间
+  const budget = Math.max(32, maxTokens - estimateTokens(prefix));
+  const chunks: TextChunk[] = [];
+
+  let current: TextUnit[] = [];
+  let currentTokens = 0;
+  let fresh = false;
+
+  const flush = () => {
+    const body = current
+      .map((unit, index) => (index === 0 ? '' : unit.newline ? '\n' : ' ') + unit.text)
+      .join('');
+    const chunkIndex = chunks.length;
     chunks.push({
       id: `${sourceId}_chunk_${chunkIndex}`,
-      text: chunkText.trim(),
+      text: prefix + body,
       source: sourceId,
-      metadata: { ...metadata, chunkIndex, start, end: start + chunkText.length }
+      // body_start: 标题行之后正文的起始位置，摘要抽取句子时跳过标题行
+      metadata: { ...metadata, chunkIndex, tokens: estimateTokens(prefix + body), body_start: prefix.length }
     });
-    
-    start += chunkText.length - overlap;
-    chunkIndex++;
-    
-    // 防止无限循环
-    if (start <= chunks[chunks.length - 1]?.metadata?.start) {
-      start = chunks[chunks.length - 1].metadata.start + chunkSize;
+  };
+
+  for (const unit of splitUnits(text, budget)) {
+    if (fresh && currentTokens + unit.tokens > budget) {
+      flush();
+
+      // 下一块以上一块末尾的整句开头，重叠部分不超过 overlapTokens，且不挤占当前句
+      const carried: TextUnit[] = [];
+      let carriedTokens = 0;
+      for (let i = current.length - 1; i >= 0; i--) {
+        const next = carriedTokens + current[i].tokens;
+        if (next > overlapTokens || next + unit.tokens > budget) break;
+        carried.unshift(current[i]);
+        carriedTokens = next;
+      }
+      current = carried;
+      currentTokens = carriedTokens;
     }
+
+    current.push(unit);
+    currentTokens += unit.tokens;
+    fresh = true;
   }
-  
+  if (fresh) flush();
+
   return chunks;
 }
 
 /**
- * 基于关键词重叠和 TF-IDF 的简版文本评分
+ * 检索策略：为语料中的每个文本块打分，分数越高越相关
+ * 语料即本次请求抓取并分块的全部文本块，IDF 等统计量在其上计算
+ */
+export interface Retriever {
+  name: string;
+  score(
+    chunks: TextChunk[],
+    query: string,
+    extraKeywords?: string[],
+    options?: RequestOptions
+  ): number[] | Promise<number[]>;
+}
+
+// 检索用英文停用词
+const STOPWORDS = new Set([
+  'a', 'about', 'after', 'all', 'also', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'been', 'before',
+  'being', 'between', 'both', 'but', 'by', 'can', 'could', 'did', 'do', 'does', 'during', 'each', 'for',
+  'from', 'had', 'has', 'have', 'he', 'her', 'his', 'how', 'if', 'in', 'into', 'is', 'it', 'its', 'may',
+  'more', 'most', 'no', 'not', 'of', 'on', 'or', 'other', 'over', 'she', 'should', 'so', 'some', 'such',
+  'than', 'that', 'the', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'those', 'to', 'under',
+  'up', 'was', 'were', 'what', 'when', 'which', 'while', 'who', 'will', 'with', 'within', 'would', 'you'
+]);
+
+/**
+ * 轻量词干还原：处理复数、-ing/-ed、-ly 等常见英文后缀，
+ * 使 "reactions"/"reaction"、"bleeding"/"bleed" 归为同一词项
+ */
+export function stem(word: string): string {
+  if (word.length <= 3 || /[^a-z]/.test(word)) return word;
+
+  let result = word;
+  if (/ies$/.test(result)) {
+    result = result.slice(0, -3) + 'y';
+  } else if (/sses$/.test(result)) {
+    result = result.slice(0, -2);
+  } else if (/[^su]s$/.test(result)) {
+    result = result.slice(0, -1);
+  }
+
+  for (const suffix of ['ational', 'ization']) {
+    if (result.endsWith(suffix)) {
+      return result.slice(0, -suffix.length) + (suffix === 'ational' ? 'ate' : 'ize');
+    }
+  }
+
+  // "eed" 结尾的词（如 bleed）不去 -ed
+  const verbal = /eed$/.test(result) ? null : result.match(/^(.{3,}?)(ing|ed)$/);
+  if (verbal && /[aeiouy]/.test(verbal[1])) {
+    result = verbal[1];
+    // 去掉双写辅音：stopped -> stop
+    if (/([^aeiouylsz])\1$/.test(result)) {
+      result = result.slice(0, -1);
+    }
+  } else if (/.{4,}ly$/.test(result)) {
+    result = result.slice(0, -2);
+  }
+
+  // 去掉词尾 e，使 dose/doses/dosing 归为同一词项
+  if (result.length > 3 && result.endsWith('e')) {
+    result = result.slice(0, -1);
+  }
+
+  return result;
+}
+
+/**
+ * 分词：小写化，按非字母数字切分，去停用词后做词干还原；连续汉字作为一个词项
+ */
+export function tokenize(text: string): string[] {
+  const tokens = text.toLowerCase().match(/[a-z0-9]+|[\u4e00-\u9fff]+/g) || [];
+  return tokens
+    .filter(token => token.length > 1 && !STOPWORDS.has(token))
+    .map(stem);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * 基于关键词出现次数的简版文本评分（按文本长度归一化，不含 IDF）
  */
 export function scoreChunkByQuery(
   chunk: TextChunk, 
@@ -95,9 +278,9 @@ export function scoreChunkByQuery(
   
   // 关键词匹配得分
   for (const keyword of allKeywords) {
-    const matches = (text.match(new RegExp(keyword, 'g')) || []).length;
+    const matches = (text.match(new RegExp(escapeRegExp(keyword), 'g')) || []).length;
     if (matches > 0) {
-      // TF 权重：词频 * log(1 + 词长度)
+      // 词频 * log(1 + 词长度)
       score += matches * Math.log(1 + keyword.length);
     }
   }
@@ -113,19 +296,163 @@ export function scoreChunkByQuery(
   return score;
 }
 
+export const keywordRetriever: Retriever = {
+  name: 'keyword',
+  score: (chunks, query, extraKeywords = []) =>
+    chunks.map(chunk => scoreChunkByQuery(chunk, query, extraKeywords))
+};
+
+export interface BM25Options {
+  /** 词频饱和参数 */
+  k1?: number;
+  /** 文档长度归一化程度 */
+  b?: number;
+  /** 附加关键词相对查询词的权重，避免通用安全词盖过查询本身 */
+  extraKeywordWeight?: number;
+}
+
+/**
+ * BM25 评分：IDF 按本次语料（chunks）的文档频率计算
+ * idf = ln(1 + (N - df + 0.5) / (df + 0.5))
+ */
+export function bm25Scores(
+  chunks: TextChunk[],
+  query: string,
+  extraKeywords: string[] = [],
+  options: BM25Options = {}
+): number[] {
+  const { k1 = 1.2, b = 0.75, extraKeywordWeight = 0.3 } = options;
+  if (chunks.length === 0) return [];
+
+  const documents = chunks.map(chunk => {
+    const termFrequencies = new Map<string, number>();
+    const tokens = tokenize(chunk.text);
+    tokens.forEach(token => termFrequencies.set(token, (termFrequencies.get(token) || 0) + 1));
+    return { length: tokens.length, termFrequencies };
+  });
+  const averageLength = documents.reduce((sum, doc) => sum + doc.length, 0) / documents.length || 1;
+
+  const documentFrequency = new Map<string, number>();
+  for (const doc of documents) {
+    for (const token of doc.termFrequencies.keys()) {
+      documentFrequency.set(token, (documentFrequency.get(token) || 0) + 1);
+    }
+  }
+
+  // 查询词权重为 1，附加关键词按 extraKeywordWeight 计入；重复出现的词取最大权重
+  const queryWeights = new Map<string, number>();
+  tokenize(query).forEach(token => queryWeights.set(token, 1));
+  extraKeywords.flatMap(tokenize).forEach(token => {
+    if (!queryWeights.has(token)) queryWeights.set(token, extraKeywordWeight);
+  });
+
+  return documents.map(doc => {
+    let score = 0;
+    for (const [token, weight] of queryWeights) {
+      const tf = doc.termFrequencies.get(token);
+      if (!tf) continue;
+      const df = documentFrequency.get(token) || 0;
+      const idf = Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+      score += weight * idf * (tf * (k1 + 1)) / (tf + k1 * (1 - b + b * doc.length / averageLength));
+    }
+    return score;
+  });
+}
+
+export function createBM25Retriever(options: BM25Options = {}): Retriever {
+  return {
+    name: 'bm25',
+    score: (chunks, query, extraKeywords = []) => bm25Scores(chunks, query, extraKeywords, options)
+  };
+}
+
+export const bm25Retriever = createBM25Retriever();
+
+// 可按名称选择的词法检索策略
+export const RETRIEVERS: Record<string, Retriever> = {
+  bm25: bm25Retriever,
+  keyword: keywordRetriever
+};
+
+/**
+ * 语义检索：查询与文本块向量的余弦相似度
+ * 查询为空时以附加关键词代替
+ */
+export function createSemanticRetriever(embedder: Embedder): Retriever {
+  return {
+    name: 'semantic',
+    async score(chunks, query, extraKeywords = [], options = {}) {
+      if (chunks.length === 0) return [];
+
+      const queryText = query.trim() || extraKeywords.join(' ');
+      const [queryVector, ...chunkVectors] = await embedder.embed(
+        [queryText, ...chunks.map(chunk => chunk.text)],
+        options
+      );
+      return chunkVectors.map(vector => cosineSimilarity(queryVector, vector));
+    }
+  };
+}
+
+/**
+ * 混合检索：倒数排名融合（RRF），score = Σ 1 / (k + rank)
+ * 各检索器的分数量纲不同，只使用排名融合
+ */
+export function createHybridRetriever(retrievers: Retriever[], k: number = 60): Retriever {
+  return {
+    name: retrievers.map(retriever => retriever.name).join('+'),
+    async score(chunks, query, extraKeywords = [], options = {}) {
+      const fused = new Array<number>(chunks.length).fill(0);
+      const rankings = await Promise.all(
+        retrievers.map(retriever => retriever.score(chunks, query, extraKeywords, options))
+      );
+
+      for (const scores of rankings) {
+        const order = scores
+          .map((score, index) => ({ score, index }))
+          .sort((a, b) => b.score - a.score);
+        order.forEach(({ index }, rank) => {
+          fused[index] += 1 / (k + rank + 1);
+        });
+      }
+
+      return fused;
+    }
+  };
+}
+
+/**
+ * 章节加权：按 chunk.metadata.section 将正分乘以对应系数，未列出的章节不变
+ */
+export function withSectionBoosts(retriever: Retriever, boosts: Record<string, number>): Retriever {
+  return {
+    name: retriever.name,
+    async score(chunks, query, extraKeywords = [], options = {}) {
+      const scores = await retriever.score(chunks, query, extraKeywords, options);
+      return scores.map((score, index) => {
+        const boost = boosts[chunks[index].metadata?.section] ?? 1;
+        return score > 0 ? score * boost : score;
+      });
+    }
+  };
+}
+
 /**
  * 对文本块进行排序并选择 Top-K
  */
-export function rankAndPickTop(
+export async function rankAndPickTop(
   chunks: TextChunk[], 
   query: string,
   topK: number = 5,
-  extraKeywords: string[] = []
-): TextChunk[] {
+  extraKeywords: string[] = [],
+  retriever: Retriever = bm25Retriever,
+  options: RequestOptions = {}
+): Promise<TextChunk[]> {
   // 计算每个块的得分
-  const scoredChunks = chunks.map(chunk => ({
+  const scores = await retriever.score(chunks, query, extraKeywords, options);
+  const scoredChunks = chunks.map((chunk, index) => ({
     ...chunk,
-    score: scoreChunkByQuery(chunk, query, extraKeywords)
+    score: scores[index]
   }));
   
   // 按得分降序排序
@@ -146,12 +473,16 @@ export function summarizeChunks(
     drug?: string;
     condition?: string;
     maxLength?: number;
+    /** 参与句子相关性评分的附加词，如查询扩展得到的临床术语 */
+    keywords?: string[];
+    /** 标题与提示信息的语言 */
+    language?: Language;
   }
 ): string {
-  const { source, query, drug, condition, maxLength = 1200 } = options;
+  const { source, query, drug, condition, maxLength = 1200, keywords = [], language = DEFAULT_LANGUAGE } = options;
   
   if (chunks.length === 0) {
-    return `未找到与查询相关的信息。查询: ${query || drug || condition || 'N/A'}`;
+    return message(language, 'summary.no_results', { query: query || drug || condition || 'N/A' });
   }
   
   let summary = '';
@@ -159,16 +490,16 @@ export function summarizeChunks(
   // 根据不同数据源定制摘要格式
   switch (source) {
     case 'clinicaltrials':
-      summary = generateClinicalTrialsSummary(chunks, { query, drug, condition });
+      summary = generateClinicalTrialsSummary(chunks, { query, drug, condition, language });
       break;
     case 'openfda':
-      summary = generateOpenFDASummary(chunks, { query, drug, condition });
-      break;
+      // 逐句控制长度，不需要再截断
+      return generateOpenFDASummary(chunks, { query, drug, condition, keywords, maxLength, language });
     case 'rxnav':
-      summary = generateRxNavSummary(chunks, { query, drug, condition });
+      summary = generateRxNavSummary(chunks, { query, drug, condition, language });
       break;
     default:
-      summary = generateGenericSummary(chunks, { query, drug, condition });
+      summary = generateGenericSummary(chunks, { query, drug, condition, language });
   }
   
   // 长度控制
@@ -179,19 +510,37 @@ export function summarizeChunks(
   return summary;
 }
 
+type SummaryContext = { query?: string; drug?: string; condition?: string; language: Language };
+
+/**
+ * 摘要标题、查询条件与片段数量行
+ */
+function summaryHeader(title: string, context: SummaryContext, countLine: [MessageKey, string]): string {
+  const { drug, condition, query, language } = context;
+  const label = (key: MessageKey) => message(language, key);
+
+  let header = `## ${title}\n\n`;
+
+  if (drug) header += `**${label('summary.drug')}**: ${drug}\n`;
+  if (condition) header += `**${label('summary.condition')}**: ${condition}\n`;
+  if (query) header += `**${label('summary.query')}**: ${query}\n`;
+
+  header += `**${label(countLine[0])}**: ${countLine[1]}\n\n`;
+  return header;
+}
+
 function generateClinicalTrialsSummary(
   chunks: TextChunk[], 
-  context: { query?: string; drug?: string; condition?: string }
+  context: SummaryContext
 ): string {
-  const { drug, condition, query } = context;
+  const { language } = context;
+  const count = chunks.length;
   
-  let summary = `## 临床试验不良事件分析\n\n`;
-  
-  if (drug) summary += `**药物**: ${drug}\n`;
-  if (condition) summary += `**适应症**: ${condition}\n`;
-  if (query) summary += `**查询**: ${query}\n`;
-  
-  summary += `**数据来源**: ${chunks.length} 个临床试验片段\n\n`;
+  let summary = summaryHeader(
+    message(language, 'summary.trials.title'),
+    context,
+    ['summary.data_source', message(language, 'summary.trials.source', { count })]
+  );
   
   // 提取关键信息
   const adverseEvents = new Set<string>();
@@ -220,81 +569,181 @@ function generateClinicalTrialsSummary(
     });
   });
   
-  summary += `### 关键发现\n`;
-  summary += `- 涉及研究数量: ${studyIds.size}\n`;
-  summary += `- 包含对照组比较: ${hasControlComparison ? '是' : '否'}\n`;
-  summary += `- 不良事件相关性: ${adverseEvents.size > 0 ? '是' : '否'}\n\n`;
+  const yesNo = (value: boolean) => message(language, value ? 'summary.yes' : 'summary.no');
+  summary += `### ${message(language, 'summary.trials.key_findings')}\n`;
+  summary += `- ${message(language, 'summary.trials.study_count', { count: studyIds.size })}\n`;
+  summary += `- ${message(language, 'summary.trials.control_comparison', { value: yesNo(hasControlComparison) })}\n`;
+  summary += `- ${message(language, 'summary.trials.adverse_event_relevance', { value: yesNo(adverseEvents.size > 0) })}\n\n`;
   
-  summary += `### 证据摘要\n`;
+  summary += `### ${message(language, 'summary.trials.evidence')}\n`;
   chunks.slice(0, 3).forEach((chunk, idx) => {
     const preview = chunk.text.slice(0, 200).replace(/\n/g, ' ');
     summary += `${idx + 1}. ${preview}...\n\n`;
   });
   
-  summary += `### 建议\n`;
-  summary += `基于 ${chunks.length} 个相关片段的分析，建议进一步查看具体研究详情以获得完整的安全性评估。`;
+  summary += `### ${message(language, 'summary.trials.recommendation')}\n`;
+  summary += message(language, 'summary.trials.recommendation_text', { count });
   
   return summary;
 }
 
+export interface SummarySentence {
+  text: string;
+  chunk_id: string;
+  set_id?: string;
+  section?: string;
+  /** 与查询的相关度，0-1 */
+  relevance: number;
+}
+
+// 摘要句子的长度范围；过短多为标题或表格残片
+const MIN_SENTENCE_LENGTH = 30;
+const MAX_SENTENCE_LENGTH = 400;
+
+function chunkSentences(chunk: TextChunk): string[] {
+  const body = chunk.text.slice(chunk.metadata?.body_start || 0);
+  return body
+    .split(/\n+|(?<=[.!?。！？])\s+(?=[A-Z0-9("•])/)
+    .map(sentence => sentence.replace(/^[•●▪\s]+/, '').trim())
+    .filter(sentence => sentence.length >= MIN_SENTENCE_LENGTH)
+    .map(sentence => sentence.length > MAX_SENTENCE_LENGTH
+      ? sentence.slice(0, MAX_SENTENCE_LENGTH - 1) + '…'
+      : sentence);
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(token => { if (b.has(token)) shared++; });
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * MMR 句子选择：相关度按 BM25（以全部候选句为语料）计算并归一化，
+ * 再加上所在文本块排名的先验；每次选择 λ·相关度 − (1−λ)·与已选句子的最大相似度 最高的句子
+ * chunks 应已按相关度排序
+ */
+export function selectSentencesMMR(
+  chunks: TextChunk[],
+  query: string,
+  options: { keywords?: string[]; lambda?: number; maxSentences?: number } = {}
+): SummarySentence[] {
+  const { keywords = [], lambda = 0.7, maxSentences = 12 } = options;
+
+  const candidates = chunks.flatMap((chunk, rank) => chunkSentences(chunk).map(text => ({
+    text,
+    chunk,
+    rank,
+    tokens: new Set(tokenize(text))
+  })));
+  if (candidates.length === 0) return [];
+
+  const lexical = bm25Scores(
+    candidates.map((candidate, index) => ({ id: String(index), text: candidate.text, source: '', metadata: {} })),
+    query,
+    keywords
+  );
+  const maxLexical = Math.max(...lexical, 0);
+  const relevance = candidates.map((candidate, index) => {
+    const prior = 1 - candidate.rank / Math.max(chunks.length, 1);
+    return maxLexical > 0 ? 0.8 * (lexical[index] / maxLexical) + 0.2 * prior : prior;
+  });
+
+  const selected: number[] = [];
+  const remaining = new Set(candidates.map((_, index) => index));
+  while (selected.length < maxSentences && remaining.size > 0) {
+    let best = -1;
+    let bestScore = -Infinity;
+    for (const index of remaining) {
+      const redundancy = selected.reduce(
+        (max, chosen) => Math.max(max, jaccard(candidates[index].tokens, candidates[chosen].tokens)),
+        0
+      );
+      const score = lambda * relevance[index] - (1 - lambda) * redundancy;
+      if (score > bestScore) {
+        best = index;
+        bestScore = score;
+      }
+    }
+    remaining.delete(best);
+    // 与已选句子几乎相同（如重叠区域或多个厂家的相同标签）的句子不再选择
+    if (selected.some(chosen => jaccard(candidates[best].tokens, candidates[chosen].tokens) > 0.8)) continue;
+    selected.push(best);
+  }
+
+  return selected.map(index => ({
+    text: candidates[index].text,
+    chunk_id: candidates[index].chunk.id,
+    set_id: candidates[index].chunk.metadata?.set_id,
+    section: candidates[index].chunk.metadata?.section_title || candidates[index].chunk.metadata?.section,
+    relevance: Number(relevance[index].toFixed(3))
+  }));
+}
+
+/**
+ * 按章节分组渲染摘要句子，每句附 [chunk_id | set_id] 引用；超出 maxLength 的句子跳过
+ */
+function renderCitedSentences(header: string, sentences: SummarySentence[], maxLength: number): string {
+  const render = (included: SummarySentence[]) => {
+    const sections = new Map<string, SummarySentence[]>();
+    for (const sentence of included) {
+      const section = sentence.section || 'OTHER';
+      sections.set(section, [...(sections.get(section) || []), sentence]);
+    }
+
+    let text = header;
+    for (const [section, items] of sections) {
+      text += `### ${section}\n`;
+      for (const item of items) {
+        const citation = item.set_id ? `${item.chunk_id} | set_id ${item.set_id}` : item.chunk_id;
+        text += `- ${item.text} [${citation}]\n`;
+      }
+      text += '\n';
+    }
+    return text.trimEnd();
+  };
+
+  const included: SummarySentence[] = [];
+  for (const sentence of sentences) {
+    if (render([...included, sentence]).length <= maxLength) {
+      included.push(sentence);
+    }
+  }
+  return render(included);
+}
+
 function generateOpenFDASummary(
   chunks: TextChunk[], 
-  context: { query?: string; drug?: string; condition?: string }
+  context: SummaryContext & { keywords: string[]; maxLength: number }
 ): string {
-  const { drug, condition, query } = context;
-  
-  let summary = `## FDA 药物标签安全信息\n\n`;
-  
-  if (drug) summary += `**药物**: ${drug}\n`;
-  if (condition) summary += `**适应症**: ${condition}\n`;
-  if (query) summary += `**查询**: ${query}\n`;
-  
-  summary += `**数据来源**: ${chunks.length} 个 FDA 标签片段\n\n`;
+  const { condition, query, keywords, maxLength, language } = context;
   
-  // 分类信息
-  const categories = {
-    warnings: 0,
-    adverseReactions: 0,
-    contraindications: 0,
-    boxedWarning: 0
-  };
-  
-  chunks.forEach(chunk => {
-    const text = chunk.text.toLowerCase();
-    if (text.includes('warning') || text.includes('警告')) categories.warnings++;
-    if (text.includes('adverse') || text.includes('不良反应')) categories.adverseReactions++;
-    if (text.includes('contraindication') || text.includes('禁忌')) categories.contraindications++;
-    if (text.includes('boxed') || text.includes('黑框')) categories.boxedWarning++;
-  });
-  
-  summary += `### 安全信息分类\n`;
-  summary += `- 警告信息: ${categories.warnings} 条\n`;
-  summary += `- 不良反应: ${categories.adverseReactions} 条\n`;
-  summary += `- 禁忌症: ${categories.contraindications} 条\n`;
-  summary += `- 黑框警告: ${categories.boxedWarning} 条\n\n`;
-  
-  summary += `### 重要安全信息\n`;
-  chunks.slice(0, 3).forEach((chunk, idx) => {
-    const preview = chunk.text.slice(0, 200).replace(/\n/g, ' ');
-    summary += `${idx + 1}. ${preview}...\n\n`;
-  });
+  const header = summaryHeader(
+    message(language, 'summary.openfda.title'),
+    context,
+    ['summary.data_source', message(language, 'summary.openfda.source', { count: chunks.length })]
+  );
+
+  const sentences = selectSentencesMMR(
+    chunks,
+    [query, condition].filter(Boolean).join(' '),
+    { keywords }
+  );
   
-  return summary;
+  return renderCitedSentences(header, sentences, maxLength);
 }
 
 function generateRxNavSummary(
   chunks: TextChunk[], 
-  context: { query?: string; drug?: string; condition?: string }
+  context: SummaryContext
 ): string {
-  const { drug, condition, query } = context;
-  
-  let summary = `## RxNav 药物术语信息\n\n`;
+  const { language } = context;
   
-  if (drug) summary += `**药物**: ${drug}\n`;
-  if (condition) summary += `**适应症**: ${condition}\n`;
-  if (query) summary += `**查询**: ${query}\n`;
-  
-  summary += `**数据来源**: ${chunks.length} 个 RxNav 术语片段\n\n`;
+  let summary = summaryHeader(
+    message(language, 'summary.rxnav.title'),
+    context,
+    ['summary.data_source', message(language, 'summary.rxnav.source', { count: chunks.length })]
+  );
   
   // 提取 RxCUI 和分类信息
   const rxcuis = new Set<string>();
@@ -317,11 +766,11 @@ function generateRxNavSummary(
     }
   });
   
-  summary += `### 术语信息统计\n`;
-  summary += `- RxCUI 标识符: ${rxcuis.size} 个\n`;
-  summary += `- ATC 分类代码: ${atcCodes.size} 个\n\n`;
+  summary += `### ${message(language, 'summary.rxnav.statistics')}\n`;
+  summary += `- ${message(language, 'summary.rxnav.rxcui_count', { count: rxcuis.size })}\n`;
+  summary += `- ${message(language, 'summary.rxnav.atc_count', { count: atcCodes.size })}\n\n`;
   
-  summary += `### 药物术语详情\n`;
+  summary += `### ${message(language, 'summary.rxnav.details')}\n`;
   chunks.slice(0, 3).forEach((chunk, idx) => {
     const preview = chunk.text.slice(0, 200).replace(/\n/g, ' ');
     summary += `${idx + 1}. ${preview}...\n\n`;
@@ -332,19 +781,17 @@ function generateRxNavSummary(
 
 function generateGenericSummary(
   chunks: TextChunk[], 
-  context: { query?: string; drug?: string; condition?: string }
+  context: SummaryContext
 ): string {
-  const { drug, condition, query } = context;
-  
-  let summary = `## 信息摘要\n\n`;
+  const { language } = context;
   
-  if (drug) summary += `**药物**: ${drug}\n`;
-  if (condition) summary += `**适应症**: ${condition}\n`;
-  if (query) summary += `**查询**: ${query}\n`;
+  let summary = summaryHeader(
+    message(language, 'summary.generic.title'),
+    context,
+    ['summary.related_chunks', message(language, 'summary.chunk_count', { count: chunks.length })]
+  );
   
-  summary += `**相关片段**: ${chunks.length} 个\n\n`;
-  
-  summary += `### 主要内容\n`;
+  summary += `### ${message(language, 'summary.generic.main_content')}\n`;
   chunks.slice(0, 5).forEach((chunk, idx) => {
     const preview = chunk.text.slice(0, 150).replace(/\n/g, ' ');
     summary += `${idx + 1}. ${preview}...\n\n`;
@@ -354,50 +801,36 @@ function generateGenericSummary(
 }
 
 /**
- * 提取引用信息
+ * 提取引用信息：按文档与章节合并，保持文本块的排名顺序
  */
-export function extractCitations(chunks: TextChunk[]): Array<{
-  id: string;
-  title?: string;
-  type?: string;
-}> {
-  const citations: Array<{ id: string; title?: string; type?: string }> = [];
-  const seenIds = new Set<string>();
-  
-  chunks.forEach(chunk => {
-    // 提取 NCT ID
-    const nctMatches = chunk.text.match(/NCT\d+/g);
-    if (nctMatches) {
-      nctMatches.forEach(nctId => {
-        if (!seenIds.has(nctId)) {
-          citations.push({ id: nctId, type: 'clinical_trial' });
-          seenIds.add(nctId);
-        }
-      });
-    }
-    
-    // 提取 RxCUI
-    const rxcuiMatches = chunk.text.match(/rxcui["\s:]+(\d+)/gi);
-    if (rxcuiMatches) {
-      rxcuiMatches.forEach(match => {
-        const id = match.match(/\d+/);
-        if (id && !seenIds.has(id[0])) {
-          citations.push({ id: id[0], type: 'rxnorm' });
-          seenIds.add(id[0]);
-        }
-      });
-    }
-    
-    // 使用 chunk 的 source 作为备选引用
-    if (!seenIds.has(chunk.source)) {
-      citations.push({ 
-        id: chunk.source, 
-        type: chunk.metadata?.type || 'document',
-        title: chunk.metadata?.title 
-      });
-      seenIds.add(chunk.source);
+export function extractCitations(chunks: TextChunk[]): Citation[] {
+  const citations = new Map<string, Citation>();
+
+  for (const chunk of chunks) {
+    const metadata = chunk.metadata || {};
+    const key = `${chunk.source}|${metadata.section ?? ''}`;
+    const existing = citations.get(key);
+    if (existing) {
+      existing.chunk_ids.push(chunk.id);
+      continue;
     }
-  });
-  
-  return citations;
+
+    citations.set(key, {
+      id: metadata.label_id || chunk.source,
+      type: metadata.type || 'document',
+      title: metadata.drugName || metadata.title,
+      set_id: metadata.set_id,
+      version: metadata.version,
+      effective_time: metadata.effective_time,
+      brand_name: metadata.brand_name,
+      generic_name: metadata.generic_name,
+      manufacturer: metadata.manufacturer,
+      section: metadata.section,
+      section_title: metadata.section_title,
+      chunk_ids: [chunk.id],
+      url: metadata.url
+    });
+  }
+
+  return [...citations.values()];
 }
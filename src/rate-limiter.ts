@@ -0,0 +1,175 @@
+/**
+ * 客户端限流：令牌桶排队 + 根据 X-RateLimit-* / Retry-After 响应头暂停请求
+ */
+
+import { OpenFDAQuotaError } from "./errors.js";
+
+export interface RateLimiterOptions {
+  /** 每分钟允许的请求数（OpenFDA 默认 240） */
+  requestsPerMinute: number;
+  /** 服务端 429 但未给出 Retry-After 时的默认等待时间 */
+  defaultRetryAfterMs?: number;
+  now?: () => number;
+}
+
+export class RateLimiter {
+  private capacity: number;
+  private refillPerMs: number;
+  private tokens: number;
+  private lastRefill: number;
+  private queue: Array<{ resolve: () => void; reject: (error: Error) => void }> = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private blockedUntil = 0;
+  private limit?: number;
+  private remaining?: number;
+  private defaultRetryAfterMs: number;
+  private now: () => number;
+
+  constructor(options: RateLimiterOptions) {
+    this.capacity = Math.max(1, options.requestsPerMinute);
+    this.refillPerMs = this.capacity / 60_000;
+    this.tokens = this.capacity;
+    this.now = options.now || Date.now;
+    this.lastRefill = this.now();
+    this.defaultRetryAfterMs = options.defaultRetryAfterMs ?? 60_000;
+  }
+
+  /**
+   * 获取一个令牌；令牌不足时排队等待，处于配额封锁期时直接抛出 OpenFDAQuotaError
+   * signal 取消时退出队列并以 signal.reason 拒绝，不占用令牌
+   */
+  acquire(signal?: AbortSignal): Promise<void> {
+    signal?.throwIfAborted();
+    this.assertNotBlocked();
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        const index = this.queue.indexOf(waiter);
+        if (index !== -1) this.queue.splice(index, 1);
+        if (this.queue.length === 0 && this.timer) {
+          clearTimeout(this.timer);
+          this.timer = null;
+        }
+        reject(signal?.reason);
+      };
+      const waiter = {
+        resolve: () => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve();
+        },
+        reject: (error: Error) => {
+          signal?.removeEventListener("abort", onAbort);
+          reject(error);
+        },
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.queue.push(waiter);
+      this.drain();
+    });
+  }
+
+  /**
+   * 记录响应头中的配额信息；剩余为 0 或 429 时进入封锁期
+   */
+  observe(status: number, headers: Headers): OpenFDAQuotaError | null {
+    const limit = parseIntHeader(headers, "x-ratelimit-limit");
+    const remaining = parseIntHeader(headers, "x-ratelimit-remaining");
+    if (limit !== undefined) this.limit = limit;
+    if (remaining !== undefined) this.remaining = remaining;
+
+    if (status !== 429 && remaining !== 0) {
+      return null;
+    }
+
+    const retryAt = parseRetryAt(headers, this.now()) ?? new Date(this.now() + this.defaultRetryAfterMs);
+    this.blockUntil(retryAt);
+    return new OpenFDAQuotaError(retryAt, { limit: this.limit, remaining: this.remaining });
+  }
+
+  blockUntil(retryAt: Date) {
+    this.blockedUntil = Math.max(this.blockedUntil, retryAt.getTime());
+
+    // 排队中的请求不会在封锁期内成功，立即失败
+    const error = new OpenFDAQuotaError(new Date(this.blockedUntil), { limit: this.limit, remaining: this.remaining });
+    for (const waiter of this.queue.splice(0)) {
+      waiter.reject(error);
+    }
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  stats() {
+    this.refill();
+    return {
+      requests_per_minute: this.capacity,
+      available_tokens: Math.floor(this.tokens),
+      queued: this.queue.length,
+      blocked_until: this.blockedUntil > this.now() ? new Date(this.blockedUntil).toISOString() : null,
+      server_limit: this.limit,
+      server_remaining: this.remaining,
+    };
+  }
+
+  private assertNotBlocked() {
+    if (this.blockedUntil > this.now()) {
+      throw new OpenFDAQuotaError(new Date(this.blockedUntil), { limit: this.limit, remaining: this.remaining });
+    }
+  }
+
+  private refill() {
+    const now = this.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.lastRefill) * this.refillPerMs);
+    this.lastRefill = now;
+  }
+
+  private drain() {
+    this.refill();
+
+    while (this.queue.length > 0 && this.tokens >= 1) {
+      this.tokens -= 1;
+      this.queue.shift()!.resolve();
+    }
+
+    if (this.queue.length > 0 && !this.timer) {
+      const waitMs = Math.ceil((1 - this.tokens) / this.refillPerMs);
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.drain();
+      }, waitMs);
+    }
+  }
+}
+
+function parseIntHeader(headers: Headers, name: string): number | undefined {
+  const value = headers.get(name);
+  if (value === null) return undefined;
+  const parsed = parseInt(value, 10);
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
+/**
+ * 解析 Retry-After（秒数或 HTTP 日期）与 X-RateLimit-Reset（秒数或 Unix 时间戳）
+ */
+export function parseRetryAt(headers: Headers, now: number = Date.now()): Date | undefined {
+  const retryAfter = headers.get("retry-after");
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (!Number.isNaN(seconds)) {
+      return new Date(now + seconds * 1000);
+    }
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) {
+      return new Date(date);
+    }
+  }
+
+  const reset = parseIntHeader(headers, "x-ratelimit-reset");
+  if (reset !== undefined) {
+    // 大于 10^9 视为 Unix 时间戳（秒），否则为相对秒数
+    return new Date(reset > 1e9 ? reset * 1000 : now + reset * 1000);
+  }
+
+  return undefined;
+}
@@ -0,0 +1,265 @@
+/**
+ * 从标签不良反应章节提取各反应的发生率
+ * 数据来源：adverse_reactions_table 表格（或正文中的扁平化表格）与正文句子
+ */
+
+import { normalizeReactionTerm } from "./label-comparison.js";
+import { LabelTable, parseLabelSection } from "./label-parser.js";
+import { DrugLabel } from "./types.js";
+
+export type FrequencyBand = "very common" | "common" | "uncommon" | "rare" | "very rare";
+
+export interface ReactionArm {
+  name: string;
+  percent: number;
+  /** "<1%" 之类的限定符 */
+  qualifier?: string;
+  comparator: boolean;
+}
+
+export interface ReactionFrequency {
+  reaction: string;
+  /** 各药物组中的最高发生率 */
+  drug_percent: number | null;
+  comparator_percent: number | null;
+  arms: ReactionArm[];
+  /** 表格或列举句给出的入选阈值，如 "≥2%" */
+  threshold: string | null;
+  threshold_percent: number | null;
+  frequency_band: FrequencyBand | null;
+  source: "table" | "text";
+  table_caption?: string;
+  /** 表格行或原文句子 */
+  source_text: string;
+}
+
+const COMPARATOR_COLUMN = /placebo|comparator|control|vehicle|active\s+control/i;
+
+// 旧版标签使用 frequent/infrequent，统一为 CIOMS 分级名称
+const BAND_NAMES: Record<string, FrequencyBand> = {
+  "very common": "very common",
+  common: "common",
+  frequent: "common",
+  uncommon: "uncommon",
+  infrequent: "uncommon",
+  rare: "rare",
+  "very rare": "very rare",
+};
+
+const PERCENT_VALUE = /([<≤≥>])?\s*(\d+(?:\.\d+)?)\s*%?/;
+const THRESHOLD = /(≥|>|at least|greater than or equal to|greater than)\s*(\d+(?:\.\d+)?)\s*%/i;
+const BAND_LIST = /\b(very common|common|frequent|uncommon|infrequent|very rare|rare)\b\s*(?:\([^)]*\))?\s*:\s*([^.;]+)/gi;
+const INLINE_PERCENT = /([A-Za-z][A-Za-z '\-\/]{1,80}?)\s*\(\s*([<≤≥>]?\s*\d+(?:\.\d+)?)\s*%(?:\s*(?:vs\.?|versus|compared (?:with|to)|and)\s*([<≤≥>]?\s*\d+(?:\.\d+)?)\s*%)?([^)]*)\)/g;
+// 列举句：阈值所在分句 + were/include 等引导词 + 列出项（到分句结束）
+// 小数点（"8.3%"）不视为分句结束
+const THRESHOLD_LIST = /\b(?:were|are|include[sd]?|including)\b\s*:?\s*((?:[^.;]|\.(?=\d))+)/i;
+// "are listed in Table 1"、"are shown below" 之类指向别处的句子没有列出项
+const REFERENCE_LIST = /^(?:listed|shown|presented|summari[sz]ed|described|provided|displayed|given)\b/i;
+// 名称片段中引导列举的词，只保留其后的部分
+const LIST_LEAD = /,|;|:|\b(?:were|was|are|is|included?|including|and|or|such as|reported|of)\b/i;
+
+/**
+ * 按 CIOMS 频率分级：≥10% 十分常见，1-10% 常见，0.1-1% 偶见，0.01-0.1% 罕见，更低为十分罕见
+ */
+export function frequencyBand(percent: number): FrequencyBand {
+  if (percent >= 10) return "very common";
+  if (percent >= 1) return "common";
+  if (percent >= 0.1) return "uncommon";
+  if (percent >= 0.01) return "rare";
+  return "very rare";
+}
+
+/**
+ * 解析单元格中的发生率："12"、"12%"、"<1"、"25 (12%)"（括号内为百分比）
+ */
+export function parsePercent(cell: string): { percent: number; qualifier?: string } | undefined {
+  const inParens = cell.match(/\(\s*([<≤≥>]?\s*\d+(?:\.\d+)?)\s*%\s*\)/);
+  const match = (inParens ? inParens[1] : cell.trim()).match(new RegExp(`^${PERCENT_VALUE.source}$`));
+  if (!match) return undefined;
+  return { percent: Number(match[2]), qualifier: match[1] };
+}
+
+function parseThreshold(text: string | undefined): { threshold: string; percent: number } | undefined {
+  const match = text?.match(THRESHOLD);
+  if (!match) return undefined;
+  const symbol = /^(>|greater than)$/i.test(match[1]) ? ">" : "≥";
+  return { threshold: `${symbol}${match[2]}%`, percent: Number(match[2]) };
+}
+
+function summarizeArms(
+  reaction: string,
+  arms: ReactionArm[],
+  threshold: ReturnType<typeof parseThreshold>,
+  band: FrequencyBand | null,
+  source: ReactionFrequency["source"],
+  sourceText: string,
+  tableCaption?: string
+): ReactionFrequency {
+  const drugArms = arms.filter(arm => !arm.comparator);
+  const comparatorArms = arms.filter(arm => arm.comparator);
+  const drugPercent = drugArms.length > 0 ? Math.max(...drugArms.map(arm => arm.percent)) : null;
+
+  return {
+    reaction,
+    drug_percent: drugPercent,
+    comparator_percent: comparatorArms.length > 0 ? Math.max(...comparatorArms.map(arm => arm.percent)) : null,
+    arms,
+    threshold: threshold?.threshold ?? null,
+    threshold_percent: threshold?.percent ?? null,
+    frequency_band: band ?? (drugPercent !== null ? frequencyBand(drugPercent) : null),
+    source,
+    table_caption: tableCaption,
+    source_text: sourceText,
+  };
+}
+
+/**
+ * 表格行 -> 发生率；表头含 placebo 等字样的列为对照组
+ * 扁平化表格没有表头时，按第一列为药物组、标题提到安慰剂时最后一列为对照组处理
+ */
+function tableFrequencies(table: LabelTable): ReactionFrequency[] {
+  const threshold = parseThreshold(table.caption);
+  const hasComparator = COMPARATOR_COLUMN.test(table.caption || "");
+  const results: ReactionFrequency[] = [];
+
+  for (const row of table.rows) {
+    const reaction = normalizeReactionTerm(row.label);
+    if (!reaction) continue;
+
+    const arms: ReactionArm[] = [];
+    row.values.forEach((cell, index) => {
+      const value = parsePercent(cell);
+      if (!value) return;
+      const header = table.columns[index + 1];
+      arms.push({
+        name: header || `column ${index + 1}`,
+        percent: value.percent,
+        qualifier: value.qualifier,
+        comparator: header
+          ? COMPARATOR_COLUMN.test(header)
+          : hasComparator && row.values.length > 1 && index === row.values.length - 1,
+      });
+    });
+    if (arms.length === 0) continue;
+
+    const sourceText = `${row.group ? `${row.group} / ` : ""}${row.label}: ${row.values.join(" | ")}`;
+    results.push(summarizeArms(reaction, arms, threshold, null, "table", sourceText, table.caption));
+  }
+
+  return results;
+}
+
+function listItems(text: string): string[] {
+  return text
+    .split(/,\s*|;\s*|\s+(?:and|or)\s+/i)
+    .map(item => normalizeReactionTerm(item))
+    .filter((item): item is string => item !== undefined);
+}
+
+function isThresholdClause(term: string): boolean {
+  return /reaction|event|incidence|patients|effects?$/.test(term);
+}
+
+/**
+ * 正文句子中的发生率：
+ * - "nausea (12%)"、"headache (5% vs 3%)" 等内联百分比
+ * - "most common adverse reactions (≥5%) were ..." 列举句，列出项取该阈值
+ * - "Rare: ..." 等频率分级列表
+ */
+function sentenceFrequencies(sentence: string): ReactionFrequency[] {
+  const byReaction = new Map<string, ReactionFrequency>();
+
+  for (const match of sentence.matchAll(INLINE_PERCENT)) {
+    const lead = match[1].split(LIST_LEAD).pop() || "";
+    const reaction = normalizeReactionTerm(lead);
+    const parenthetical = match[0].slice(match[0].indexOf("("));
+    if (!reaction) continue;
+
+    // "(≥5%)" 跟在 "adverse reactions" 之后时是阈值而非发生率，由下面的列举句处理
+    if (isThresholdClause(reaction) && /^\(\s*[≥>]/.test(parenthetical)) continue;
+
+    const drug = parsePercent(`${match[2]}%`);
+    const arms: ReactionArm[] = drug ? [{ name: "drug", percent: drug.percent, qualifier: drug.qualifier, comparator: false }] : [];
+    const comparator = match[3] ? parsePercent(`${match[3]}%`) : undefined;
+    if (comparator) {
+      arms.push({ name: COMPARATOR_COLUMN.exec(match[4])?.[0] || "comparator", percent: comparator.percent, qualifier: comparator.qualifier, comparator: true });
+    }
+    byReaction.set(reaction, summarizeArms(reaction, arms, undefined, null, "text", sentence));
+  }
+
+  // 阈值只取列举引导词之前、同一分句内的部分，避免把句中其他位置的百分比套到列出项上
+  const list = sentence.match(THRESHOLD_LIST);
+  const clause = list ? sentence.slice(0, list.index).split(";").pop()! : "";
+  const threshold = /adverse (?:reactions|events)|incidence/i.test(clause) ? parseThreshold(clause) : undefined;
+  if (list && threshold && !REFERENCE_LIST.test(list[1])) {
+    for (const reaction of listItems(list[1])) {
+      const existing = byReaction.get(reaction);
+      if (existing) {
+        existing.threshold = threshold.threshold;
+        existing.threshold_percent = threshold.percent;
+      } else if (!isThresholdClause(reaction)) {
+        byReaction.set(reaction, summarizeArms(reaction, [], threshold, null, "text", sentence));
+      }
+    }
+  }
+
+  for (const match of sentence.matchAll(BAND_LIST)) {
+    const band = BAND_NAMES[match[1].toLowerCase()];
+    for (const reaction of listItems(match[2])) {
+      const existing = byReaction.get(reaction);
+      if (existing) {
+        existing.frequency_band = band;
+      } else {
+        byReaction.set(reaction, summarizeArms(reaction, [], undefined, band, "text", sentence));
+      }
+    }
+  }
+
+  return [...byReaction.values()];
+}
+
+/**
+ * 提取标签中各不良反应的发生率，按药物组发生率降序排列（无数值的排在最后）
+ */
+export function extractReactionFrequencies(label: DrugLabel): ReactionFrequency[] {
+  const section = parseLabelSection(label, "adverse_reactions");
+  if (!section) return [];
+
+  const results: ReactionFrequency[] = [];
+  for (const table of section.tables.filter(table => table.is_adverse_reaction_table)) {
+    results.push(...tableFrequencies(table));
+  }
+
+  const texts = [section.intro, ...section.subsections.map(subsection => subsection.text)];
+  for (const text of texts) {
+    for (const sentence of text.split(/(?<=[.!?])\s+(?=[A-Z])/)) {
+      results.push(...sentenceFrequencies(sentence));
+    }
+  }
+
+  // 同一反应在正文中重复出现且没有新信息时只保留一次
+  const seen = new Set<string>();
+  const unique = results.filter(result => {
+    const key = JSON.stringify([result.reaction, result.drug_percent, result.comparator_percent, result.threshold, result.frequency_band, result.table_caption]);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  return unique.sort((a, b) => (b.drug_percent ?? -1) - (a.drug_percent ?? -1));
+}
+
+/**
+ * get_drug_adverse_reactions 在 frequencies 模式下的结果项
+ */
+export function summarizeReactionFrequencies(label: DrugLabel, minPercent?: number) {
+  const frequencies = extractReactionFrequencies(label);
+  return {
+    drug_name: label.openfda?.brand_name?.[0] || label.openfda?.generic_name?.[0] || "Unknown",
+    manufacturer: label.openfda?.manufacturer_name?.[0] || "Unknown",
+    set_id: label.set_id,
+    reaction_frequencies: minPercent === undefined
+      ? frequencies
+      : frequencies.filter(frequency => frequency.drug_percent !== null && frequency.drug_percent >= minPercent),
+  };
+}
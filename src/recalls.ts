@@ -0,0 +1,75 @@
+/**
+ * 药品召回（/drug/enforcement.json）查询构建与结果整理
+ * MCP 工具与 HTTP 路由共用
+ */
+
+import { and, buildSearch, or, phrase, range } from "./query-builder.js";
+import { DrugRecallParams } from "./schemas.js";
+import { EnforcementReport } from "./types.js";
+
+// 产品描述往往包含完整的包装清单，截断以保持结果紧凑
+const MAX_DESCRIPTION_LENGTH = 300;
+
+export function buildRecallSearch(
+  params: Omit<DrugRecallParams, "skip" | "limit">,
+  drugNames: string[] = [params.drug_name]
+): string {
+  const hasDateFilter = params.report_date_from !== undefined || params.report_date_to !== undefined;
+
+  const query = and(
+    // drugNames 为查询扩展后的名称（品牌名/通用名等），任一匹配即可
+    or(...drugNames.flatMap(name => [
+      phrase("openfda.brand_name", name),
+      phrase("openfda.generic_name", name),
+      phrase("openfda.substance_name", name),
+      phrase("product_description", name)
+    ])),
+    params.classification ? phrase("classification", params.classification) : null,
+    params.status ? phrase("status", params.status) : null,
+    params.recalling_firm ? phrase("recalling_firm", params.recalling_firm) : null,
+    hasDateFilter ? range("report_date", params.report_date_from ?? "*", params.report_date_to ?? "*") : null
+  );
+
+  return buildSearch(query!);
+}
+
+/**
+ * 从 code_info 中提取批号，如 "Lot #: AB123, Exp 12/2025; Lot 45678"
+ */
+export function extractLotCodes(codeInfo: string | undefined): string[] {
+  if (!codeInfo) return [];
+
+  const lots = new Set<string>();
+  const pattern = /\blot(?:s|\s*#|\s*no\.?|\s*numbers?)?\s*[:#]?\s*((?:[A-Z0-9][A-Z0-9\-\/]{2,}(?:\s*(?:,|&|\band\b)\s*)?)+)/gi;
+  for (const match of codeInfo.matchAll(pattern)) {
+    match[1]
+      // 只按独立的 and 分隔，避免拆开含 AND 的批号
+      .split(/\s*(?:,|&|\band\b)\s*/i)
+      .map(code => code.trim())
+      // 批号至少包含一个数字，排除 "Lot Expiry" 之类的误匹配
+      .filter(code => /\d/.test(code))
+      .forEach(code => lots.add(code));
+  }
+  return [...lots];
+}
+
+export function summarizeRecall(report: EnforcementReport) {
+  const description = report.product_description || "";
+
+  return {
+    recall_number: report.recall_number,
+    classification: report.classification,
+    status: report.status,
+    recalling_firm: report.recalling_firm,
+    report_date: report.report_date,
+    recall_initiation_date: report.recall_initiation_date,
+    voluntary_mandated: report.voluntary_mandated,
+    reason_for_recall: report.reason_for_recall,
+    product_description: description.length > MAX_DESCRIPTION_LENGTH
+      ? description.slice(0, MAX_DESCRIPTION_LENGTH) + "..."
+      : description,
+    product_quantity: report.product_quantity,
+    distribution_pattern: report.distribution_pattern,
+    lot_codes: extractLotCodes(report.code_info),
+  };
+}
@@ -0,0 +1,352 @@
+/**
+ * 工具结果的字段投影、token 预算与续页游标
+ * 结果中最大的数组（如 search_drug_labels 的 results）按 token 预算分页；
+ * 单项本身超出预算时截断其中的长文本并加标记。未返回的项与被截断文本的剩余部分都通过 next_cursor 在下一次调用中取回
+ * 只有调用方给出 max_tokens（或续页 cursor）时才按预算裁剪；DEFAULT_MAX_TOKENS 仅用于 cursor 中缺少 max_tokens 的情况
+ * 分页时完整结果暂存在 PageCache 中，续页直接从中取；过期或被淘汰后才按 cursor 中的参数重新执行工具
+ */
+
+import { randomUUID } from "crypto";
+import { estimateTokens } from "./rag-utils.js";
+
+export const DEFAULT_MAX_TOKENS = 8000;
+
+export const DEFAULT_PAGE_CACHE_OPTIONS = {
+  maxEntries: 20,
+  ttlMs: 15 * 60 * 1000,
+};
+
+// 截断后每个字符串至少保留的字符数
+const MIN_STRING_CHARS = 200;
+
+/**
+ * 上一页截断了 offset 处的项：本页只返回该项中被截断的字段，字符串从第 chars 个字符继续
+ */
+export interface ResumeState {
+  fields: string[];
+  chars: number;
+}
+
+export interface ResponseShape {
+  /** 每个结果项只保留的字段，点号分隔的路径，如 "openfda.brand_name" */
+  fields?: string[];
+  maxTokens: number;
+  /** 本页从分页数组的第几项开始 */
+  offset: number;
+  resume?: ResumeState;
+}
+
+export type NextCursor = (offset: number, resume?: ResumeState) => string;
+
+export interface PageInfo {
+  /** 被分页的数组字段 */
+  list: string;
+  offset: number;
+  returned: number;
+  total: number;
+  /** 被截断的字段路径（不含数组下标），其余文本由 next_cursor 续页返回 */
+  truncated_fields: string[];
+  /** 续页返回被截断文本时，本页字符串在原文中的起始字符位置 */
+  char_offset?: number;
+  next_cursor: string | null;
+}
+
+interface CursorState {
+  tool: string;
+  args: Record<string, unknown>;
+  offset: number;
+  /** PageCache 中完整结果的 id */
+  result?: string;
+  resume?: ResumeState;
+}
+
+export class CursorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CursorError";
+  }
+}
+
+/**
+ * 游标记录工具名、完整参数与下一页的起点；调用方只需原样传回
+ */
+export function encodeCursor(state: CursorState): string {
+  return Buffer.from(JSON.stringify(state)).toString("base64url");
+}
+
+export function decodeCursor(cursor: string): CursorState {
+  let state: Partial<CursorState>;
+  try {
+    state = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    throw new CursorError("Malformed cursor");
+  }
+  if (typeof state?.tool !== "string" || typeof state.args !== "object" || state.args === null
+    || !Number.isInteger(state.offset) || state.offset! < 0
+    || (state.result !== undefined && typeof state.result !== "string")
+    || (state.resume !== undefined && !isResumeState(state.resume))) {
+    throw new CursorError("Malformed cursor");
+  }
+  return state as CursorState;
+}
+
+function isResumeState(value: unknown): value is ResumeState {
+  return isObject(value)
+    && Array.isArray(value.fields) && value.fields.every(field => typeof field === "string")
+    && Number.isInteger(value.chars) && (value.chars as number) > 0;
+}
+
+export interface PageCacheOptions {
+  maxEntries: number;
+  ttlMs: number;
+  now?: () => number;
+}
+
+/**
+ * 被分页的完整工具结果，仅在内存中保留；续页时免去重新执行工具（如 ae_pipeline_rag 的检索与向量化）
+ */
+export class PageCache<T> {
+  private entries = new Map<string, { value: T; expiresAt: number }>();
+  private maxEntries: number;
+  private ttlMs: number;
+  private now: () => number;
+
+  constructor(options: PageCacheOptions = DEFAULT_PAGE_CACHE_OPTIONS) {
+    this.maxEntries = Math.max(1, options.maxEntries);
+    this.ttlMs = options.ttlMs;
+    this.now = options.now || Date.now;
+  }
+
+  /**
+   * 保存结果并返回写入 cursor 的 id
+   */
+  put(value: T): string {
+    const id = randomUUID();
+    this.entries.set(id, { value, expiresAt: this.now() + this.ttlMs });
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+    return id;
+  }
+
+  get(id: string): T | undefined {
+    const entry = this.entries.get(id);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= this.now()) {
+      this.entries.delete(id);
+      return undefined;
+    }
+    // 重新插入以维持 LRU 顺序
+    this.entries.delete(id);
+    this.entries.set(id, entry);
+    return entry.value;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function pick(value: unknown, path: string[]): unknown {
+  if (path.length === 0) return value;
+  if (Array.isArray(value)) return value.map(item => pick(item, path));
+  if (!isObject(value) || !(path[0] in value)) return undefined;
+  return { [path[0]]: pick(value[path[0]], path.slice(1)) };
+}
+
+function merge(target: unknown, source: unknown): unknown {
+  if (source === undefined) return target;
+  if (Array.isArray(target) && Array.isArray(source)) {
+    return source.map((item, index) => merge(target[index], item));
+  }
+  if (isObject(target) && isObject(source)) {
+    const merged = { ...target };
+    for (const [key, value] of Object.entries(source)) {
+      merged[key] = merge(merged[key], value);
+    }
+    return merged;
+  }
+  return source;
+}
+
+/**
+ * 只保留 fields 中列出的路径；路径经过数组时对每个元素生效，不存在的路径忽略
+ */
+export function projectFields(value: unknown, fields: string[]): unknown {
+  if (!isObject(value)) return value;
+  return fields.reduce<unknown>((projected, field) => merge(projected, pick(value, field.split("."))), {});
+}
+
+function longestString(value: unknown): number {
+  if (typeof value === "string") return value.length;
+  const children = Array.isArray(value) ? value : isObject(value) ? Object.values(value) : [];
+  return children.reduce<number>((longest, child) => Math.max(longest, longestString(child)), 0);
+}
+
+function truncateStrings(value: unknown, maxChars: number, path: string, truncated: Set<string>): unknown {
+  if (typeof value === "string") {
+    if (value.length <= maxChars) return value;
+    truncated.add(path);
+    return `${value.slice(0, maxChars)}… [truncated ${value.length - maxChars} chars]`;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => truncateStrings(item, maxChars, path, truncated));
+  }
+  if (isObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) =>
+      [key, truncateStrings(item, maxChars, path ? `${path}.${key}` : key, truncated)]
+    ));
+  }
+  return value;
+}
+
+/**
+ * 续页时去掉已返回的前 chars 个字符；已完整返回的短字符串变为空串
+ */
+function resumeStrings(value: unknown, chars: number): unknown {
+  if (typeof value === "string") return value.slice(chars);
+  if (Array.isArray(value)) return value.map(item => resumeStrings(item, chars));
+  if (isObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, resumeStrings(item, chars)]));
+  }
+  return value;
+}
+
+function resumeItem(value: unknown, resume: ResumeState): unknown {
+  return resumeStrings(projectFields(value, resume.fields), resume.chars);
+}
+
+function tokensOf(value: unknown): number {
+  return estimateTokens(JSON.stringify(value, null, 2) ?? "");
+}
+
+/**
+ * 逐步减半字符串长度上限，直到结果不超过预算或达到最小长度；
+ * 返回截断后的值与最终的字符上限（续页从该位置继续）
+ */
+function fitToBudget(value: unknown, budget: number, truncated: Set<string>): { value: unknown; maxChars: number } {
+  let fitted = value;
+  let maxChars = longestString(value);
+  while (tokensOf(fitted) > budget && maxChars > MIN_STRING_CHARS) {
+    maxChars = Math.max(MIN_STRING_CHARS, Math.floor(maxChars / 2));
+    const attempt = new Set<string>();
+    fitted = truncateStrings(value, maxChars, "", attempt);
+    if (tokensOf(fitted) <= budget || maxChars === MIN_STRING_CHARS) {
+      attempt.forEach(path => truncated.add(path));
+    }
+  }
+  return { value: fitted, maxChars };
+}
+
+/**
+ * 截断后的续页状态：同一项、同一批字段，从已返回的字符之后继续
+ */
+function nextResume(resume: ResumeState | undefined, truncated: Set<string>, maxChars: number): ResumeState | undefined {
+  if (truncated.size === 0) return undefined;
+  return { fields: [...truncated], chars: (resume?.chars ?? 0) + maxChars };
+}
+
+/**
+ * 分页数组：序列化后最长的顶层数组
+ */
+function findList(data: Record<string, unknown>): string | undefined {
+  let best: { key: string; size: number } | undefined;
+  for (const [key, value] of Object.entries(data)) {
+    if (!Array.isArray(value) || value.length === 0) continue;
+    const size = JSON.stringify(value).length;
+    if (!best || size > best.size) best = { key, size };
+  }
+  return best?.key;
+}
+
+/**
+ * 按 ResponseShape 裁剪工具结果
+ * 有可分页数组时：fields 作用于数组的每一项，项按预算装入本页（至少一项），其余项由 nextCursor(offset) 续页；
+ * 本页第一项超出预算被截断时本页只含该项，nextCursor(offset, resume) 续页返回其被截断字段的剩余文本
+ * 没有数组时：fields 作用于结果本身，超出预算时截断长文本，剩余文本同样由 next_cursor 续页
+ */
+export function shapeResponse(
+  data: unknown,
+  shape: ResponseShape,
+  nextCursor: NextCursor
+): unknown {
+  if (!isObject(data)) return data;
+
+  const list = findList(data);
+  const truncated = new Set<string>();
+  if (!list) {
+    const projected = shape.fields ? projectFields(data, shape.fields) : data;
+    const fitted = fitToBudget(shape.resume ? resumeItem(projected, shape.resume) : projected, shape.maxTokens, truncated);
+    const resume = nextResume(shape.resume, truncated, fitted.maxChars);
+    if (!resume && !shape.resume) return fitted.value;
+    return {
+      ...(fitted.value as object),
+      truncated_fields: [...truncated],
+      ...(shape.resume ? { char_offset: shape.resume.chars } : {}),
+      next_cursor: resume ? nextCursor(0, resume) : null,
+    };
+  }
+
+  const items = data[list] as unknown[];
+  const envelope = { ...data, [list]: [], pagination: {} };
+  let remaining = shape.maxTokens - tokensOf(envelope);
+
+  const page: unknown[] = [];
+  let resume: ResumeState | undefined;
+  for (let index = shape.offset; index < items.length; index++) {
+    let item = shape.fields ? projectFields(items[index], shape.fields) : items[index];
+    if (index === shape.offset && shape.resume) item = resumeItem(item, shape.resume);
+    const tokens = tokensOf(item);
+    if (page.length > 0 && tokens > remaining) break;
+
+    if (page.length === 0 && tokens > remaining) {
+      const fitted = fitToBudget(item, Math.max(remaining, 0), truncated);
+      page.push(fitted.value);
+      resume = nextResume(index === shape.offset ? shape.resume : undefined, truncated, fitted.maxChars);
+      if (resume) break;
+      remaining -= tokensOf(fitted.value);
+      continue;
+    }
+    page.push(item);
+    remaining -= tokens;
+  }
+
+  const nextOffset = shape.offset + page.length;
+  const pagination: PageInfo = {
+    list,
+    offset: shape.offset,
+    returned: page.length,
+    total: items.length,
+    truncated_fields: [...truncated],
+    ...(shape.resume ? { char_offset: shape.resume.chars } : {}),
+    next_cursor: resume
+      ? nextCursor(shape.offset, resume)
+      : nextOffset < items.length ? nextCursor(nextOffset) : null,
+  };
+  const paged = pagination.next_cursor !== null || shape.offset > 0 || truncated.size > 0 || shape.resume !== undefined;
+
+  return { ...data, [list]: page, ...(paged ? { pagination } : {}) };
+}
+
+/**
+ * 对 JSON 文本内容的工具结果应用 shapeResponse；非 JSON 内容原样返回
+ */
+export function shapeToolResult<T extends { content: Array<{ type: string; text: string }> }>(
+  result: T,
+  shape: ResponseShape,
+  nextCursor: NextCursor
+): T {
+  return {
+    ...result,
+    content: result.content.map(item => {
+      if (item.type !== "text") return item;
+      let data: unknown;
+      try {
+        data = JSON.parse(item.text);
+      } catch {
+        return item;
+      }
+      return { ...item, text: JSON.stringify(shapeResponse(data, shape, nextCursor), null, 2) };
+    }),
+  };
+}
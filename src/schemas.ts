@@ -0,0 +1,235 @@
+import { z } from "zod";
+
+/**
+ * MCP 工具与 HTTP 路由共用的参数校验
+ */
+
+// HTTP 查询参数中的布尔值以字符串形式传入
+const booleanLike = z.preprocess(
+  value => (value === "true" ? true : value === "false" ? false : value),
+  z.boolean()
+);
+
+export const DrugLabelSearchParamsSchema = z.object({
+  search: z.string().optional(),
+  count: z.string().optional(),
+  // accept number-like strings for pagination
+  skip: z.coerce.number().int().min(0).optional().default(0),
+  // OpenFDA allows up to 1000
+  limit: z.coerce.number().int().min(1).max(200).optional().default(50),
+  // 原样传给 OpenFDA，如 "effective_time:desc"
+  sort: z.string().regex(/^[\w.]+:(asc|desc)$/, "Expected sort as field:asc or field:desc").optional(),
+  // 每份标签只保留的字段（点号分隔的路径），序列化前在服务端裁剪
+  fields: listLike(z.array(z.string().min(1)).min(1)).optional(),
+  // 同一 set_id 的多个版本只保留最新版本
+  latest_only: booleanLike.optional().default(false),
+  // 附带 Drugs@FDA 审批摘要，需额外一次 OpenFDA 请求
+  include_approvals: booleanLike.optional().default(false),
+});
+
+export type DrugLabelSearchParams = z.infer<typeof DrugLabelSearchParamsSchema>;
+
+export const DrugQueryParamsSchema = z.object({
+  drug_name: z.string(),
+  // accept number-like strings, default to 5 items
+  limit: z.coerce.number().int().min(1).max(5).optional().default(3),
+});
+
+export type DrugQueryParams = z.infer<typeof DrugQueryParamsSchema>;
+
+export const AdverseReactionQueryParamsSchema = DrugQueryParamsSchema.extend({
+  // sections 返回解析后的章节，frequencies 返回各反应的发生率
+  mode: z.enum(["sections", "frequencies"]).optional().default("sections"),
+  // frequencies 模式下仅保留药物组发生率不低于该值的反应
+  min_percent: z.coerce.number().min(0).max(100).optional(),
+});
+
+export type AdverseReactionQueryParams = z.infer<typeof AdverseReactionQueryParamsSchema>;
+
+// 接受 YYYYMMDD 或 YYYY-MM-DD，统一为 OpenFDA 使用的 YYYYMMDD
+const openFDADate = z
+  .string()
+  .regex(/^\d{4}-?\d{2}-?\d{2}$/, "Expected a date as YYYYMMDD or YYYY-MM-DD")
+  .transform(value => value.replace(/-/g, ""));
+
+export const AdverseEventFiltersSchema = z.object({
+  drug: z.string().optional(),
+  // MedDRA preferred term
+  reaction: z.string().optional(),
+  serious: booleanLike.optional(),
+  seriousness: z
+    .enum(["death", "life_threatening", "hospitalization", "disabling", "congenital_anomaly", "other"])
+    .optional(),
+  outcome: z
+    .enum(["recovered", "recovering", "not_recovered", "recovered_with_sequelae", "fatal", "unknown"])
+    .optional(),
+  sex: z.enum(["male", "female", "unknown"]).optional(),
+  // patient age in years
+  min_age: z.coerce.number().min(0).optional(),
+  max_age: z.coerce.number().min(0).optional(),
+  received_from: openFDADate.optional(),
+  received_to: openFDADate.optional(),
+});
+
+export type AdverseEventFilters = z.infer<typeof AdverseEventFiltersSchema>;
+
+export const AdverseEventSearchParamsSchema = AdverseEventFiltersSchema.extend({
+  skip: z.coerce.number().int().min(0).optional().default(0),
+  limit: z.coerce.number().int().min(1).max(100).optional().default(10),
+});
+
+export type AdverseEventSearchParams = z.infer<typeof AdverseEventSearchParamsSchema>;
+
+export const AdverseEventReactionCountParamsSchema = AdverseEventFiltersSchema.extend({
+  drug: z.string(),
+  limit: z.coerce.number().int().min(1).max(100).optional().default(20),
+});
+
+export type AdverseEventReactionCountParams = z.infer<typeof AdverseEventReactionCountParamsSchema>;
+
+// 接受 "Class II"、"II"、"2" 等写法
+const recallClassification = z.preprocess(
+  value => {
+    if (typeof value !== "string") return value;
+    const level = value.trim().replace(/^class\s*/i, "").toUpperCase();
+    const roman: Record<string, string> = { "1": "I", "2": "II", "3": "III" };
+    return `Class ${roman[level] || level}`;
+  },
+  z.enum(["Class I", "Class II", "Class III"])
+);
+
+export const DrugRecallParamsSchema = z.object({
+  drug_name: z.string(),
+  classification: recallClassification.optional(),
+  status: z.preprocess(
+    value => (typeof value === "string" ? value.charAt(0).toUpperCase() + value.slice(1).toLowerCase() : value),
+    z.enum(["Ongoing", "Completed", "Terminated", "Pending"])
+  ).optional(),
+  recalling_firm: z.string().optional(),
+  report_date_from: openFDADate.optional(),
+  report_date_to: openFDADate.optional(),
+  skip: z.coerce.number().int().min(0).optional().default(0),
+  limit: z.coerce.number().int().min(1).max(50).optional().default(10),
+});
+
+export type DrugRecallParams = z.infer<typeof DrugRecallParamsSchema>;
+
+export const NdcLookupParamsSchema = z.object({
+  // 产品 NDC（labeler-product）或包装 NDC，可带或不带连字符，支持 11 位 HIPAA 格式
+  ndc: z.string().regex(/^[\d\s-]+$/, "NDC codes may only contain digits and hyphens"),
+  limit: z.coerce.number().int().min(1).max(10).optional().default(5),
+});
+
+export type NdcLookupParams = z.infer<typeof NdcLookupParamsSchema>;
+
+export const DrugApprovalParamsSchema = z.object({
+  drug_name: z.string().optional(),
+  // NDA/ANDA/BLA 申请号，如 "NDA021457"、"ANDA 076477"，也可只给数字
+  application_number: z.string().regex(/^\s*((NDA|ANDA|BLA)\s*-?\s*)?\d{1,6}\s*$/i, "Expected an application number such as NDA021457").optional(),
+  limit: z.coerce.number().int().min(1).max(20).optional().default(5),
+}).refine(
+  params => params.drug_name !== undefined || params.application_number !== undefined,
+  { message: "Either drug_name or application_number is required" }
+);
+
+export type DrugApprovalParams = z.infer<typeof DrugApprovalParamsSchema>;
+
+export const DrugShortageParamsSchema = z.object({
+  drug_name: z.string().optional(),
+  ndc: z.string().regex(/^[\d\s-]+$/, "NDC codes may only contain digits and hyphens").optional(),
+  // 接受 "current"、"to be discontinued" 等写法
+  status: z.preprocess(
+    value => (typeof value === "string"
+      ? value.trim().toLowerCase().replace(/[\s_]+/g, " ").replace(/\b\w/g, char => char.toUpperCase())
+      : value),
+    z.enum(["Current", "Resolved", "To Be Discontinued"])
+  ).optional(),
+  limit: z.coerce.number().int().min(1).max(50).optional().default(10),
+  // 同活性成分的替代 NDC 数量上限，0 表示不查询
+  alternatives_limit: z.coerce.number().int().min(0).max(50).optional().default(10),
+}).refine(
+  params => params.drug_name !== undefined || params.ndc !== undefined,
+  { message: "Either drug_name or ndc is required" }
+);
+
+export type DrugShortageParams = z.infer<typeof DrugShortageParamsSchema>;
+
+// HTTP 查询参数中的列表以逗号分隔传入
+function listLike<T extends z.ZodTypeAny>(schema: z.ZodArray<T>) {
+  return z.preprocess(
+    value => (typeof value === "string" ? value.split(",").map(item => item.trim()).filter(Boolean) : value),
+    schema
+  );
+}
+
+// 结构化比较项，其余为按原文并列展示的章节
+export const LABEL_COMPARISON_SECTIONS = [
+  "boxed_warning",
+  "contraindications",
+  "pregnancy",
+  "lactation",
+  "adverse_reactions",
+  "indications_and_usage",
+  "dosage_and_administration",
+  "warnings",
+  "precautions",
+  "drug_interactions",
+] as const;
+
+export type LabelComparisonSection = typeof LABEL_COMPARISON_SECTIONS[number];
+
+export const CompareDrugLabelsParamsSchema = z.object({
+  drug_names: listLike(z.array(z.string().min(1)).min(2).max(5)),
+  sections: listLike(z.array(z.enum(LABEL_COMPARISON_SECTIONS)).min(1))
+    .optional()
+    .default(["boxed_warning", "contraindications", "pregnancy", "lactation", "adverse_reactions"]),
+});
+
+export type CompareDrugLabelsParams = z.infer<typeof CompareDrugLabelsParamsSchema>;
+
+export const CheckInteractionsParamsSchema = z.object({
+  medications: listLike(z.array(z.string().min(1)).min(2).max(10)),
+});
+
+export type CheckInteractionsParams = z.infer<typeof CheckInteractionsParamsSchema>;
+
+export const BuildChunkIndexParamsSchema = z.object({
+  drug_names: listLike(z.array(z.string().min(1)).min(1).max(20)).optional(),
+  // OpenFDA 查询表达式，如 'openfda.pharm_class_epc:"Anticoagulant [EPC]"'
+  search: z.string().min(1).optional(),
+  // 每个药品名称或查询取回的标签数
+  limit: z.coerce.number().int().min(1).max(100).optional().default(100),
+}).refine(
+  params => params.drug_names !== undefined || params.search !== undefined,
+  { message: "Either drug_names or search is required" }
+);
+
+export type BuildChunkIndexParams = z.infer<typeof BuildChunkIndexParamsSchema>;
+
+export const InspectChunkIndexParamsSchema = z.object({
+  drug: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional().default(20),
+});
+
+export type InspectChunkIndexParams = z.infer<typeof InspectChunkIndexParamsSchema>;
+
+export const PruneChunkIndexParamsSchema = z.object({
+  set_ids: listLike(z.array(z.string().min(1)).min(1)).optional(),
+  drug: z.string().min(1).optional(),
+  older_than_days: z.coerce.number().min(0).optional(),
+  dry_run: booleanLike.optional().default(false),
+}).refine(
+  params => params.set_ids !== undefined || params.drug !== undefined || params.older_than_days !== undefined,
+  { message: "At least one of set_ids, drug or older_than_days is required" }
+);
+
+export type PruneChunkIndexParams = z.infer<typeof PruneChunkIndexParamsSchema>;
+
+// 所有 MCP 工具共用的结果裁剪参数，见 response-budget.ts；均未给出时结果原样返回
+export const ResponseShapeParamsSchema = z.object({
+  fields: listLike(z.array(z.string().min(1)).min(1)).optional(),
+  max_tokens: z.coerce.number().int().min(500).max(100000).optional(),
+  cursor: z.string().min(1).optional(),
+});
+
+export type ResponseShapeParams = z.infer<typeof ResponseShapeParamsSchema>;
@@ -0,0 +1,303 @@
+/**
+ * OpenFDA search 语法的解析与本地匹配
+ * 支持 field:term、field:"phrase"、field:[a TO b]、_exists_:field、AND/OR/NOT 与括号，
+ * 相邻子句之间默认为 OR（与 OpenFDA 一致），供离线模式在本地数据集上执行查询
+ */
+
+export type SearchNode =
+  | { type: "term"; field?: string; value: string; phrase: boolean }
+  | { type: "range"; field: string; from: string; to: string }
+  | { type: "exists"; field: string }
+  | { type: "and" | "or"; children: SearchNode[] }
+  | { type: "not"; child: SearchNode };
+
+type Token =
+  | { kind: "lparen" | "rparen" | "and" | "or" | "not" }
+  | { kind: "clause"; node: SearchNode };
+
+export class SearchSyntaxError extends Error {
+  constructor(message: string) {
+    super(`Invalid search query: ${message}`);
+    this.name = "SearchSyntaxError";
+  }
+}
+
+/**
+ * 将值切分为小写词元，与索引构建使用同一规则
+ */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9]+/g) || [];
+}
+
+export function parseSearch(query: string): SearchNode {
+  const tokens = lex(query);
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+
+  function parseOr(): SearchNode {
+    const children = [parseAnd()];
+    while (pos < tokens.length && peek().kind !== "rparen") {
+      if (peek().kind === "or") pos++;
+      children.push(parseAnd());
+    }
+    return children.length === 1 ? children[0] : { type: "or", children };
+  }
+
+  function parseAnd(): SearchNode {
+    const children = [parseUnary()];
+    while (pos < tokens.length && peek().kind === "and") {
+      pos++;
+      children.push(parseUnary());
+    }
+    return children.length === 1 ? children[0] : { type: "and", children };
+  }
+
+  function parseUnary(): SearchNode {
+    const token = tokens[pos++];
+    if (!token) {
+      throw new SearchSyntaxError("unexpected end of query");
+    }
+    switch (token.kind) {
+      case "not":
+        return { type: "not", child: parseUnary() };
+      case "lparen": {
+        const node = parseOr();
+        if (tokens[pos++]?.kind !== "rparen") {
+          throw new SearchSyntaxError("missing closing parenthesis");
+        }
+        return node;
+      }
+      case "clause":
+        return token.node;
+      default:
+        throw new SearchSyntaxError(`unexpected ${token.kind.toUpperCase()}`);
+    }
+  }
+
+  if (tokens.length === 0) {
+    throw new SearchSyntaxError("empty query");
+  }
+  const root = parseOr();
+  if (pos < tokens.length) {
+    throw new SearchSyntaxError("unbalanced parenthesis");
+  }
+  return root;
+}
+
+function lex(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  // URL 风格的 "+" 与空白等价
+  const isSeparator = (ch: string) => /\s/.test(ch) || ch === "+";
+
+  while (i < query.length) {
+    const ch = query[i];
+
+    if (isSeparator(ch)) {
+      i++;
+      continue;
+    }
+    if (ch === "(") {
+      tokens.push({ kind: "lparen" });
+      i++;
+      continue;
+    }
+    if (ch === ")") {
+      tokens.push({ kind: "rparen" });
+      i++;
+      continue;
+    }
+    if (ch === "-" && i + 1 < query.length && !isSeparator(query[i + 1])) {
+      tokens.push({ kind: "not" });
+      i++;
+      continue;
+    }
+
+    // 可选字段前缀
+    let field: string | undefined;
+    const fieldMatch = /^([A-Za-z0-9_.]+):/.exec(query.slice(i));
+    if (fieldMatch) {
+      field = fieldMatch[1];
+      i += fieldMatch[0].length;
+    }
+
+    if (query[i] === '"') {
+      const [value, next] = readQuoted(query, i);
+      tokens.push({ kind: "clause", node: toClause(field, value, true) });
+      i = next;
+      continue;
+    }
+
+    if (query[i] === "[" && field) {
+      const end = query.indexOf("]", i);
+      if (end === -1) {
+        throw new SearchSyntaxError("missing closing bracket in range");
+      }
+      const parts = query.slice(i + 1, end).trim().split(/\s+TO\s+|\+TO\+/);
+      if (parts.length !== 2) {
+        throw new SearchSyntaxError(`malformed range for ${field}`);
+      }
+      tokens.push({ kind: "clause", node: { type: "range", field, from: parts[0].trim(), to: parts[1].trim() } });
+      i = end + 1;
+      continue;
+    }
+
+    const [word, next] = readWord(query, i);
+    i = next;
+    if (!word) {
+      throw new SearchSyntaxError(`missing value for ${field}`);
+    }
+
+    if (!field && (word === "AND" || word === "OR" || word === "NOT")) {
+      tokens.push({ kind: word.toLowerCase() as "and" | "or" | "not" });
+      continue;
+    }
+    tokens.push({ kind: "clause", node: toClause(field, word, false) });
+  }
+
+  return tokens;
+}
+
+function toClause(field: string | undefined, value: string, phrase: boolean): SearchNode {
+  if (field === "_exists_") {
+    return { type: "exists", field: value };
+  }
+  return { type: "term", field, value, phrase };
+}
+
+function readQuoted(query: string, start: number): [string, number] {
+  let value = "";
+  let i = start + 1;
+  while (i < query.length) {
+    const ch = query[i];
+    if (ch === "\\" && i + 1 < query.length) {
+      value += query[i + 1];
+      i += 2;
+      continue;
+    }
+    if (ch === '"') {
+      return [value, i + 1];
+    }
+    value += ch;
+    i++;
+  }
+  throw new SearchSyntaxError("unterminated quoted phrase");
+}
+
+function readWord(query: string, start: number): [string, number] {
+  let value = "";
+  let i = start;
+  while (i < query.length) {
+    const ch = query[i];
+    if (ch === "\\" && i + 1 < query.length) {
+      value += query[i + 1];
+      i += 2;
+      continue;
+    }
+    if (/\s/.test(ch) || ch === "+" || ch === "(" || ch === ")") {
+      break;
+    }
+    value += ch;
+    i++;
+  }
+  return [value, i];
+}
+
+/**
+ * 取记录中某字段路径下的全部标量值，如 "openfda.brand_name"
+ */
+export function fieldValues(record: unknown, field: string): string[] {
+  const values: string[] = [];
+
+  const collect = (value: unknown, path: string[]) => {
+    if (value === null || value === undefined) return;
+    if (Array.isArray(value)) {
+      value.forEach(item => collect(item, path));
+      return;
+    }
+    if (path.length === 0) {
+      if (typeof value === "object") {
+        Object.values(value as Record<string, unknown>).forEach(item => collect(item, []));
+      } else {
+        values.push(String(value));
+      }
+      return;
+    }
+    if (typeof value === "object") {
+      collect((value as Record<string, unknown>)[path[0]], path.slice(1));
+    }
+  };
+
+  collect(record, field ? field.split(".") : []);
+  return values;
+}
+
+/**
+ * 判断记录是否满足查询
+ */
+export function matchesSearch(node: SearchNode, record: unknown): boolean {
+  switch (node.type) {
+    case "and":
+      return node.children.every(child => matchesSearch(child, record));
+    case "or":
+      return node.children.some(child => matchesSearch(child, record));
+    case "not":
+      return !matchesSearch(node.child, record);
+    case "exists":
+      return fieldValues(record, node.field).some(value => value.trim().length > 0);
+    case "range":
+      return fieldValues(record, stripExact(node.field)).some(value => inRange(value, node.from, node.to));
+    case "term":
+      return matchesTerm(node, record);
+  }
+}
+
+function matchesTerm(node: { field?: string; value: string; phrase: boolean }, record: unknown): boolean {
+  if (node.field?.endsWith(".exact")) {
+    return fieldValues(record, stripExact(node.field)).some(value => value === node.value);
+  }
+
+  const wanted = tokenize(node.value);
+  if (wanted.length === 0) return false;
+
+  const values = fieldValues(record, node.field || "");
+  return values.some(value => {
+    const tokens = tokenize(value);
+    if (!node.phrase || wanted.length === 1) {
+      return wanted.every(token => tokens.includes(token));
+    }
+    return containsSequence(tokens, wanted);
+  });
+}
+
+function containsSequence(tokens: string[], wanted: string[]): boolean {
+  outer: for (let i = 0; i + wanted.length <= tokens.length; i++) {
+    for (let j = 0; j < wanted.length; j++) {
+      if (tokens[i + j] !== wanted[j]) continue outer;
+    }
+    return true;
+  }
+  return false;
+}
+
+function isNumeric(text: string): boolean {
+  return text.trim() !== "" && !Number.isNaN(Number(text));
+}
+
+/**
+ * "*" 为开放边界；值与其余边界都是数值时按数值比较（"[10 TO *]" 不匹配 "9"），否则按字符串比较
+ */
+function inRange(value: string, from: string, to: string): boolean {
+  const bounds = [from, to].filter(bound => bound !== "*");
+  if (isNumeric(value) && bounds.every(isNumeric)) {
+    const num = Number(value);
+    return (from === "*" || num >= Number(from)) && (to === "*" || num <= Number(to));
+  }
+  return (from === "*" || value >= from) && (to === "*" || value <= to);
+}
+
+export function stripExact(field: string): string {
+  return field.endsWith(".exact") ? field.slice(0, -".exact".length) : field;
+}
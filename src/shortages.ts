@@ -0,0 +1,172 @@
+/**
+ * 药品短缺（/drug/shortages.json）查询与同成分替代品查找
+ * MCP 工具与 HTTP 路由共用
+ */
+
+import { OpenFDAError } from "./errors.js";
+import { ndcCandidates } from "./ndc.js";
+import { OpenFDAClient, RequestOptions } from "./openfda-client.js";
+import { QueryBuilderError, and, buildSearch, not, or, phrase } from "./query-builder.js";
+import { DrugShortageParams } from "./schemas.js";
+import { DrugShortage, NdcProduct, OpenFDAResponse } from "./types.js";
+
+// 查找替代品时读取的 NDC 目录记录与短缺记录上限
+const ALTERNATIVE_SCAN_LIMIT = 100;
+
+export function buildShortageSearch(params: Pick<DrugShortageParams, "drug_name" | "ndc" | "status">): string | undefined {
+  const ndc = params.ndc ? ndcCandidates(params.ndc) : undefined;
+  if (ndc && ndc.packages.length === 0 && ndc.products.length === 0) {
+    return undefined;
+  }
+
+  const query = and(
+    params.drug_name
+      ? or(
+          phrase("generic_name", params.drug_name),
+          phrase("proprietary_name", params.drug_name),
+          phrase("openfda.brand_name", params.drug_name),
+          phrase("openfda.generic_name", params.drug_name),
+          phrase("openfda.substance_name", params.drug_name)
+        )
+      : null,
+    ndc
+      ? or(
+          ...ndc.packages.map(code => phrase("package_ndc", code)),
+          ...ndc.packages.map(code => phrase("openfda.package_ndc", code)),
+          ...ndc.products.map(code => phrase("openfda.product_ndc", code))
+        )
+      : null,
+    params.status ? phrase("status", params.status) : null
+  );
+
+  return buildSearch(query!);
+}
+
+export function summarizeShortage(shortage: DrugShortage) {
+  return {
+    generic_name: shortage.generic_name,
+    proprietary_name: shortage.proprietary_name || shortage.openfda?.brand_name?.[0],
+    status: shortage.status,
+    shortage_reason: shortage.shortage_reason,
+    availability: shortage.availability,
+    presentation: shortage.presentation,
+    package_ndc: shortage.package_ndc,
+    dosage_form: shortage.dosage_form,
+    strength: shortage.strength || [],
+    company: shortage.company_name,
+    therapeutic_category: shortage.therapeutic_category || [],
+    related_info: shortage.related_info,
+    resolved_note: shortage.resolved_note,
+    initial_posting_date: shortage.initial_posting_date,
+    update_date: shortage.update_date,
+    discontinued_date: shortage.discontinued_date,
+  };
+}
+
+/**
+ * 没有匹配记录时 OpenFDA 返回 404；对短缺查询而言这是“无短缺”的正常结果
+ */
+async function orEmpty<T>(request: Promise<OpenFDAResponse<T>>): Promise<OpenFDAResponse<T> | null> {
+  try {
+    return await request;
+  } catch (error) {
+    if (error instanceof OpenFDAError && error.status === 404) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+function productNdc(ndc: string): string {
+  return ndc.split("-").slice(0, 2).join("-");
+}
+
+function ingredientKey(substances: string[]): string {
+  return substances.map(name => name.toUpperCase()).sort().join("|");
+}
+
+/**
+ * 同活性成分（组合完全一致）且当前未处于短缺的 NDC 产品
+ */
+async function findAlternatives(
+  client: OpenFDAClient,
+  shortages: DrugShortage[],
+  limit: number,
+  options: RequestOptions
+) {
+  const ingredientSets = shortages
+    .map(shortage => shortage.openfda?.substance_name || [])
+    .filter(substances => substances.length > 0);
+  const substances = [...new Set(ingredientSets.flat())];
+  if (substances.length === 0) {
+    return { active_ingredients: [], alternatives: [] };
+  }
+
+  const substanceQuery = or(...substances.map(name => phrase("openfda.substance_name", name)))!;
+  const [products, activeShortages] = await Promise.all([
+    orEmpty(client.searchNdc({ search: buildSearch(substanceQuery), limit: ALTERNATIVE_SCAN_LIMIT, skip: 0 }, options)),
+    orEmpty(client.searchShortages({
+      search: buildSearch(and(substanceQuery, not(phrase("status", "Resolved")))!),
+      limit: ALTERNATIVE_SCAN_LIMIT,
+      skip: 0,
+    }, options)),
+  ]);
+
+  const inShortage = new Set<string>();
+  for (const shortage of activeShortages?.results || []) {
+    if (shortage.package_ndc) inShortage.add(productNdc(shortage.package_ndc));
+    shortage.openfda?.product_ndc?.forEach(ndc => inShortage.add(ndc));
+  }
+
+  const wanted = new Set(ingredientSets.map(ingredientKey));
+  const today = new Date().toISOString().slice(0, 10).replace(/-/g, "");
+
+  const alternatives = (products?.results || [])
+    .filter((product: NdcProduct) =>
+      product.product_ndc !== undefined &&
+      !inShortage.has(product.product_ndc) &&
+      wanted.has(ingredientKey(product.openfda?.substance_name || [])) &&
+      (!product.marketing_end_date || product.marketing_end_date >= today)
+    )
+    .slice(0, limit)
+    .map(product => ({
+      product_ndc: product.product_ndc,
+      brand_name: product.brand_name,
+      generic_name: product.generic_name,
+      dosage_form: product.dosage_form,
+      route: product.route || [],
+      strength: (product.active_ingredients || []).map(ingredient => ({
+        ingredient: ingredient.name,
+        strength: ingredient.strength,
+      })),
+      labeler: product.labeler_name,
+      package_ndcs: (product.packaging || []).map(pkg => pkg.package_ndc).filter(Boolean),
+    }));
+
+  return { active_ingredients: substances, alternatives };
+}
+
+/**
+ * 查询短缺状态，并列出同活性成分、未处于短缺的其他 NDC
+ */
+export async function checkDrugShortage(client: OpenFDAClient, params: DrugShortageParams, options: RequestOptions = {}) {
+  const search = buildShortageSearch(params);
+  if (!search) {
+    throw new QueryBuilderError(`Unrecognized NDC format: ${params.ndc}`);
+  }
+
+  const data = await orEmpty(client.searchShortages({ search, limit: params.limit, skip: 0 }, options));
+  const shortages = data?.results || [];
+  const { active_ingredients, alternatives } = params.alternatives_limit > 0
+    ? await findAlternatives(client, shortages, params.alternatives_limit, options)
+    : { active_ingredients: [], alternatives: [] };
+
+  return {
+    query: params.ndc || params.drug_name,
+    in_shortage: shortages.some(shortage => shortage.status !== "Resolved"),
+    total_results: data?.meta?.results?.total || 0,
+    shortages: shortages.map(summarizeShortage),
+    active_ingredients,
+    alternatives,
+  };
+}
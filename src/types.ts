@@ -0,0 +1,236 @@
+/**
+ * OpenFDA 响应与药品标签记录的类型定义
+ * MCP 服务器与 HTTP 服务器共用
+ */
+
+export interface OpenFDAMeta {
+  disclaimer: string;
+  terms: string;
+  license: string;
+  last_updated: string;
+  results?: {
+    skip: number;
+    limit: number;
+    total: number;
+  };
+}
+
+export interface OpenFDAResponse<T> {
+  meta: OpenFDAMeta;
+  results: T[];
+}
+
+/**
+ * count 查询返回的统计项
+ */
+export interface OpenFDACountResult {
+  term: string;
+  count: number;
+}
+
+/**
+ * 标签记录中的 openfda 协调字段（均为数组）
+ */
+export interface OpenFDAHarmonizedFields {
+  brand_name?: string[];
+  generic_name?: string[];
+  substance_name?: string[];
+  manufacturer_name?: string[];
+  product_ndc?: string[];
+  package_ndc?: string[];
+  product_type?: string[];
+  route?: string[];
+  application_number?: string[];
+  spl_id?: string[];
+  spl_set_id?: string[];
+  rxcui?: string[];
+  unii?: string[];
+  pharm_class_epc?: string[];
+  pharm_class_moa?: string[];
+  pharm_class_pe?: string[];
+  pharm_class_cs?: string[];
+  is_original_packager?: boolean[];
+}
+
+/**
+ * /drug/label.json 返回的药品标签记录
+ * 各章节字段为文本段落数组，*_table 字段为 HTML 表格数组
+ */
+export interface DrugLabel {
+  id?: string;
+  set_id?: string;
+  version?: string;
+  effective_time?: string;
+  openfda?: OpenFDAHarmonizedFields;
+
+  indications_and_usage?: string[];
+  dosage_and_administration?: string[];
+  contraindications?: string[];
+  warnings?: string[];
+  warnings_and_cautions?: string[];
+  boxed_warning?: string[];
+  precautions?: string[];
+  adverse_reactions?: string[];
+  adverse_reactions_table?: string[];
+  drug_interactions?: string[];
+  pregnancy?: string[];
+  lactation?: string[];
+  use_in_specific_populations?: string[];
+  overdosage?: string[];
+  description?: string[];
+  clinical_pharmacology?: string[];
+
+  [field: string]: unknown;
+}
+
+/**
+ * /drug/event.json 返回的 FAERS 不良事件报告（常用字段）
+ * FAERS 中的编码字段均以字符串形式返回
+ */
+export interface AdverseEventReport {
+  safetyreportid?: string;
+  receivedate?: string;
+  receiptdate?: string;
+  occurcountry?: string;
+  serious?: string;
+  seriousnessdeath?: string;
+  seriousnesslifethreatening?: string;
+  seriousnesshospitalization?: string;
+  seriousnessdisabling?: string;
+  seriousnesscongenitalanomali?: string;
+  seriousnessother?: string;
+  patient?: {
+    patientonsetage?: string;
+    patientonsetageunit?: string;
+    patientsex?: string;
+    patientweight?: string;
+    reaction?: Array<{
+      reactionmeddrapt?: string;
+      reactionoutcome?: string;
+    }>;
+    drug?: Array<{
+      medicinalproduct?: string;
+      drugcharacterization?: string;
+      drugindication?: string;
+      openfda?: OpenFDAHarmonizedFields;
+    }>;
+  };
+
+  [field: string]: unknown;
+}
+
+/**
+ * /drug/enforcement.json 返回的召回（执法）报告
+ */
+export interface EnforcementReport {
+  recall_number?: string;
+  event_id?: string;
+  classification?: string;
+  status?: string;
+  recalling_firm?: string;
+  report_date?: string;
+  recall_initiation_date?: string;
+  termination_date?: string;
+  reason_for_recall?: string;
+  product_description?: string;
+  product_quantity?: string;
+  distribution_pattern?: string;
+  code_info?: string;
+  voluntary_mandated?: string;
+  openfda?: OpenFDAHarmonizedFields;
+
+  [field: string]: unknown;
+}
+
+/**
+ * /drug/ndc.json 返回的 NDC 目录产品记录
+ */
+export interface NdcProduct {
+  product_id?: string;
+  product_ndc?: string;
+  spl_id?: string;
+  brand_name?: string;
+  generic_name?: string;
+  labeler_name?: string;
+  dosage_form?: string;
+  route?: string[];
+  product_type?: string;
+  marketing_category?: string;
+  application_number?: string;
+  marketing_start_date?: string;
+  marketing_end_date?: string;
+  active_ingredients?: Array<{ name?: string; strength?: string }>;
+  packaging?: Array<{
+    package_ndc?: string;
+    description?: string;
+    marketing_start_date?: string;
+    sample?: boolean;
+  }>;
+  openfda?: OpenFDAHarmonizedFields;
+
+  [field: string]: unknown;
+}
+
+/**
+ * /drug/drugsfda.json 返回的 Drugs@FDA 申请记录
+ */
+export interface DrugsFdaApplication {
+  application_number?: string;
+  sponsor_name?: string;
+  openfda?: OpenFDAHarmonizedFields;
+  products?: Array<{
+    product_number?: string;
+    brand_name?: string;
+    reference_drug?: string;
+    reference_standard?: string;
+    dosage_form?: string;
+    route?: string;
+    marketing_status?: string;
+    te_code?: string;
+    active_ingredients?: Array<{ name?: string; strength?: string }>;
+  }>;
+  submissions?: Array<{
+    submission_type?: string;
+    submission_number?: string;
+    submission_status?: string;
+    submission_status_date?: string;
+    submission_class_code?: string;
+    submission_class_code_description?: string;
+    review_priority?: string;
+    application_docs?: Array<{
+      id?: string;
+      type?: string;
+      url?: string;
+      date?: string;
+    }>;
+  }>;
+
+  [field: string]: unknown;
+}
+
+/**
+ * /drug/shortages.json 返回的药品短缺记录
+ */
+export interface DrugShortage {
+  package_ndc?: string;
+  generic_name?: string;
+  proprietary_name?: string;
+  company_name?: string;
+  contact_info?: string;
+  presentation?: string;
+  dosage_form?: string;
+  strength?: string[];
+  status?: string;
+  availability?: string;
+  shortage_reason?: string;
+  related_info?: string;
+  resolved_note?: string;
+  therapeutic_category?: string[];
+  initial_posting_date?: string;
+  update_date?: string;
+  update_type?: string;
+  discontinued_date?: string;
+  openfda?: OpenFDAHarmonizedFields;
+
+  [field: string]: unknown;
+}
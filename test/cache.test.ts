@@ -0,0 +1,47 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { describe, it } from "node:test";
+import { ResponseCache, cacheKey } from "../src/cache.js";
+
+function response(lastUpdated: string) {
+  return { meta: { last_updated: lastUpdated }, results: [] };
+}
+
+describe("ResponseCache", () => {
+  const now = () => Date.parse("2024-01-02");
+  const labelsOld = cacheKey("/drug/label.json", { search: "a" });
+  const labelsNew = cacheKey("/drug/label.json", { search: "b" });
+  const events = cacheKey("/drug/event.json", { search: "a" });
+
+  it("invalidates older entries of the same endpoint only", () => {
+    const cache = new ResponseCache({ maxEntries: 10, now });
+    cache.set(labelsOld, response("2023-12-01"));
+    cache.set(events, response("2023-11-01"));
+    cache.set(labelsNew, response("2023-12-08"));
+
+    assert.equal(cache.get(labelsOld), undefined);
+    assert.ok(cache.get(labelsNew));
+    assert.ok(cache.get(events));
+  });
+
+  it("tracks last_updated per endpoint when loading from disk", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "openfda-cache-"));
+    const filePath = path.join(dir, "cache.json");
+    try {
+      const writer = new ResponseCache({ maxEntries: 10, filePath, now });
+      writer.set(events, response("2023-11-01"));
+      writer.set(labelsNew, response("2023-12-08"));
+      writer.set(labelsOld, response("2023-12-01"));
+      writer.save();
+
+      const reader = new ResponseCache({ maxEntries: 10, filePath, now });
+      assert.ok(reader.get(events));
+      assert.ok(reader.get(labelsNew));
+      assert.equal(reader.get(labelsOld), undefined);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
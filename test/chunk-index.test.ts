@@ -0,0 +1,88 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { ChunkIndex, chunkDrugLabel } from "../src/chunk-index.js";
+import { DrugLabel } from "../src/types.js";
+
+function label(setId: string, version: string): DrugLabel {
+  return {
+    id: `${setId}-v${version}`,
+    set_id: setId,
+    version,
+    effective_time: "20240101",
+    openfda: { brand_name: ["Examplex"], generic_name: ["examplenol"] },
+    warnings: ["Hepatotoxicity has been reported with examplenol."],
+  } as DrugLabel;
+}
+
+describe("chunkDrugLabel", () => {
+  it("attaches label version metadata and the DailyMed link to every chunk", () => {
+    const chunks = chunkDrugLabel(label("set 1", "2"));
+    assert.ok(chunks.length > 0);
+    for (const chunk of chunks) {
+      assert.equal(chunk.source, "set 1-v2");
+      assert.equal(chunk.metadata?.set_id, "set 1");
+      assert.equal(chunk.metadata?.version, "2");
+      assert.equal(chunk.metadata?.effective_time, "20240101");
+      assert.equal(chunk.metadata?.section, "warnings");
+      assert.equal(chunk.metadata?.url, "https://dailymed.nlm.nih.gov/dailymed/lookup.cfm?setid=set%201");
+    }
+  });
+
+  it("derives the same chunk ids for labels without an id", () => {
+    const anonymous = { ...label("a", "1"), id: undefined, set_id: undefined } as DrugLabel;
+    const first = chunkDrugLabel(anonymous).map(chunk => chunk.id);
+    assert.deepEqual(chunkDrugLabel({ ...anonymous }).map(chunk => chunk.id), first);
+    assert.match(first[0], /^label_[0-9a-f]{16}_warnings_/);
+  });
+});
+
+describe("ChunkIndex", () => {
+  let dir: string;
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "openfda-chunks-"));
+  });
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("batches upserts into one deferred write", () => {
+    const filePath = path.join(dir, "deferred.json");
+    const index = new ChunkIndex(filePath);
+
+    index.upsertLabels([label("a", "1")]);
+    index.upsertLabels([label("b", "1")]);
+    assert.equal(fs.existsSync(filePath), false);
+
+    index.flush();
+    const stored = JSON.parse(fs.readFileSync(filePath, "utf8"));
+    assert.deepEqual(stored.labels.map((entry: { set_id: string }) => entry.set_id), ["a", "b"]);
+  });
+
+  it("reloads flushed labels and skips unchanged versions", () => {
+    const filePath = path.join(dir, "reload.json");
+    const writer = new ChunkIndex(filePath);
+    writer.upsertLabels([label("a", "1")]);
+    writer.flush();
+
+    const reader = new ChunkIndex(filePath);
+    assert.equal(reader.stats().labels, 1);
+    assert.deepEqual(reader.upsertLabels([label("a", "1")]).unchanged, ["a"]);
+    assert.deepEqual(reader.upsertLabels([label("a", "2")]).updated, ["a"]);
+    reader.flush();
+  });
+
+  it("writes prunes immediately", () => {
+    const filePath = path.join(dir, "prune.json");
+    const index = new ChunkIndex(filePath);
+    index.upsertLabels([label("a", "1"), label("b", "1")]);
+
+    assert.deepEqual(index.prune({ set_ids: ["a"] }), ["a"]);
+    const stored = JSON.parse(fs.readFileSync(filePath, "utf8"));
+    assert.deepEqual(stored.labels.map((entry: { set_id: string }) => entry.set_id), ["b"]);
+  });
+});
@@ -0,0 +1,66 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { crossReferenceApprovals } from "../src/drugs-fda.js";
+import { OpenFDAError, OpenFDAQuotaError } from "../src/errors.js";
+import { FetchLike, OpenFDAClient } from "../src/openfda-client.js";
+import { DrugLabel } from "../src/types.js";
+
+const labels = [{ openfda: { application_number: ["NDA020702"] } }] as DrugLabel[];
+
+function client(fetch: FetchLike) {
+  return new OpenFDAClient({ fetch, rateLimit: false, cache: false, retry: { maxAttempts: 1 } });
+}
+
+function respond(status: number, body: unknown, headers: Record<string, string> = {}): FetchLike {
+  return async () => new Response(JSON.stringify(body), { status, headers });
+}
+
+describe("crossReferenceApprovals", () => {
+  it("indexes approvals by application number", async () => {
+    const approvals = await crossReferenceApprovals(client(respond(200, {
+      meta: {},
+      results: [{ application_number: "NDA020702", sponsor_name: "PFIZER" }],
+    })), labels);
+    assert.deepEqual(Object.keys(approvals), ["NDA020702"]);
+    assert.equal(approvals.NDA020702.sponsor, "PFIZER");
+  });
+
+  it("skips the request when labels have no application numbers", async () => {
+    let called = false;
+    const approvals = await crossReferenceApprovals(client(async () => {
+      called = true;
+      throw new Error("unexpected request");
+    }), [{} as DrugLabel]);
+    assert.deepEqual(approvals, {});
+    assert.equal(called, false);
+  });
+
+  it("returns an empty object when Drugs@FDA has no match", async () => {
+    const approvals = await crossReferenceApprovals(client(respond(404, { error: { code: "NOT_FOUND" } })), labels);
+    assert.deepEqual(approvals, {});
+  });
+
+  it("rethrows quota errors", async () => {
+    await assert.rejects(
+      crossReferenceApprovals(client(respond(429, {}, { "retry-after": "60" })), labels),
+      OpenFDAQuotaError
+    );
+  });
+
+  it("rethrows server errors", async () => {
+    await assert.rejects(
+      crossReferenceApprovals(client(respond(500, {})), labels),
+      (error: unknown) => error instanceof OpenFDAError && error.status === 500
+    );
+  });
+
+  it("rethrows aborts", async () => {
+    const controller = new AbortController();
+    const reason = new Error("cancelled");
+    controller.abort(reason);
+    await assert.rejects(
+      crossReferenceApprovals(client(respond(200, { results: [] })), labels, { signal: controller.signal }),
+      (error: unknown) => error === reason
+    );
+  });
+});
@@ -0,0 +1,162 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import {
+  EmbeddingCache,
+  EmbeddingError,
+  EmbeddingProvider,
+  Embedder,
+  OpenAIEmbeddingProvider,
+  cosineSimilarity,
+} from "../src/embeddings.js";
+import { FetchLike } from "../src/openfda-client.js";
+
+// 以文本长度作为向量，并记录每次调用的批次
+function recordingProvider(): EmbeddingProvider & { batches: string[][] } {
+  const batches: string[][] = [];
+  return {
+    model: "test-model",
+    batches,
+    async embed(texts) {
+      batches.push(texts);
+      return texts.map(text => [text.length, 1]);
+    },
+  };
+}
+
+describe("Embedder", () => {
+  it("splits missing texts into batches and keeps input order", async () => {
+    const provider = recordingProvider();
+    const embedder = new Embedder(provider, { batchSize: 2 });
+
+    const vectors = await embedder.embed(["a", "bb", "ccc", "dddd", "eeeee"]);
+    assert.deepEqual(vectors.map(vector => vector[0]), [1, 2, 3, 4, 5]);
+    assert.deepEqual(provider.batches, [["a", "bb"], ["ccc", "dddd"], ["eeeee"]]);
+  });
+
+  it("embeds repeated texts once per call", async () => {
+    const provider = recordingProvider();
+    const embedder = new Embedder(provider);
+
+    const vectors = await embedder.embed(["same", "other", "same"]);
+    assert.deepEqual(provider.batches, [["same", "other"]]);
+    assert.deepEqual(vectors[0], vectors[2]);
+  });
+
+  it("serves cached vectors without calling the provider", async () => {
+    const provider = recordingProvider();
+    const cache = new EmbeddingCache({ maxEntries: 10 });
+    const embedder = new Embedder(provider, { cache });
+
+    await embedder.embed(["warfarin", "aspirin"]);
+    await embedder.embed(["aspirin", "ibuprofen"]);
+
+    assert.deepEqual(provider.batches, [["warfarin", "aspirin"], ["ibuprofen"]]);
+    assert.deepEqual(embedder.cacheStats(), { hits: 1, misses: 3, size: 3, max_entries: 10, persistent: false });
+  });
+});
+
+describe("EmbeddingCache", () => {
+  let dir: string;
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "openfda-embeddings-"));
+  });
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("evicts the least recently used vector", () => {
+    const cache = new EmbeddingCache({ maxEntries: 2 });
+    cache.set("a", [1]);
+    cache.set("b", [2]);
+    cache.get("a");
+    cache.set("c", [3]);
+    assert.equal(cache.get("b"), undefined);
+    assert.deepEqual(cache.get("a"), [1]);
+  });
+
+  it("keys vectors by model and text", () => {
+    assert.notEqual(EmbeddingCache.key("m1", "text"), EmbeddingCache.key("m2", "text"));
+    assert.equal(EmbeddingCache.key("m1", "text"), EmbeddingCache.key("m1", "text"));
+  });
+
+  it("persists flushed vectors to the cache file", () => {
+    const filePath = path.join(dir, "vectors.json");
+    const writer = new EmbeddingCache({ maxEntries: 10, filePath });
+    writer.set("a", [0.5, 0.25]);
+    assert.equal(fs.existsSync(filePath), false);
+
+    writer.flush();
+    const reader = new EmbeddingCache({ maxEntries: 10, filePath });
+    assert.deepEqual(reader.get("a"), [0.5, 0.25]);
+  });
+});
+
+describe("OpenAIEmbeddingProvider", () => {
+  function provider(fetch: FetchLike, timeoutMs = 1000) {
+    return new OpenAIEmbeddingProvider({ baseUrl: "http://embeddings.test/v1/", model: "m", apiKey: "key", timeoutMs, fetch });
+  }
+
+  function respond(body: unknown, status = 200): FetchLike {
+    return async () => new Response(JSON.stringify(body), { status });
+  }
+
+  it("posts the inputs and orders vectors by index", async () => {
+    let request: { url: string; init?: RequestInit } | undefined;
+    const vectors = await provider(async (url, init) => {
+      request = { url: String(url), init };
+      return new Response(JSON.stringify({
+        data: [{ index: 1, embedding: [2] }, { index: 0, embedding: [1] }],
+      }));
+    }).embed(["first", "second"]);
+
+    assert.deepEqual(vectors, [[1], [2]]);
+    assert.equal(request?.url, "http://embeddings.test/v1/embeddings");
+    assert.deepEqual(JSON.parse(String(request?.init?.body)), { model: "m", input: ["first", "second"] });
+    assert.equal((request?.init?.headers as Record<string, string>).Authorization, "Bearer key");
+  });
+
+  it("rejects responses with the wrong number of vectors", async () => {
+    await assert.rejects(
+      provider(respond({ data: [{ index: 0, embedding: [1] }] })).embed(["a", "b"]),
+      (error: unknown) => error instanceof EmbeddingError && /1 vectors for 2 inputs/.test(error.message)
+    );
+  });
+
+  it("reports endpoint errors", async () => {
+    await assert.rejects(provider(respond({ error: "bad model" }, 400)).embed(["a"]), /Embedding endpoint error \(400\)/);
+  });
+
+  it("times out slow requests", async () => {
+    const hanging: FetchLike = (_url, init) => new Promise((_resolve, reject) => {
+      init?.signal?.addEventListener("abort", () => reject(init.signal!.reason));
+    });
+    await assert.rejects(
+      provider(hanging, 20).embed(["a"]),
+      (error: unknown) => error instanceof EmbeddingError && /timed out after 20ms/.test(error.message)
+    );
+  });
+
+  it("passes caller aborts through instead of reporting a timeout", async () => {
+    const controller = new AbortController();
+    const reason = new Error("cancelled");
+    const hanging: FetchLike = (_url, init) => new Promise((_resolve, reject) => {
+      init?.signal?.addEventListener("abort", () => reject(init.signal!.reason));
+    });
+    const pending = provider(hanging).embed(["a"], { signal: controller.signal });
+    controller.abort(reason);
+    await assert.rejects(pending, (error: unknown) => error === reason);
+  });
+});
+
+describe("cosineSimilarity", () => {
+  it("compares direction and treats zero vectors as unrelated", () => {
+    assert.equal(cosineSimilarity([1, 0], [2, 0]), 1);
+    assert.equal(cosineSimilarity([1, 0], [0, 3]), 0);
+    assert.equal(cosineSimilarity([0, 0], [1, 1]), 0);
+  });
+});
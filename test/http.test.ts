@@ -0,0 +1,123 @@
+import assert from "node:assert/strict";
+import { Server } from "node:http";
+import { AddressInfo } from "node:net";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it, mock } from "node:test";
+import OpenFDAHTTPServer from "../src/http.js";
+import { FetchLike, OpenFDAClient } from "../src/openfda-client.js";
+import { createQueryExpander } from "../src/query-expansion.js";
+
+describe("HTTP error statuses", () => {
+  let upstream: FetchLike;
+  let server: Server;
+  let baseUrl: string;
+
+  before(async () => {
+    mock.method(console, "log", () => {});
+    mock.method(console, "error", () => {});
+    const client = new OpenFDAClient({
+      fetch: (input, init) => upstream(input, init),
+      rateLimit: false,
+      cache: false,
+      timeoutMs: 50,
+      retry: { maxAttempts: 1 },
+    });
+    server = new OpenFDAHTTPServer(client, createQueryExpander()).start(0);
+    await new Promise(resolve => server.once("listening", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise(resolve => server.close(resolve));
+    mock.restoreAll();
+  });
+
+  function respond(status: number, headers: Record<string, string> = {}): FetchLike {
+    return async () => new Response(JSON.stringify({ error: { code: String(status) } }), { status, headers });
+  }
+
+  async function statusOf(path: string) {
+    const response = await fetch(`${baseUrl}${path}`);
+    await response.arrayBuffer();
+    return response;
+  }
+
+  it("returns 400 for invalid parameters", async () => {
+    upstream = respond(200);
+    assert.equal((await statusOf("/drug-labels?limit=5000")).status, 400);
+    assert.equal((await statusOf("/ndc/not-an-ndc")).status, 400);
+  });
+
+  it("passes through 404 when openFDA has no matches", async () => {
+    upstream = respond(404);
+    assert.equal((await statusOf("/drug-labels?search=nothing")).status, 404);
+  });
+
+  it("returns 400 when openFDA rejects the query", async () => {
+    upstream = respond(400);
+    assert.equal((await statusOf("/drug-labels?search=bad")).status, 400);
+  });
+
+  it("returns 502 for openFDA server errors", async () => {
+    upstream = respond(503);
+    assert.equal((await statusOf("/drug-labels?search=x")).status, 502);
+  });
+
+  it("returns 504 when openFDA times out", async () => {
+    upstream = (_input, init) => new Promise((_resolve, reject) => {
+      init?.signal?.addEventListener("abort", () => reject(init.signal!.reason));
+    });
+    assert.equal((await statusOf("/drug-labels?search=x")).status, 504);
+  });
+
+  it("keeps 429 with Retry-After for quota errors", async () => {
+    upstream = respond(429, { "retry-after": "30" });
+    const response = await statusOf("/drug-labels?search=x");
+    assert.equal(response.status, 429);
+    assert.ok(Number(response.headers.get("retry-after")) > 0);
+  });
+
+  it("returns 500 for unexpected errors", async () => {
+    upstream = async () => new Response("not json", { status: 200 });
+    assert.equal((await statusOf("/drug-labels?search=x")).status, 500);
+  });
+});
+
+describe("HTTP error statuses in offline mode", () => {
+  let server: Server;
+  let baseUrl: string;
+
+  before(async () => {
+    mock.method(console, "log", () => {});
+    mock.method(console, "error", () => {});
+    const client = new OpenFDAClient({
+      fetch: async () => {
+        throw new Error("offline mode must not reach the network");
+      },
+      rateLimit: false,
+      cache: false,
+      offlineDataDir: path.join(os.tmpdir(), "openfda-offline-missing"),
+    });
+    server = new OpenFDAHTTPServer(client, createQueryExpander()).start(0);
+    await new Promise(resolve => server.once("listening", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise(resolve => server.close(resolve));
+    mock.restoreAll();
+  });
+
+  it("returns 501 for endpoints without an offline dataset", async () => {
+    const response = await fetch(`${baseUrl}/adverse-events?reaction=nausea`);
+    await response.arrayBuffer();
+    assert.equal(response.status, 501);
+  });
+
+  it("returns 400 for invalid offline search syntax", async () => {
+    const response = await fetch(`${baseUrl}/drug-labels?search=${encodeURIComponent("(warnings:liver")}`);
+    await response.arrayBuffer();
+    assert.equal(response.status, 400);
+  });
+});
@@ -0,0 +1,100 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { detectTextTables, parseHtmlTable, parseLabelSection, splitSubsections } from "../src/label-parser.js";
+import { DrugLabel } from "../src/types.js";
+
+function titles(text: string, sectionNumber?: string) {
+  return splitSubsections(text, sectionNumber).subsections.map(subsection => [subsection.number, subsection.title]);
+}
+
+describe("splitSubsections", () => {
+  it("splits numbered subsections and keeps the intro", () => {
+    const { intro, subsections } = splitSubsections(
+      "These highlights do not include all the information. 5.1 Skeletal Muscle Effects Cases of rhabdomyolysis have been reported. "
+      + "5.2 Hepatic Dysfunction Persistent elevations in hepatic transaminases can occur.",
+      "5"
+    );
+    assert.equal(intro, "These highlights do not include all the information.");
+    assert.deepEqual(subsections, [
+      { number: "5.1", title: "Skeletal Muscle Effects", text: "Cases of rhabdomyolysis have been reported." },
+      { number: "5.2", title: "Hepatic Dysfunction", text: "Persistent elevations in hepatic transaminases can occur." },
+    ]);
+  });
+
+  it("ignores doses that look like subsection numbers", () => {
+    assert.deepEqual(titles("2.1 Dosage Take 2.5 mg Tablets once daily. 2.2 Renal Impairment Reduce the dose.", "2"), [
+      ["2.1", "Dosage"],
+      ["2.2", "Renal Impairment"],
+    ]);
+  });
+
+  it("ends titles before bodies that start with a title-case word and an acronym", () => {
+    assert.deepEqual(titles(
+      "5.3 Hepatotoxicity Elevations of ALT or AST have been reported. "
+      + "5.4 Hypotension ALT elevations were seen. "
+      + "5.5 Rhabdomyolysis and Myopathy LIPITOR may cause myopathy. "
+      + "5.6 QT Prolongation Cases of QT prolongation occurred. "
+      + "5.7 Use in Patients with HIV Infection Lactic acidosis has been reported.",
+      "5"
+    ), [
+      ["5.3", "Hepatotoxicity"],
+      ["5.4", "Hypotension"],
+      ["5.5", "Rhabdomyolysis and Myopathy"],
+      ["5.6", "QT Prolongation"],
+      ["5.7", "Use in Patients with HIV Infection"],
+    ]);
+  });
+});
+
+describe("detectTextTables", () => {
+  it("reads flattened rows and keeps the header out of the first row", () => {
+    const [table] = detectTextTables(
+      "Table 1: Adverse Reactions Occurring in ≥2% of Patients Reaction Drug Placebo Nausea 5% 2% "
+      + "Dizziness 3% 1% Upper Respiratory Tract Infection 2.5% 1.1% In trials, rash (4% vs 1% placebo) occurred.",
+      "6.1",
+      true
+    );
+    assert.equal(table.caption, "Table 1: Adverse Reactions Occurring in ≥2% of Patients Reaction Drug Placebo");
+    assert.equal(table.subsection, "6.1");
+    assert.deepEqual(table.rows, [
+      { label: "Nausea", values: ["5%", "2%"] },
+      { label: "Dizziness", values: ["3%", "1%"] },
+      { label: "Upper Respiratory Tract Infection", values: ["2.5%", "1.1%"] },
+    ]);
+  });
+
+  it("skips captions without enough consistent rows", () => {
+    assert.deepEqual(detectTextTables("See Table 2 for the pharmacokinetic parameters in 12 subjects."), []);
+  });
+});
+
+describe("parseHtmlTable", () => {
+  it("expands colspan headers and groups rows", () => {
+    const table = parseHtmlTable(
+      "<table><caption>Table 2: Adverse Reactions</caption>"
+      + "<tr><th rowspan=\"2\">Body System</th><th colspan=\"2\">Drug</th><th>Placebo</th></tr>"
+      + "<tr><th></th><th>10 mg</th><th>20 mg</th><th>N=100</th></tr>"
+      + "<tr><td colspan=\"4\">Gastrointestinal</td></tr>"
+      + "<tr><td>Nausea</td><td>4</td><td>6</td><td>2</td></tr></table>"
+    );
+    assert.deepEqual(table.columns, ["Body System", "Drug 10 mg", "Drug 20 mg", "Placebo N=100"]);
+    assert.deepEqual(table.rows, [{ group: "Gastrointestinal", label: "Nausea", values: ["4", "6", "2"] }]);
+    assert.equal(table.is_adverse_reaction_table, true);
+  });
+});
+
+describe("parseLabelSection", () => {
+  it("strips the section heading and parses subsections and tables", () => {
+    const section = parseLabelSection({
+      adverse_reactions: [
+        "6 ADVERSE REACTIONS 6.1 Clinical Trials Experience Table 1: Adverse Reactions in ≥2% of Patients "
+        + "Reaction Drug Placebo Nausea 5% 2% Dizziness 3% 1% 6.2 Postmarketing Experience Pancreatitis has been reported.",
+      ],
+    } as DrugLabel, "adverse_reactions");
+
+    assert.equal(section?.number, "6");
+    assert.equal(section?.title, "ADVERSE REACTIONS");
+    assert.deepEqual(section?.subsections.map(subsection => subsection.title), ["Clinical Trials Experience", "Postmarketing Experience"]);
+    assert.deepEqual(section?.tables.map(table => table.rows.map(row => row.label)), [["Nausea", "Dizziness"]]);
+  });
+});
@@ -0,0 +1,59 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { OfflineLabelStore, importBulkLabels } from "../src/offline-store.js";
+
+function writeBulkFile(dir: string, name: string, lastUpdated: string, brands: string[]): string {
+  const filePath = path.join(dir, name);
+  fs.writeFileSync(filePath, JSON.stringify({
+    meta: { disclaimer: "", terms: "", license: "", last_updated: lastUpdated },
+    results: brands.map((brand, index) => ({
+      id: `${brand}-${index}`,
+      set_id: `${brand}-set`,
+      openfda: { brand_name: [brand] },
+      // 不同长度让两次导入的偏移不同
+      indications_and_usage: [`${brand} `.repeat(index + 1)],
+    })),
+  }));
+  return filePath;
+}
+
+describe("OfflineLabelStore", () => {
+  let root: string;
+  let dataDir: string;
+
+  before(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "openfda-offline-"));
+    dataDir = path.join(root, "labels");
+  });
+
+  after(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it("reloads the index after a re-import", async () => {
+    await importBulkLabels(dataDir, [writeBulkFile(root, "a.json", "2024-01-01", ["advil", "tylenol"])]);
+    const store = new OfflineLabelStore(dataDir);
+
+    const first = await store.query({ search: "openfda.brand_name:tylenol" });
+    assert.equal(first.meta.last_updated, "2024-01-01");
+    assert.equal(first.results.length, 1);
+
+    await importBulkLabels(dataDir, [writeBulkFile(root, "b.json", "2024-02-01", ["aspirin", "motrin", "tylenol"])]);
+
+    const second = await store.query({ search: "openfda.brand_name:tylenol" });
+    assert.equal(second.meta.last_updated, "2024-02-01");
+    assert.deepEqual(second.results.map(label => (label as { id: string }).id), ["tylenol-2"]);
+    assert.equal(store.info().records, 3);
+
+    const scanned = await store.query({ search: "indications_and_usage:motrin", limit: 10 });
+    assert.deepEqual(scanned.results.map(label => (label as { id: string }).id), ["motrin-1"]);
+  });
+
+  it("reports a missing dataset", () => {
+    const store = new OfflineLabelStore(path.join(root, "missing"));
+    assert.deepEqual(store.info(), { data_dir: path.join(root, "missing"), available: false });
+  });
+});
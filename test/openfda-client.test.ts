@@ -0,0 +1,156 @@
+import assert from "node:assert/strict";
+import http from "node:http";
+import { AddressInfo } from "node:net";
+import { after, afterEach, before, describe, it, mock } from "node:test";
+import { OpenFDAError, OpenFDAQuotaError, OpenFDATimeoutError } from "../src/errors.js";
+import { OpenFDAClient, OpenFDAClientOptions } from "../src/openfda-client.js";
+
+type Handler = (req: http.IncomingMessage, res: http.ServerResponse) => void;
+
+const ok: Handler = (_req, res) => {
+  res.writeHead(200, { "content-type": "application/json" });
+  res.end(JSON.stringify({ meta: { last_updated: "2024-01-01" }, results: [{ id: "label-1" }] }));
+};
+
+function status(code: number, headers: http.OutgoingHttpHeaders = {}): Handler {
+  return (_req, res) => {
+    res.writeHead(code, headers);
+    res.end(JSON.stringify({ error: { code: String(code) } }));
+  };
+}
+
+// 不响应，直到测试结束时关闭连接
+const hang: Handler = () => {};
+
+describe("OpenFDAClient retries", () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let handlers: Handler[] = [];
+  let requests = 0;
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      const handler = handlers[Math.min(requests, handlers.length - 1)];
+      requests++;
+      res.setHeader("connection", "close");
+      handler(req, res);
+    });
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    // 超时中止的请求会留下空闲连接；关闭后等客户端连接池察觉，避免下一个测试拿到已关闭的套接字
+    server.closeAllConnections();
+    await new Promise(resolve => setTimeout(resolve, 50));
+    handlers = [];
+    requests = 0;
+    mock.restoreAll();
+  });
+
+  after(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  function client(options: Partial<OpenFDAClientOptions> = {}) {
+    return new OpenFDAClient({
+      baseUrl,
+      rateLimit: false,
+      cache: false,
+      ...options,
+      retry: { maxAttempts: 3, baseDelayMs: 10, maxDelayMs: 2000, ...options.retry },
+    });
+  }
+
+  it("retries 5xx responses until one succeeds", async () => {
+    handlers = [status(500), status(503), ok];
+    const data = await client().searchLabels({ search: "a" });
+    assert.deepEqual(data.results, [{ id: "label-1" }]);
+    assert.equal(requests, 3);
+  });
+
+  it("gives up after maxAttempts 5xx responses", async () => {
+    handlers = [status(502)];
+    await assert.rejects(client().searchLabels({ search: "a" }), (error: unknown) =>
+      error instanceof OpenFDAError && error.status === 502
+    );
+    assert.equal(requests, 3);
+  });
+
+  it("does not retry other 4xx responses", async () => {
+    handlers = [status(404), ok];
+    await assert.rejects(client().searchLabels({ search: "a" }), (error: unknown) =>
+      error instanceof OpenFDAError && error.status === 404
+    );
+    assert.equal(requests, 1);
+  });
+
+  it("waits for Retry-After on 429 when it is within maxDelayMs", async () => {
+    handlers = [status(429, { "retry-after": "1" }), ok];
+    const started = Date.now();
+    const data = await client().searchLabels({ search: "a" });
+    assert.equal(data.results.length, 1);
+    assert.equal(requests, 2);
+    assert.ok(Date.now() - started >= 900, "should wait about one second before retrying");
+  });
+
+  it("also waits for Retry-After when the client rate limiter is enabled", async () => {
+    handlers = [status(429, { "retry-after": "1" }), ok];
+    const data = await client({ rateLimit: { requestsPerMinute: 240 } }).searchLabels({ search: "a" });
+    assert.equal(data.results.length, 1);
+    assert.equal(requests, 2);
+  });
+
+  it("fails fast with a quota error when Retry-After exceeds maxDelayMs", async () => {
+    handlers = [status(429, { "retry-after": "120" }), ok];
+    const started = Date.now();
+    await assert.rejects(client().searchLabels({ search: "a" }), (error: unknown) => {
+      assert.ok(error instanceof OpenFDAQuotaError);
+      const wait = error.retryAt.getTime() - started;
+      assert.ok(wait > 100_000 && wait <= 121_000);
+      return true;
+    });
+    assert.equal(requests, 1);
+  });
+
+  it("retries timed out attempts and reports a timeout error", async () => {
+    handlers = [hang];
+    await assert.rejects(
+      client({ timeoutMs: 100, retry: { maxAttempts: 2 } }).searchLabels({ search: "a" }),
+      OpenFDATimeoutError
+    );
+    assert.equal(requests, 2);
+  });
+
+  it("recovers when a retry after a timeout succeeds", async () => {
+    handlers = [hang, ok];
+    const data = await client({ timeoutMs: 100 }).searchLabels({ search: "a" });
+    assert.equal(data.results.length, 1);
+    assert.equal(requests, 2);
+  });
+
+  it("stops immediately when aborted during the backoff sleep", async () => {
+    // 退避取满上限，保证中止发生在等待期间
+    mock.method(Math, "random", () => 1);
+    handlers = [status(500), ok];
+    const controller = new AbortController();
+    const reason = new Error("caller cancelled");
+    const started = Date.now();
+    setTimeout(() => controller.abort(reason), 200);
+
+    await assert.rejects(
+      client({ retry: { baseDelayMs: 5000, maxDelayMs: 5000 } }).searchLabels({ search: "a" }, { signal: controller.signal }),
+      (error: unknown) => error === reason
+    );
+    assert.equal(requests, 1);
+    assert.ok(Date.now() - started < 2000, "should not wait for the full backoff");
+  });
+
+  it("does not send a request when already aborted", async () => {
+    handlers = [ok];
+    const controller = new AbortController();
+    controller.abort(new Error("cancelled"));
+    await assert.rejects(client().searchLabels({ search: "a" }, { signal: controller.signal }), /cancelled/);
+    assert.equal(requests, 0);
+  });
+});
@@ -0,0 +1,166 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  QueryBuilderError,
+  and,
+  buildSearch,
+  escapePhrase,
+  escapeTerm,
+  exists,
+  not,
+  or,
+  phrase,
+  range,
+  term,
+} from "../src/query-builder.js";
+import { parseSearch } from "../src/search-syntax.js";
+
+describe("escapeTerm", () => {
+  it("escapes query_string operators", () => {
+    assert.equal(escapeTerm("a:b"), "a\\:b");
+    assert.equal(escapeTerm('"quoted"'), '\\"quoted\\"');
+    assert.equal(escapeTerm("[1 TO 2]"), "\\[1 TO 2\\]");
+    assert.equal(escapeTerm("(x)"), "\\(x\\)");
+    assert.equal(escapeTerm("a\\b"), "a\\\\b");
+    assert.equal(escapeTerm("+-!^~*?/{}"), "\\+\\-\\!\\^\\~\\*\\?\\/\\{\\}");
+  });
+
+  it("leaves plain words unchanged", () => {
+    assert.equal(escapeTerm("ibuprofen"), "ibuprofen");
+  });
+});
+
+describe("escapePhrase", () => {
+  it("escapes only quotes and backslashes", () => {
+    assert.equal(escapePhrase('say "hi": [now]'), 'say \\"hi\\": [now]');
+    assert.equal(escapePhrase("a\\b"), "a\\\\b");
+  });
+});
+
+describe("term", () => {
+  it("escapes special characters in unquoted terms", () => {
+    assert.equal(buildSearch(term("openfda.brand_name", "a:b[1]")), "openfda.brand_name:a\\:b\\[1\\]");
+  });
+
+  it("turns values with whitespace into phrases", () => {
+    assert.equal(buildSearch(term("openfda.brand_name", " extra strength ")), 'openfda.brand_name:"extra strength"');
+  });
+
+  it("quotes AND/OR/NOT/TO used as literal values", () => {
+    assert.equal(buildSearch(term(undefined, "AND")), '"AND"');
+    assert.equal(buildSearch(term("openfda.brand_name", "OR")), 'openfda.brand_name:"OR"');
+    assert.equal(buildSearch(term(undefined, "NOT")), '"NOT"');
+    assert.equal(buildSearch(term(undefined, "TO")), '"TO"');
+    // 小写不是运算符
+    assert.equal(buildSearch(term(undefined, "and")), "and");
+  });
+
+  it("rejects empty values and invalid field names", () => {
+    assert.throws(() => term(undefined, "   "), QueryBuilderError);
+    assert.throws(() => term("bad field", "x"), QueryBuilderError);
+    assert.throws(() => term("a:b", "x"), QueryBuilderError);
+    assert.throws(() => term("a..b", "x"), QueryBuilderError);
+  });
+});
+
+describe("phrase", () => {
+  it("quotes the value and escapes embedded quotes", () => {
+    assert.equal(buildSearch(phrase("openfda.brand_name", 'say "hi"')), 'openfda.brand_name:"say \\"hi\\""');
+  });
+
+  it("keeps colons and brackets literal inside the quotes", () => {
+    assert.equal(buildSearch(phrase(undefined, "a:b [c]")), '"a:b [c]"');
+  });
+
+  it("quotes operator words", () => {
+    assert.equal(buildSearch(phrase("openfda.brand_name", "AND")), 'openfda.brand_name:"AND"');
+  });
+
+  it("rejects empty values", () => {
+    assert.throws(() => phrase("openfda.brand_name", ""), QueryBuilderError);
+  });
+});
+
+describe("range", () => {
+  it("serializes closed and open-ended ranges", () => {
+    assert.equal(buildSearch(range("effective_time", "20200101", "20201231")), "effective_time:[20200101 TO 20201231]");
+    assert.equal(buildSearch(range("effective_time", "20200101", "*")), "effective_time:[20200101 TO *]");
+    assert.equal(buildSearch(range("patient.patientonsetage", 18, 65)), "patient.patientonsetage:[18 TO 65]");
+  });
+
+  it("rejects bounds that could break out of the range", () => {
+    assert.throws(() => range("effective_time", "2020]", "*"), QueryBuilderError);
+    assert.throws(() => range("effective_time", "1 TO 2", "3"), QueryBuilderError);
+    assert.throws(() => range("effective_time", "a:b", "*"), QueryBuilderError);
+    assert.throws(() => range("bad field", "1", "2"), QueryBuilderError);
+  });
+});
+
+describe("exists", () => {
+  it("uses the _exists_ field", () => {
+    assert.equal(buildSearch(exists("boxed_warning")), "_exists_:boxed_warning");
+  });
+
+  it("rejects invalid field names", () => {
+    assert.throws(() => exists("boxed_warning OR x"), QueryBuilderError);
+  });
+});
+
+describe("and / or", () => {
+  const a = term("a", "x");
+  const b = term("b", "y");
+  const c = term("c", "z");
+
+  it("returns null for empty groups", () => {
+    assert.equal(and(), null);
+    assert.equal(or(null, undefined, false), null);
+    assert.equal(and(or(), and()), null);
+  });
+
+  it("returns a single remaining clause unwrapped", () => {
+    assert.deepEqual(and(null, a, false), a);
+    assert.equal(buildSearch(or(undefined, b)!), "b:y");
+  });
+
+  it("flattens nested groups of the same type", () => {
+    const node = and(a, and(b, c))!;
+    assert.equal(node.type, "and");
+    assert.equal(node.type === "and" && node.children.length, 3);
+    assert.equal(buildSearch(node), "a:x AND b:y AND c:z");
+  });
+
+  it("parenthesizes nested groups of the other type", () => {
+    assert.equal(buildSearch(and(a, or(b, c))!), "a:x AND (b:y OR c:z)");
+    assert.equal(buildSearch(or(and(a, b), c)!), "(a:x AND b:y) OR c:z");
+  });
+});
+
+describe("not", () => {
+  const a = term("a", "x");
+  const b = term("b", "y");
+
+  it("negates single clauses and groups", () => {
+    assert.equal(buildSearch(not(a)), "NOT a:x");
+    assert.equal(buildSearch(not(or(a, b)!)), "NOT (a:x OR b:y)");
+    assert.equal(buildSearch(and(a, not(b))!), "a:x AND NOT b:y");
+  });
+
+  it("parenthesizes nested negation", () => {
+    assert.equal(buildSearch(not(not(a))), "NOT (NOT a:x)");
+    assert.equal(buildSearch(not(and(a, not(or(b, term("c", "AND"))!))!)), 'NOT (a:x AND NOT (b:y OR c:"AND"))');
+  });
+});
+
+describe("buildSearch", () => {
+  it("produces queries that parse back to the same tree", () => {
+    const nodes = [
+      phrase("openfda.brand_name", 'say "hi"'),
+      term("openfda.brand_name", "a:b[1]"),
+      and(term("a", "x"), not(or(term("b", "y"), exists("c"))!), range("effective_time", "20200101", "*"))!,
+      not(not(term("a", "x"))),
+    ];
+    for (const node of nodes) {
+      assert.deepEqual(parseSearch(buildSearch(node)), node);
+    }
+  });
+});
@@ -0,0 +1,80 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { buildApprovalSearch } from "../src/drugs-fda.js";
+import { buildSearch } from "../src/query-builder.js";
+import { QueryExpander, createQueryExpander } from "../src/query-expansion.js";
+import { buildRecallSearch } from "../src/recalls.js";
+import { DrugLabel } from "../src/types.js";
+
+describe("QueryExpander", () => {
+  const expander = createQueryExpander();
+
+  it("expands drug names from the synonym table", () => {
+    const expansion = expander.expandDrug("Tylenol");
+    assert.equal(expansion.terms[0], "Tylenol");
+    assert.deepEqual(expansion.synonyms, ["acetaminophen", "paracetamol", "APAP"]);
+  });
+
+  it("learns names from single-ingredient labels only", () => {
+    const local = new QueryExpander([{ drugs: [], conditions: {} }]);
+    const labels = [
+      { openfda: { brand_name: ["Examplex"], generic_name: ["examplenol"], substance_name: ["EXAMPLENOL"] } },
+      { openfda: { brand_name: ["Combo"], generic_name: ["examplenol and other"], substance_name: ["EXAMPLENOL", "OTHER"] } },
+    ] as DrugLabel[];
+
+    const seeded = local.seedFromLabels(local.expandDrug("examplex"), labels);
+    assert.deepEqual(seeded.label_names, ["examplenol"]);
+    assert.deepEqual(local.expandDrug("Examplex").terms, ["Examplex", "examplenol"]);
+  });
+
+  it("maps lay condition terms to clinical terms", () => {
+    const expansion = expander.expandCondition("high blood pressures and heart attack");
+    assert.deepEqual(expansion.terms.slice(1), ["hypertension", "myocardial infarction"]);
+    assert.deepEqual(expansion.mappings.map(mapping => mapping.lay_term), ["high blood pressure", "heart attack"]);
+  });
+});
+
+describe("QueryExpander.textQuery", () => {
+  const expander = createQueryExpander();
+
+  it("ORs the clinical terms into the search for mapped phrases", () => {
+    const query = expander.textQuery(expander.expandCondition("warfarin high blood pressure headache"));
+    assert.equal(buildSearch(query!), '("high blood pressure" OR "hypertension") AND warfarin AND headache');
+  });
+
+  it("matches longer lay phrases before the words they contain", () => {
+    const local = new QueryExpander([{ drugs: [], conditions: { pain: ["analgesia"], "chest pain": ["angina pectoris"] } }]);
+    const query = local.textQuery(local.expandCondition("chest pain at night"));
+    assert.equal(buildSearch(query!), '("chest pain" OR "angina pectoris") AND night');
+  });
+
+  it("requires every remaining word and skips short ones", () => {
+    assert.equal(buildSearch(expander.textQuery(expander.expandCondition("warfarin dosing in kids"))!), "warfarin AND dosing AND kids");
+    assert.equal(expander.textQuery(expander.expandCondition("is it ok")), null);
+  });
+});
+
+describe("expanded drug names in other endpoints", () => {
+  const expander = createQueryExpander();
+  const terms = expander.expandDrug("tylenol").terms;
+
+  it("searches recalls by every expanded name", () => {
+    const search = buildRecallSearch({ drug_name: "tylenol", classification: "Class II" }, terms);
+    assert.match(search, /openfda\.generic_name:"acetaminophen"/);
+    assert.match(search, /product_description:"paracetamol"/);
+    assert.match(search, /\) AND classification:"Class II"$/);
+  });
+
+  it("searches approvals by every expanded name", () => {
+    const search = buildApprovalSearch({ drug_name: "tylenol" }, terms);
+    assert.match(search, /products\.active_ingredients\.name:"acetaminophen"/);
+    assert.match(search, /openfda\.brand_name:"APAP"/);
+  });
+
+  it("keeps searching by the given name without an expansion", () => {
+    assert.equal(
+      buildApprovalSearch({ drug_name: "lipitor" }),
+      'openfda.brand_name:"lipitor" OR openfda.generic_name:"lipitor" OR openfda.substance_name:"lipitor" OR products.brand_name:"lipitor" OR products.active_ingredients.name:"lipitor"'
+    );
+  });
+});
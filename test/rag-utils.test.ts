@@ -0,0 +1,245 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  TextChunk,
+  bm25Scores,
+  chunkTextByTokens,
+  estimateTokens,
+  extractCitations,
+  rankAndPickTop,
+  scoreChunkByQuery,
+  selectSentencesMMR,
+  stem,
+  tokenize,
+} from "../src/rag-utils.js";
+
+function chunk(id: string, text: string, metadata: Record<string, any> = {}): TextChunk {
+  return { id, text, source: "test", metadata };
+}
+
+describe("stem", () => {
+  it("folds plurals and verb forms onto one term", () => {
+    const groups = [
+      ["reaction", "reactions"],
+      ["bleed", "bleeds", "bleeding"],
+      ["stop", "stopped"],
+      ["dose", "doses", "dosing"],
+      ["therapy", "therapies"],
+      ["take", "taking"],
+    ];
+    for (const group of groups) {
+      assert.equal(new Set(group.map(stem)).size, 1, group.join("/"));
+    }
+  });
+
+  it("keeps short words, -ss/-us endings and non-letters as they are", () => {
+    assert.equal(stem("is"), "is");
+    assert.equal(stem("status"), "status");
+    assert.equal(stem("passes"), "pass");
+    assert.equal(stem("covid19"), "covid19");
+  });
+});
+
+describe("tokenize", () => {
+  it("lowercases, drops stopwords and single characters, and stems", () => {
+    assert.deepEqual(tokenize("The Patients were taking warfarin and 5 mg of Aspirin"), ["patient", "tak", "warfarin", "mg", "aspirin"]);
+  });
+
+  it("keeps runs of Chinese characters as one term", () => {
+    assert.deepEqual(tokenize("肝损伤 hepatotoxicity"), ["肝损伤", "hepatotoxicity"]);
+  });
+
+  it("treats regex metacharacters as separators", () => {
+    assert.deepEqual(tokenize("C++ (warfarin) + aspirin? [bleeding]*"), ["warfarin", "aspirin", "bleed"]);
+  });
+});
+
+describe("bm25Scores", () => {
+  const corpus = [
+    chunk("a", "Bleeding events were reported with warfarin. Monitor INR."),
+    chunk("b", "Nausea and headache were the most common adverse reactions."),
+    chunk("c", "Headache occurred in 5% of patients. Headache resolved without treatment."),
+    chunk("d", "Store at room temperature."),
+  ];
+
+  it("scores only chunks that contain query terms", () => {
+    const scores = bm25Scores(corpus, "warfarin bleeding");
+    assert.ok(scores[0] > 0);
+    assert.deepEqual(scores.slice(1), [0, 0, 0]);
+  });
+
+  it("weights rare terms above common ones", () => {
+    // headache 出现在两个文本块中，nausea 只在一个中出现；同一文本块内 nausea 的 IDF 更高
+    assert.ok(bm25Scores(corpus, "nausea")[1] > bm25Scores(corpus, "headache")[1]);
+    // 词频更高的文本块在同一词项上得分更高
+    const headache = bm25Scores(corpus, "headache");
+    assert.ok(headache[2] > headache[1]);
+  });
+
+  it("counts extra keywords with a lower weight than query terms", () => {
+    const asQuery = bm25Scores(corpus, "warfarin")[0];
+    const asExtra = bm25Scores(corpus, "", ["warfarin"])[0];
+    assert.ok(asExtra > 0 && asExtra < asQuery);
+  });
+
+  it("handles queries with regex metacharacters", () => {
+    assert.doesNotThrow(() => bm25Scores(corpus, "warfarin ( + headache"));
+    assert.ok(bm25Scores(corpus, "(warfarin+")[0] > 0);
+  });
+
+  it("returns an empty list for an empty corpus", () => {
+    assert.deepEqual(bm25Scores([], "warfarin"), []);
+  });
+});
+
+describe("scoreChunkByQuery", () => {
+  it("matches keywords literally, including regex metacharacters", () => {
+    const text = chunk("a", "Use with C++ compilers (not really) and warfarin.");
+    assert.doesNotThrow(() => scoreChunkByQuery(text, "c++ (not"));
+    assert.ok(scoreChunkByQuery(text, "c++") > 0);
+    assert.equal(scoreChunkByQuery(chunk("b", "aspirin"), "c++"), 0);
+  });
+});
+
+describe("rankAndPickTop", () => {
+  it("returns the top chunks with their scores", async () => {
+    const top = await rankAndPickTop(
+      [chunk("a", "Store at room temperature."), chunk("b", "Warfarin increases bleeding risk."), chunk("c", "Bleeding was rare.")],
+      "warfarin bleeding",
+      2
+    );
+    assert.deepEqual(top.map(item => item.id), ["b", "c"]);
+    assert.ok(top[0].score! > top[1].score!);
+  });
+});
+
+describe("chunkTextByTokens", () => {
+  const sentences = Array.from({ length: 12 }, (_, i) => `Sentence number ${i} describes an adverse reaction in detail.`);
+  const header = "Examplex | WARNINGS";
+  const chunks = chunkTextByTokens(sentences.join(" "), { maxTokens: 48, overlapTokens: 16, header, sourceId: "doc" });
+
+  it("keeps every chunk within the token budget and repeats the header", () => {
+    assert.ok(chunks.length > 1);
+    for (const item of chunks) {
+      assert.ok(item.metadata!.tokens <= 48, item.text);
+      assert.ok(item.text.startsWith(`${header}\n`));
+      assert.equal(item.metadata!.body_start, header.length + 1);
+    }
+    assert.deepEqual(chunks.map(item => item.id), chunks.map((_, i) => `doc_chunk_${i}`));
+  });
+
+  it("breaks only between sentences and overlaps by whole sentences", () => {
+    const bodies = chunks.map(item => item.text.slice(item.metadata!.body_start).split(/(?<=\.) /));
+    for (const body of bodies) {
+      for (const sentence of body) assert.ok(sentences.includes(sentence), sentence);
+    }
+    for (let i = 1; i < bodies.length; i++) {
+      const overlap = bodies[i].filter(sentence => bodies[i - 1].includes(sentence));
+      assert.ok(overlap.length > 0);
+      assert.ok(estimateTokens(overlap.join(" ")) <= 16);
+      // 重叠句取自上一块末尾
+      assert.deepEqual(overlap, bodies[i - 1].slice(-overlap.length));
+    }
+    // 全部句子都被覆盖
+    assert.deepEqual([...new Set(bodies.flat())].sort(), [...sentences].sort());
+  });
+
+  it("splits sentences longer than the budget at word boundaries", () => {
+    const long = Array.from({ length: 80 }, (_, i) => `word${i}`).join(" ");
+    const pieces = chunkTextByTokens(long, { maxTokens: 40, overlapTokens: 0 });
+    assert.ok(pieces.length > 1);
+    assert.equal(pieces.map(item => item.text).join(" "), long);
+  });
+
+  it("returns no chunks for blank text", () => {
+    assert.deepEqual(chunkTextByTokens("  \n "), []);
+  });
+});
+
+describe("selectSentencesMMR", () => {
+  const header = "Examplex | WARNINGS\n";
+  function labelChunk(id: string, body: string, setId = "set-1"): TextChunk {
+    return chunk(id, header + body, { body_start: header.length, set_id: setId, section_title: "5 WARNINGS AND PRECAUTIONS" });
+  }
+
+  it("ranks sentences by relevance and cites their chunk", () => {
+    const sentences = selectSentencesMMR([
+      labelChunk("a", "Store tablets at room temperature in a dry place. Serious liver injury has been reported in patients taking examplenol."),
+    ], "liver injury");
+
+    assert.equal(sentences[0].text, "Serious liver injury has been reported in patients taking examplenol.");
+    assert.equal(sentences[0].chunk_id, "a");
+    assert.equal(sentences[0].set_id, "set-1");
+    assert.equal(sentences[0].section, "5 WARNINGS AND PRECAUTIONS");
+    assert.ok(sentences[0].relevance > sentences[1].relevance);
+    // 标题行不作为句子
+    assert.ok(sentences.every(sentence => !sentence.text.includes("Examplex | WARNINGS")));
+  });
+
+  it("skips near-duplicate sentences from overlapping chunks and other manufacturers", () => {
+    const repeated = "Serious liver injury has been reported in patients taking examplenol.";
+    const sentences = selectSentencesMMR([
+      labelChunk("a", repeated),
+      labelChunk("b", `${repeated} Monitor liver enzymes before starting treatment with examplenol.`, "set-2"),
+    ], "liver injury");
+
+    assert.equal(sentences.filter(sentence => sentence.text === repeated).length, 1);
+    assert.deepEqual(sentences.map(sentence => sentence.chunk_id), ["a", "b"]);
+  });
+
+  it("drops short fragments and honours maxSentences", () => {
+    const body = ["headache", "dizziness", "nausea", "rash", "fatigue", "insomnia"]
+      .map(symptom => `Patients commonly reported ${symptom} as a symptom during the first weeks.`)
+      .join(" ");
+    assert.equal(selectSentencesMMR([labelChunk("a", `Short one. ${body}`)], "symptom", { maxSentences: 3 }).length, 3);
+    assert.deepEqual(selectSentencesMMR([labelChunk("a", "Too short.")], "short"), []);
+  });
+});
+
+describe("extractCitations", () => {
+  const metadata = {
+    type: "fda_label",
+    label_id: "doc-1",
+    drugName: "Examplex",
+    set_id: "set-1",
+    version: "3",
+    effective_time: "20240101",
+    url: "https://dailymed.nlm.nih.gov/dailymed/lookup.cfm?setid=set-1",
+  };
+
+  it("merges chunks per label section in ranking order", () => {
+    const citations = extractCitations([
+      { id: "w1", text: "", source: "doc-1", metadata: { ...metadata, section: "warnings", section_title: "5 WARNINGS" } },
+      { id: "a1", text: "", source: "doc-1", metadata: { ...metadata, section: "adverse_reactions", section_title: "6 ADVERSE REACTIONS" } },
+      { id: "w2", text: "", source: "doc-1", metadata: { ...metadata, section: "warnings", section_title: "5 WARNINGS" } },
+    ]);
+
+    assert.deepEqual(citations.map(citation => [citation.section, citation.chunk_ids]), [
+      ["warnings", ["w1", "w2"]],
+      ["adverse_reactions", ["a1"]],
+    ]);
+    assert.deepEqual(
+      { id: citations[0].id, title: citations[0].title, set_id: citations[0].set_id, version: citations[0].version, url: citations[0].url },
+      { id: "doc-1", title: "Examplex", set_id: "set-1", version: "3", url: metadata.url }
+    );
+    assert.equal(citations[0].section_title, "5 WARNINGS");
+  });
+
+  it("falls back to the chunk source for documents without label metadata", () => {
+    assert.deepEqual(extractCitations([chunk("x", "text")]), [{
+      id: "test",
+      type: "document",
+      title: undefined,
+      set_id: undefined,
+      version: undefined,
+      effective_time: undefined,
+      brand_name: undefined,
+      generic_name: undefined,
+      manufacturer: undefined,
+      section: undefined,
+      section_title: undefined,
+      chunk_ids: ["x"],
+      url: undefined,
+    }]);
+  });
+});
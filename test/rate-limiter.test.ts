@@ -0,0 +1,46 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { OpenFDAQuotaError } from "../src/errors.js";
+import { RateLimiter } from "../src/rate-limiter.js";
+
+describe("RateLimiter", () => {
+  it("hands out tokens up to the per-minute capacity", async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 2 });
+    await limiter.acquire();
+    await limiter.acquire();
+    assert.equal(limiter.stats().available_tokens, 0);
+  });
+
+  it("removes an aborted waiter from the queue", async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 1 });
+    await limiter.acquire();
+
+    const controller = new AbortController();
+    const reason = new Error("cancelled");
+    const waiting = limiter.acquire(controller.signal);
+    assert.equal(limiter.stats().queued, 1);
+
+    controller.abort(reason);
+    await assert.rejects(waiting, error => error === reason);
+    // 队列清空后不再保留补充令牌的定时器，进程可以正常退出
+    assert.equal(limiter.stats().queued, 0);
+  });
+
+  it("throws immediately when the signal is already aborted", () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 1 });
+    const controller = new AbortController();
+    controller.abort(new Error("cancelled"));
+    assert.throws(() => limiter.acquire(controller.signal), /cancelled/);
+    assert.equal(limiter.stats().available_tokens, 1);
+  });
+
+  it("fails queued waiters when the quota is exhausted", async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 1 });
+    await limiter.acquire();
+    const waiting = limiter.acquire(new AbortController().signal);
+
+    limiter.blockUntil(new Date(Date.now() + 60_000));
+    await assert.rejects(waiting, OpenFDAQuotaError);
+    assert.throws(() => limiter.acquire(), OpenFDAQuotaError);
+  });
+});
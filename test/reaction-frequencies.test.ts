@@ -0,0 +1,117 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ReactionFrequency, extractReactionFrequencies, parsePercent } from "../src/reaction-frequencies.js";
+import { DrugLabel } from "../src/types.js";
+
+// LIPITOR (atorvastatin) 标签 6.1 节原文
+const LIPITOR_ADVERSE_REACTIONS =
+  "6 ADVERSE REACTIONS The following serious adverse reactions are discussed in greater detail in other sections of the label: "
+  + "Rhabdomyolysis and myopathy [see Warnings and Precautions (5.1)]. Liver enzyme abnormalities [see Warnings and Precautions (5.2)]. "
+  + "6.1 Clinical Trial Adverse Reactions Experience Because clinical trials are conducted under widely varying conditions, adverse "
+  + "reaction rates observed in the clinical trials of a drug cannot be directly compared to rates in the clinical trials of another "
+  + "drug and may not reflect the rates observed in practice. In the LIPITOR placebo-controlled clinical trial database of 16,066 "
+  + "patients (8755 LIPITOR vs. 7311 placebo; age range 10–93 years, 39% women, 91% Caucasians, 3% Blacks, 2% Asians, 4% other) with "
+  + "a median treatment duration of 53 weeks, 9.7% of patients on LIPITOR and 9.5% of the patients on placebo discontinued due to "
+  + "adverse reactions regardless of causality. The five most common adverse reactions in patients treated with LIPITOR that led to "
+  + "treatment discontinuation and occurred at a rate greater than placebo were: myalgia (0.7%), diarrhea (0.5%), nausea (0.4%), "
+  + "alanine aminotransferase increase (0.4%), and hepatic enzyme increase (0.4%). The most commonly reported adverse reactions (incidence ≥2% and greater than placebo) "
+  + "regardless of causality, in patients treated with LIPITOR in placebo controlled trials (n=8755) were nasopharyngitis (8.3%), "
+  + "arthralgia (6.9%), diarrhea (6.8%), pain in extremity (6.0%), and urinary tract infection (5.7%).";
+
+// 仿 JANUVIA (sitagliptin) 标签 Table 1 的结构：分组行 + 例数 (百分比) 单元格
+const JANUVIA_TABLE =
+  "<table><caption>Table 1: Placebo-Controlled Clinical Studies of JANUVIA Monotherapy or Add-on Combination Therapy with "
+  + "Pioglitazone or Metformin: Adverse Reactions (Regardless of Investigator Assessment of Causality) Reported in &ge;5% of Patients "
+  + "and More Commonly than in Patients Given Placebo</caption>"
+  + "<thead><tr><th></th><th>JANUVIA 100 mg</th><th>Placebo</th></tr></thead>"
+  + "<tbody><tr><td colspan=\"3\">Monotherapy (18 or 24 weeks)</td></tr>"
+  + "<tr><td>Nasopharyngitis</td><td>23 (5.2%)</td><td>12 (3.3%)</td></tr>"
+  + "<tr><td>Upper Respiratory Tract Infection</td><td>&lt;1</td><td>2.2</td></tr>"
+  + "<tr><td>Headache</td><td>5.1%</td><td>3.9%</td></tr></tbody></table>";
+
+function frequencies(text: string, table?: string): ReactionFrequency[] {
+  return extractReactionFrequencies({
+    adverse_reactions: [text],
+    ...(table ? { adverse_reactions_table: [table] } : {}),
+  } as DrugLabel);
+}
+
+function byName(results: ReactionFrequency[]) {
+  return Object.fromEntries(results.map(result => [result.reaction, result]));
+}
+
+describe("parsePercent", () => {
+  it("reads plain, qualified and parenthesized percentages", () => {
+    assert.deepEqual(parsePercent("12"), { percent: 12, qualifier: undefined });
+    assert.deepEqual(parsePercent("<1%"), { percent: 1, qualifier: "<" });
+    assert.deepEqual(parsePercent("23 (5.2%)"), { percent: 5.2, qualifier: undefined });
+    assert.equal(parsePercent("n/a"), undefined);
+  });
+});
+
+describe("extractReactionFrequencies", () => {
+  it("reads table rows with drug and placebo columns", () => {
+    const results = byName(frequencies("6 ADVERSE REACTIONS See Table 1.", JANUVIA_TABLE));
+
+    assert.equal(results.headache.drug_percent, 5.1);
+    assert.equal(results.headache.comparator_percent, 3.9);
+    assert.equal(results.headache.threshold, "≥5%");
+    assert.equal(results.headache.source, "table");
+    assert.equal(results["upper respiratory tract infection"].arms[0].qualifier, "<");
+    assert.equal(results.nasopharyngitis.frequency_band, "common");
+    assert.equal(results["monotherapy"], undefined);
+  });
+
+  it("applies the threshold of a '≥X%' sentence to the listed reactions", () => {
+    const results = byName(frequencies(LIPITOR_ADVERSE_REACTIONS));
+
+    assert.equal(results.nasopharyngitis.drug_percent, 8.3);
+    assert.equal(results.nasopharyngitis.threshold, "≥2%");
+    assert.equal(results["pain in extremity"].threshold, "≥2%");
+    assert.equal(results["urinary tract infection"].drug_percent, 5.7);
+    // 导致停药的反应所在句子没有阈值
+    assert.equal(results.myalgia.drug_percent, 0.7);
+    assert.equal(results.myalgia.threshold, null);
+  });
+
+  it("lists reactions without their own percentages under the threshold", () => {
+    const results = frequencies("The most common adverse reactions (≥5%) are headache, nausea, and diarrhea.");
+    assert.deepEqual(results.map(result => [result.reaction, result.threshold]), [
+      ["headache", "≥5%"],
+      ["nausea", "≥5%"],
+      ["diarrhea", "≥5%"],
+    ]);
+  });
+
+  it("reads frequency band lists", () => {
+    const results = byName(frequencies("Other adverse reactions by frequency. Uncommon: pruritus, urticaria. Rare: angioedema."));
+    assert.equal(results.pruritus.frequency_band, "uncommon");
+    assert.equal(results.angioedema.frequency_band, "rare");
+  });
+
+  it("does not invent reactions from text after an unrelated colon", () => {
+    const text = "6 ADVERSE REACTIONS 6.1 Clinical Trials Experience Table 1: Adverse Reactions Occurring in ≥2% of Patients "
+      + "Reaction Drug Placebo Nausea 5% 2% Dizziness 3% 1% In trials, rash (4% vs 1% placebo) occurred.";
+    const results = byName(frequencies(text));
+
+    assert.equal(results["rash occurred"], undefined);
+    assert.equal(results.nausea.drug_percent, 5);
+    assert.equal(results.nausea.comparator_percent, 2);
+    assert.equal(results.nausea.threshold, "≥2%");
+    assert.equal(results.rash.drug_percent, 4);
+    assert.equal(results.rash.comparator_percent, 1);
+    assert.equal(results.rash.threshold, null);
+  });
+
+  it("takes thresholds only from the clause that introduces the list", () => {
+    const results = byName(frequencies(
+      "Adverse reactions occurring in ≥2% of patients are shown below; other events included dizziness and somnolence."
+    ));
+    assert.equal(results["shown below"], undefined);
+    assert.equal(results.dizziness, undefined);
+  });
+
+  it("ignores lot and code listings", () => {
+    assert.deepEqual(frequencies("Lot: dizziness, headache. Product code: nausea (2 tablets)."), []);
+  });
+});
@@ -0,0 +1,21 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { extractLotCodes } from "../src/recalls.js";
+
+describe("extractLotCodes", () => {
+  it("splits lot lists on commas, ampersands and the word and", () => {
+    assert.deepEqual(
+      extractLotCodes("Lot #: AB123, CD456 & EF789 and GH012, Exp 12/2025; Lot 45678"),
+      ["AB123", "CD456", "EF789", "GH012", "45678"]
+    );
+  });
+
+  it("keeps lot codes that contain AND", () => {
+    assert.deepEqual(extractLotCodes("Lot numbers: BAND123, 4AND56 and LAND789"), ["BAND123", "4AND56", "LAND789"]);
+  });
+
+  it("ignores words without digits", () => {
+    assert.deepEqual(extractLotCodes("Lot Expiry: see label"), []);
+    assert.deepEqual(extractLotCodes(undefined), []);
+  });
+});
@@ -0,0 +1,178 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  CursorError,
+  PageCache,
+  PageInfo,
+  ResponseShape,
+  ResumeState,
+  decodeCursor,
+  encodeCursor,
+  projectFields,
+  shapeResponse,
+} from "../src/response-budget.js";
+
+const labels = Array.from({ length: 20 }, (_, index) => ({
+  set_id: `set-${index}`,
+  openfda: { brand_name: [`Brand ${index}`], route: ["ORAL"] },
+  boxed_warning: ["x".repeat(2000)],
+}));
+
+const cursorAt = (offset: number) => `cursor-${offset}`;
+
+describe("projectFields", () => {
+  it("keeps only the listed paths, including through arrays", () => {
+    assert.deepEqual(
+      projectFields({ a: 1, b: { c: 2, d: 3 }, e: [{ f: 1, g: 2 }] }, ["a", "b.c", "e.f", "missing.path"]),
+      { a: 1, b: { c: 2 }, e: [{ f: 1 }] }
+    );
+  });
+});
+
+describe("shapeResponse", () => {
+  it("leaves the result whole without a token budget", () => {
+    const data = { meta: {}, results: labels };
+    const shaped = shapeResponse(data, { maxTokens: Number.POSITIVE_INFINITY, offset: 0 }, cursorAt);
+    assert.deepEqual(shaped, data);
+  });
+
+  it("projects fields without paging when there is no budget", () => {
+    const shaped = shapeResponse(
+      { results: labels },
+      { fields: ["set_id"], maxTokens: Number.POSITIVE_INFINITY, offset: 0 },
+      cursorAt
+    ) as { results: unknown[]; pagination?: PageInfo };
+    assert.equal(shaped.results.length, 20);
+    assert.deepEqual(shaped.results[0], { set_id: "set-0" });
+    assert.equal(shaped.pagination, undefined);
+  });
+
+  it("pages the largest list by token budget", () => {
+    const shaped = shapeResponse({ meta: {}, results: labels }, { maxTokens: 2000, offset: 0 }, cursorAt) as {
+      results: unknown[];
+      pagination: PageInfo;
+    };
+    assert.ok(shaped.results.length > 0 && shaped.results.length < 20);
+    assert.equal(shaped.pagination.list, "results");
+    assert.equal(shaped.pagination.total, 20);
+    assert.equal(shaped.pagination.next_cursor, cursorAt(shaped.results.length));
+
+    const last = shapeResponse({ meta: {}, results: labels }, { maxTokens: 2000, offset: 19 }, cursorAt) as {
+      results: unknown[];
+      pagination: PageInfo;
+    };
+    assert.equal(last.results.length, 1);
+    assert.equal(last.pagination.next_cursor, null);
+  });
+
+  it("truncates a single item that exceeds the budget", () => {
+    const shaped = shapeResponse(
+      { results: [{ text: "y".repeat(20000) }] },
+      { maxTokens: 500, offset: 0 },
+      cursorAt
+    ) as { results: Array<{ text: string }>; pagination: PageInfo };
+    assert.match(shaped.results[0].text, /… \[truncated \d+ chars\]$/);
+    assert.deepEqual(shaped.pagination.truncated_fields, ["text"]);
+  });
+
+  it("returns the rest of truncated fields through the cursor", () => {
+    const text = Array.from({ length: 4000 }, (_, index) => `w${index}`).join(" ");
+    const data = { results: [{ set_id: "a", text, short: "kept" }, { set_id: "b", text: "next item" }] };
+    const resumeCursor = (offset: number, resume?: ResumeState) => JSON.stringify({ offset, resume });
+
+    let shape: ResponseShape = { maxTokens: 800, offset: 0 };
+    const pieces: string[] = [];
+    for (let pages = 0; pages < 50; pages++) {
+      const shaped = shapeResponse(data, shape, resumeCursor) as {
+        results: Array<{ set_id?: string; text: string; short?: string }>;
+        pagination: PageInfo;
+      };
+      const [first, ...rest] = shaped.results;
+      if (shaped.pagination.truncated_fields.length > 0) {
+        assert.deepEqual(shaped.pagination.truncated_fields, ["text"]);
+        assert.equal(shaped.results.length, 1);
+      }
+      pieces.push(first.text.replace(/… \[truncated \d+ chars\]$/, ""));
+      assert.equal(shaped.pagination.char_offset, shape.resume?.chars);
+      // 续页只含被截断的字段
+      if (shape.resume) assert.deepEqual(Object.keys(first), ["text"]);
+      // 剩余文本取完后继续下一项
+      if (rest.length > 0 || shaped.pagination.next_cursor === null) {
+        assert.deepEqual(rest.map(item => item.set_id), ["b"]);
+        break;
+      }
+
+      const next = JSON.parse(shaped.pagination.next_cursor) as { offset: number; resume?: ResumeState };
+      shape = { maxTokens: 800, offset: next.offset, resume: next.resume };
+    }
+
+    assert.ok(pieces.length > 1);
+    assert.equal(pieces.join(""), text);
+  });
+
+  it("continues truncated text of a result without a list", () => {
+    const text = "z".repeat(10000);
+    const first = shapeResponse({ text }, { maxTokens: 500, offset: 0 }, (_offset, resume) => JSON.stringify(resume)) as {
+      text: string;
+      truncated_fields: string[];
+      next_cursor: string;
+    };
+    assert.deepEqual(first.truncated_fields, ["text"]);
+    const resume = JSON.parse(first.next_cursor) as ResumeState;
+    const second = shapeResponse({ text }, { maxTokens: 500, offset: 0, resume }, () => "") as { text: string; char_offset: number };
+    assert.equal(second.char_offset, resume.chars);
+    assert.ok(second.text.startsWith("z") && second.text.length > 0);
+  });
+});
+
+describe("cursor", () => {
+  it("round-trips tool, args and offset", () => {
+    const state = { tool: "search_drug_labels", args: { search: "aspirin", max_tokens: 1000 }, offset: 5 };
+    assert.deepEqual(decodeCursor(encodeCursor(state)), state);
+  });
+
+  it("round-trips the position inside truncated fields", () => {
+    const state = { tool: "search_drug_labels", args: {}, offset: 0, resume: { fields: ["results.boxed_warning"], chars: 1200 } };
+    assert.deepEqual(decodeCursor(encodeCursor(state)), state);
+    assert.throws(
+      () => decodeCursor(Buffer.from(JSON.stringify({ ...state, resume: { fields: "x", chars: 0 } })).toString("base64url")),
+      CursorError
+    );
+  });
+
+  it("rejects malformed cursors", () => {
+    assert.throws(() => decodeCursor("not a cursor"), CursorError);
+    assert.throws(() => decodeCursor(Buffer.from(JSON.stringify({ tool: "x", args: {}, offset: -1 })).toString("base64url")), CursorError);
+  });
+});
+
+describe("PageCache", () => {
+  it("returns stored results until they expire", () => {
+    let now = 0;
+    const pages = new PageCache<string>({ maxEntries: 10, ttlMs: 1000, now: () => now });
+    const id = pages.put("result");
+    assert.equal(pages.get(id), "result");
+    now = 1000;
+    assert.equal(pages.get(id), undefined);
+  });
+
+  it("evicts the least recently used result", () => {
+    const pages = new PageCache<string>({ maxEntries: 2, ttlMs: 1000 });
+    const a = pages.put("a");
+    const b = pages.put("b");
+    pages.get(a);
+    const c = pages.put("c");
+    assert.equal(pages.get(b), undefined);
+    assert.equal(pages.get(a), "a");
+    assert.equal(pages.get(c), "c");
+  });
+
+  it("is referenced from cursors", () => {
+    const state = { tool: "ae_pipeline_rag", args: { query: "x" }, offset: 3, result: "id-1" };
+    assert.deepEqual(decodeCursor(encodeCursor(state)), state);
+    assert.throws(
+      () => decodeCursor(Buffer.from(JSON.stringify({ ...state, result: 1 })).toString("base64url")),
+      CursorError
+    );
+  });
+});
@@ -0,0 +1,55 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { SearchSyntaxError, matchesSearch, parseSearch } from "../src/search-syntax.js";
+
+function matches(query: string, record: unknown): boolean {
+  return matchesSearch(parseSearch(query), record);
+}
+
+describe("parseSearch", () => {
+  it("parses fields, phrases, ranges and boolean operators", () => {
+    assert.deepEqual(parseSearch('openfda.brand_name:"tylenol pm"+AND+NOT+effective_time:[20200101+TO+*]'), {
+      type: "and",
+      children: [
+        { type: "term", field: "openfda.brand_name", value: "tylenol pm", phrase: true },
+        { type: "not", child: { type: "range", field: "effective_time", from: "20200101", to: "*" } },
+      ],
+    });
+  });
+
+  it("rejects malformed queries", () => {
+    assert.throws(() => parseSearch(""), SearchSyntaxError);
+    assert.throws(() => parseSearch("(warnings:liver"), SearchSyntaxError);
+    assert.throws(() => parseSearch("warnings:liver AND"), SearchSyntaxError);
+  });
+});
+
+describe("matchesSearch", () => {
+  const label = {
+    version: "9",
+    effective_time: "20231105",
+    openfda: { brand_name: ["Tylenol PM"], route: ["ORAL"] },
+    warnings: ["Liver warning: severe liver damage may occur"],
+  };
+
+  it("matches terms, phrases and existence checks", () => {
+    assert.equal(matches("warnings:liver AND openfda.route:oral", label), true);
+    assert.equal(matches('warnings:"liver damage"', label), true);
+    assert.equal(matches('warnings:"damage liver"', label), false);
+    assert.equal(matches("_exists_:boxed_warning", label), false);
+  });
+
+  it("compares numeric ranges numerically, including open-ended ones", () => {
+    assert.equal(matches("version:[2 TO 10]", label), true);
+    assert.equal(matches("version:[10 TO *]", label), false);
+    assert.equal(matches("version:[* TO 10]", label), true);
+    assert.equal(matches("version:[* TO 8]", label), false);
+    assert.equal(matches("effective_time:[20230101 TO *]", label), true);
+    assert.equal(matches("effective_time:[* TO 20230101]", label), false);
+  });
+
+  it("falls back to string comparison for non-numeric values", () => {
+    assert.equal(matches("openfda.brand_name:[T TO *]", label), true);
+    assert.equal(matches("openfda.brand_name:[* TO S]", label), false);
+  });
+});